@@ -18,6 +18,12 @@ const GifCompressor = lazy(() => import("./pages/tools/GifCompressor"));
 const ImageCompressor = lazy(() => import("./pages/tools/ImageCompressor"));
 const ImageResizer = lazy(() => import("./pages/tools/ImageResizer"));
 const VideoConverter = lazy(() => import("./pages/tools/VideoConverter"));
+const GifToVideo = lazy(() => import("./pages/tools/GifToVideo"));
+const VideoEditor = lazy(() => import("./pages/tools/VideoEditor"));
+const AudioConverter = lazy(() => import("./pages/tools/AudioConverter"));
+const AudioExtractor = lazy(() => import("./pages/tools/AudioExtractor"));
+const VideoMerger = lazy(() => import("./pages/tools/VideoMerger"));
+const VideoThumbnails = lazy(() => import("./pages/tools/VideoThumbnails"));
 const ImageConverter = lazy(() => import("./pages/tools/ImageConverter"));
 const ConvertCaseTool = lazy(() => import("./pages/tools/ConvertCaseTool"));
 const XmlEditor = lazy(() => import("./pages/tools/XmlEditor"));
@@ -139,6 +145,36 @@ const AppContent = () => {
               <VideoConverter />
             </Suspense>
           } />
+          <Route path="/tools/gif-to-video" element={
+            <Suspense fallback={<LoadingSpinner text="Loading GIF to Video..." />}>
+              <GifToVideo />
+            </Suspense>
+          } />
+          <Route path="/tools/video-editor" element={
+            <Suspense fallback={<LoadingSpinner text="Loading Video Editor..." />}>
+              <VideoEditor />
+            </Suspense>
+          } />
+          <Route path="/tools/audio-converter" element={
+            <Suspense fallback={<LoadingSpinner text="Loading Audio Converter..." />}>
+              <AudioConverter />
+            </Suspense>
+          } />
+          <Route path="/tools/extract-audio" element={
+            <Suspense fallback={<LoadingSpinner text="Loading Extract Audio..." />}>
+              <AudioExtractor />
+            </Suspense>
+          } />
+          <Route path="/tools/merge-videos" element={
+            <Suspense fallback={<LoadingSpinner text="Loading Merge Videos..." />}>
+              <VideoMerger />
+            </Suspense>
+          } />
+          <Route path="/tools/video-thumbnails" element={
+            <Suspense fallback={<LoadingSpinner text="Loading Video Thumbnails..." />}>
+              <VideoThumbnails />
+            </Suspense>
+          } />
           <Route path="/tools/image-converter" element={
             <Suspense fallback={<LoadingSpinner text="Loading Image converter..." />}>
               <ImageConverter />
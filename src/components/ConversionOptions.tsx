@@ -1,11 +1,16 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
-import type { ConversionOptions } from '@/types';
+import { Switch } from '@/components/ui/switch';
+import type { AnimationFormat, ConversionOptions } from '@/types';
 import { formatDuration, formatFileSize } from '@/utils/formatters';
 import { Settings } from 'lucide-react';
+import { DITHER_METHODS, type DitherMethod } from '@/utils/gifDither';
+import { ANIMATION_FORMAT_INFO, captureVideoFrame } from '@/utils/gifConverter';
+import { MAX_LOSSINESS } from '@/utils/gifEncoder';
+import DitherPreview from '@/components/tools/gif/DitherPreview';
 
 interface ConversionOptionsProps {
   options: ConversionOptions;
@@ -14,6 +19,12 @@ interface ConversionOptionsProps {
   videoDuration?: number; // Add video duration prop
 }
 
+const OUTPUT_FORMATS: { value: AnimationFormat; description: string }[] = [
+  { value: 'gif', description: '256 colors, plays everywhere' },
+  { value: 'webp', description: 'Full color & alpha, much smaller' },
+  { value: 'apng', description: 'Lossless full color & alpha' }
+];
+
 const estimateGifSize = (width: number, height: number, fps: number, duration: number, quality: number): number => {
   // Rough estimation formula for GIF file size
   const frames = fps * duration;
@@ -23,6 +34,35 @@ const estimateGifSize = (width: number, height: number, fps: number, duration: n
 };
 
 const ConversionOptionsForm = ({ options, onChange, videoFile, videoDuration = 0 }: ConversionOptionsProps) => {
+  const [previewFrame, setPreviewFrame] = useState<ImageData | null>(null);
+  const startTime = options.startTime || 0;
+  const outputFormat = options.outputFormat ?? 'gif';
+  const isGif = outputFormat === 'gif';
+
+  // Grab the frame at the start time so the dithering preview reflects the actual clip
+  useEffect(() => {
+    if (!videoFile) {
+      setPreviewFrame(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      captureVideoFrame(videoFile, startTime, 320)
+        .then((frame) => {
+          if (!cancelled) setPreviewFrame(frame);
+        })
+        .catch(() => {
+          if (!cancelled) setPreviewFrame(null);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [videoFile, startTime]);
+
   // Calculate estimated file size
   const getEstimatedSize = () => {
     const width = options.width || 480;
@@ -45,14 +85,30 @@ const ConversionOptionsForm = ({ options, onChange, videoFile, videoDuration = 0
     const newOptions = { ...options };
 
     if (!isNaN(numValue)) {
-      (newOptions as Record<string, number | boolean>)[name] = numValue;
+      (newOptions as Record<string, unknown>)[name] = numValue;
     } else if (value === '') {
-      delete (newOptions as Record<string, number | boolean>)[name];
+      delete (newOptions as Record<string, unknown>)[name];
     }
 
     onChange(newOptions);
   };
 
+  const handleOutputFormatChange = (format: AnimationFormat) => {
+    onChange({ ...options, outputFormat: format });
+  };
+
+  const handleDitheringChange = (dithering: DitherMethod) => {
+    onChange({ ...options, dithering });
+  };
+
+  const handleOptimizeFramesChange = (optimizeFrames: boolean) => {
+    onChange({ ...options, optimizeFrames });
+  };
+
+  const handleLossyChange = (value: number[]) => {
+    onChange({ ...options, lossy: value[0] });
+  };
+
   const handleStartTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
     onChange({
@@ -93,6 +149,30 @@ const ConversionOptionsForm = ({ options, onChange, videoFile, videoDuration = 0
       </div>
 
       <div className="space-y-6">
+        <div className="space-y-4 bg-black/50 p-4 border border-gray-600/50">
+          <Label className="text-green-300 text-lg">OUTPUT FORMAT:</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {OUTPUT_FORMATS.map((format) => (
+              <button
+                key={format.value}
+                type="button"
+                onClick={() => handleOutputFormatChange(format.value)}
+                className={`p-2 border text-left transition-colors ${
+                  outputFormat === format.value
+                    ? 'border-green-400 bg-green-900/30 text-green-300'
+                    : 'border-gray-600/50 text-gray-300 hover:border-green-400/50'
+                }`}
+              >
+                <div className="text-sm font-semibold">{ANIMATION_FORMAT_INFO[format.value].label}</div>
+                <div className="text-xs text-gray-400">{format.description}</div>
+              </button>
+            ))}
+          </div>
+          {!isGif && (
+            <p className="text-sm text-green-300/80">UNCHANGED PIXELS ARE SKIPPED AUTOMATICALLY - POST-CONVERSION EDITS ARE GIF ONLY</p>
+          )}
+        </div>
+
         <div className="space-y-2 bg-black/50 p-4 border border-gray-600/50">
           <div className="flex justify-between mb-2">
             <Label htmlFor="fps" className="text-green-300 text-lg">
@@ -135,6 +215,71 @@ const ConversionOptionsForm = ({ options, onChange, videoFile, videoDuration = 0
           <p className="text-sm text-green-300/80 mt-2">LOWER VALUES = BETTER QUALITY BUT LARGER FILE SIZE</p>
         </div>
 
+        {isGif && (
+          <>
+            <div className="space-y-4 bg-black/50 p-4 border border-gray-600/50">
+              <Label className="text-green-300 text-lg">DITHERING:</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {DITHER_METHODS.map((method) => (
+                  <button
+                    key={method.value}
+                    type="button"
+                    onClick={() => handleDitheringChange(method.value)}
+                    className={`p-2 border text-left transition-colors ${
+                      (options.dithering ?? 'none') === method.value
+                        ? 'border-green-400 bg-green-900/30 text-green-300'
+                        : 'border-gray-600/50 text-gray-300 hover:border-green-400/50'
+                    }`}
+                  >
+                    <div className="text-sm font-semibold">{method.label}</div>
+                    <div className="text-xs text-gray-400">{method.description}</div>
+                  </button>
+                ))}
+              </div>
+              <DitherPreview
+                source={previewFrame}
+                method={options.dithering ?? 'none'}
+                paletteSize={256}
+              />
+            </div>
+
+            <div className="space-y-2 bg-black/50 p-4 border border-gray-600/50">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="optimizeFrames" className="text-green-300 text-lg">
+                  OPTIMIZE FRAMES:
+                </Label>
+                <Switch
+                  id="optimizeFrames"
+                  checked={options.optimizeFrames ?? false}
+                  onCheckedChange={handleOptimizeFramesChange}
+                />
+              </div>
+              <p className="text-sm text-green-300/80">ONLY STORES PIXELS THAT CHANGE BETWEEN FRAMES - BEST FOR SCREEN RECORDINGS</p>
+            </div>
+
+            <div className="space-y-2 bg-black/50 p-4 border border-gray-600/50">
+              <div className="flex justify-between mb-2">
+                <Label htmlFor="lossy" className="text-green-300 text-lg">
+                  LOSSY COMPRESSION:
+                </Label>
+                <span className="text-blue-400 font-bold">{options.lossy ? options.lossy : 'OFF'}</span>
+              </div>
+              <div className="px-2">
+                <Slider
+                  id="lossy"
+                  min={0}
+                  max={MAX_LOSSINESS}
+                  step={10}
+                  value={[options.lossy || 0]}
+                  onValueChange={handleLossyChange}
+                  className="cursor-pointer [&>span:first-child]:h-2 [&>span:first-child]:bg-green-900/50 [&>span:first-child_span]:bg-green-400 [&>span:first-child_span]:border-2 [&>span:first-child_span]:border-green-400 [&>span:first-child_span]:w-5 [&>span:first-child_span]:h-5 [&>span:first-child_span]:-mt-1.5"
+                />
+              </div>
+              <p className="text-sm text-green-300/80 mt-2">HIGHER VALUES = SMALLER FILE BUT MORE NOISE - 20-80 WORKS WELL FOR REAL FOOTAGE</p>
+            </div>
+          </>
+        )}
+
         <div className="space-y-4 bg-black/50 p-4 border border-gray-600/50">
           <h4 className="text-green-300 text-lg font-semibold">TIME CONTROLS:</h4>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
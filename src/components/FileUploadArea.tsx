@@ -19,6 +19,7 @@ interface FileUploadAreaProps {
   showUrlInput?: boolean | undefined;
   onUrlSubmit?: ((url: string) => void) | undefined;
   urlPlaceholder?: string | undefined;
+  multiple?: boolean | undefined; // Accept several files at once; onFileSelected is called for each
 }
 
 /**
@@ -35,7 +36,8 @@ const FileUploadArea = ({
   className = '',
   showUrlInput = false,
   onUrlSubmit,
-  urlPlaceholder = 'Enter URL...'
+  urlPlaceholder = 'Enter URL...',
+  multiple = false
 }: FileUploadAreaProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -98,12 +100,27 @@ const FileUploadArea = ({
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      const file = files[0];
-      processFile(file);
+      processFiles(Array.from(files));
     }
+    // Lets the same file be picked again, e.g. to add a clip twice
+    e.target.value = '';
   };
 
-  const processFile = (file: File) => {
+  const processFiles = (files: File[]) => {
+    if (!multiple) {
+      processFile(files[0]);
+      return;
+    }
+    const accepted = files.filter(file => processFile(file, false));
+    if (accepted.length > 0) {
+      toast.success(accepted.length === 1 ? 'File added' : `${accepted.length} files added`, {
+        description: accepted.map(file => file.name).join(', ')
+      });
+    }
+  };
+
+  // Returns whether the file passed validation
+  const processFile = (file: File, showSelection = true): boolean => {
     // Use centralized validation
     const validationOptions: Parameters<typeof validateFile>[1] = {};
     if (maxFileSize !== undefined) {
@@ -116,9 +133,9 @@ const FileUploadArea = ({
 
     if (!validation.isValid) {
       toast.error('Invalid file', {
-        description: validation.error
+        description: multiple ? `${file.name}: ${validation.error}` : validation.error
       });
-      return;
+      return false;
     }
 
     // Show warnings if any
@@ -130,14 +147,17 @@ const FileUploadArea = ({
       });
     }
 
+    onFileSelected(file);
+    if (!showSelection) return true;
+
     const fileSizeInMB = formatFileSizeMB(file.size);
     setFileName(file.name);
     setFileSize(fileSizeInMB);
-    onFileSelected(file);
 
     toast.success('File selected', {
       description: file.name
     });
+    return true;
   };
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -172,8 +192,7 @@ const FileUploadArea = ({
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      const file = files[0];
-      processFile(file);
+      processFiles(Array.from(files));
     }
   };
 
@@ -251,6 +270,7 @@ const FileUploadArea = ({
           ref={fileInputRef}
           className="hidden"
           accept={acceptString}
+          multiple={multiple}
           onChange={handleFileChange}
         />
       </motion.div>
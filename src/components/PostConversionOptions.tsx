@@ -4,7 +4,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Textarea } from '@/components/ui/textarea';
-import { Download, Crop, RotateCw, Rewind, Zap, Type, Maximize } from 'lucide-react';
+import { Download, Crop, RotateCw, Rewind, Repeat, Zap, Type, Maximize, Undo2, Loader2 } from 'lucide-react';
 import { GifResult } from '@/types';
 import { formatFileSize } from '@/utils/formatters';
 
@@ -12,12 +12,18 @@ interface PostConversionOptionsProps {
   gifResult: GifResult;
   onDownload: () => void;
   onEdit: (editType: string, params?: import('@/types/common').EditParams) => void;
+  onUndo?: (() => void) | undefined;
+  appliedEdits?: string[] | undefined; // Labels of edits that can be undone, oldest first
+  isEditing?: boolean | undefined;
 }
 
 const PostConversionOptions = ({ 
   gifResult, 
   onDownload, 
-  onEdit 
+  onEdit,
+  onUndo,
+  appliedEdits = [],
+  isEditing = false
 }: PostConversionOptionsProps) => {
   const [showEditOptions, setShowEditOptions] = useState(false);
   const [cropParams, setCropParams] = useState({ x: 0, y: 0, width: 100, height: 100 });
@@ -42,6 +48,40 @@ const PostConversionOptions = ({
         </div>
       </div>
 
+      {/* Preview */}
+      <div className="relative w-full max-w-2xl mx-auto">
+        <img
+          src={gifResult.url}
+          alt="Generated GIF"
+          className="w-full rounded-lg shadow-lg border border-gray-700/50"
+        />
+        {isEditing && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/60 rounded-lg">
+            <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {appliedEdits.length > 0 && (
+        <div className="flex items-center justify-between bg-gray-900/30 border border-gray-700/50 rounded-lg px-4 py-2 text-sm">
+          <span className="text-gray-400">
+            Applied: <span className="text-gray-200">{appliedEdits.join(' → ')}</span>
+          </span>
+          {onUndo && (
+            <Button
+              onClick={onUndo}
+              disabled={isEditing}
+              size="sm"
+              variant="outline"
+              className="border-gray-600 text-gray-300 flex items-center gap-2"
+            >
+              <Undo2 className="w-4 h-4" />
+              Undo
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex flex-wrap gap-3">
         <Button 
@@ -64,7 +104,7 @@ const PostConversionOptions = ({
 
       {/* Edit Options */}
       {showEditOptions && (
-        <div className="bg-gray-900/30 border border-gray-700/50 rounded-lg p-6 space-y-6">
+        <fieldset disabled={isEditing} className="bg-gray-900/30 border border-gray-700/50 rounded-lg p-6 space-y-6 disabled:opacity-60">
           <h4 className="text-lg font-semibold text-blue-400 mb-4">Edit Options</h4>
           
           {/* Crop */}
@@ -237,8 +277,18 @@ const PostConversionOptions = ({
               <Rewind className="w-4 h-4" />
               Reverse
             </Button>
+
+            <Button 
+              onClick={() => onEdit('boomerang')}
+              size="sm"
+              variant="outline"
+              className="border-purple-500 text-purple-400 hover:bg-purple-500/10 flex items-center gap-2"
+            >
+              <Repeat className="w-4 h-4" />
+              Boomerang
+            </Button>
           </div>
-        </div>
+        </fieldset>
       )}
     </div>
   );
@@ -1,5 +1,5 @@
 import React from 'react';
-import { LucideIcon, Loader2 } from 'lucide-react';
+import { LucideIcon, Loader2, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export interface ToolActionButtonProps {
@@ -12,6 +12,9 @@ export interface ToolActionButtonProps {
     fullWidth?: boolean;
     variant?: 'primary' | 'secondary';
     className?: string;
+    /** Shows a Cancel button next to the action while isLoading is true */
+    onCancel?: () => void;
+    cancelText?: string;
 }
 
 /**
@@ -29,6 +32,13 @@ export interface ToolActionButtonProps {
  *   Download
  * </ToolActionButton>
  * ```
+ *
+ * Pass onCancel to let users abort a running job:
+ * ```tsx
+ * <ToolActionButton onClick={handleConvert} isLoading={isProcessing} onCancel={cancelProcessing}>
+ *   Convert
+ * </ToolActionButton>
+ * ```
  */
 export const ToolActionButton = ({
     onClick,
@@ -39,7 +49,9 @@ export const ToolActionButton = ({
     disabled = false,
     fullWidth = false,
     variant = 'primary',
-    className
+    className,
+    onCancel,
+    cancelText = 'Cancel'
 }: ToolActionButtonProps) => {
     const LoadingIcon = Loader2;
 
@@ -60,7 +72,7 @@ export const ToolActionButton = ({
         className
     );
 
-    return (
+    const button = (
         <button
             onClick={onClick}
             disabled={disabled || isLoading}
@@ -81,6 +93,24 @@ export const ToolActionButton = ({
             )}
         </button>
     );
+
+    if (!isLoading || !onCancel) {
+        return button;
+    }
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+            {button}
+            <button
+                type="button"
+                onClick={onCancel}
+                className="py-2.5 px-4 rounded-lg flex items-center justify-center bg-gray-700 text-white hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors duration-200"
+            >
+                <X className="mr-2 h-5 w-5" aria-hidden="true" />
+                <span>{cancelText}</span>
+            </button>
+        </div>
+    );
 };
 
 export default ToolActionButton;
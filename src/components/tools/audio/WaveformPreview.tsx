@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, type MouseEvent } from 'react';
+import type { AudioWaveform } from '@/utils/audioProcessor';
+import { cn } from '@/lib/utils';
+
+interface WaveformPreviewProps {
+  waveform: AudioWaveform;
+  audio?: HTMLAudioElement | null | undefined; // Shows and controls the playback position
+  height?: number | undefined;
+  className?: string | undefined;
+}
+
+const PLAYED_COLOR = '#22c55e';
+const UNPLAYED_COLOR = '#4b5563';
+
+const WaveformPreview = ({ waveform, audio, height = 96, className }: WaveformPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Match the backing store to the displayed size so bars stay crisp
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = Math.max(1, Math.round(width * ratio));
+    canvas.height = Math.max(1, Math.round(height * ratio));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+
+    const { peaks, duration } = waveform;
+    const played = audio && duration > 0 ? audio.currentTime / duration : 0;
+    const barWidth = width / peaks.length;
+    const middle = height / 2;
+
+    peaks.forEach((peak, index) => {
+      const x = index * barWidth;
+      const barHeight = Math.max(1, peak * (height - 4));
+      ctx.fillStyle = (index + 0.5) / peaks.length <= played ? PLAYED_COLOR : UNPLAYED_COLOR;
+      ctx.fillRect(x, middle - barHeight / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+  }, [waveform, audio, height]);
+
+  // Redraw on resize, seeks and every animation frame while playing
+  useEffect(() => {
+    draw();
+    const canvas = canvasRef.current;
+    const observer = canvas ? new ResizeObserver(draw) : null;
+    if (canvas) observer?.observe(canvas);
+    if (!audio) return () => observer?.disconnect();
+
+    let animationFrame = 0;
+    const loop = () => {
+      draw();
+      if (!audio.paused && !audio.ended) {
+        animationFrame = requestAnimationFrame(loop);
+      }
+    };
+    const handlePlay = () => {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('seeked', draw);
+    audio.addEventListener('timeupdate', draw);
+
+    return () => {
+      observer?.disconnect();
+      cancelAnimationFrame(animationFrame);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('seeked', draw);
+      audio.removeEventListener('timeupdate', draw);
+    };
+  }, [audio, draw]);
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!audio || waveform.duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((event.clientX - rect.left) / rect.width) * waveform.duration;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={cn('w-full rounded-lg bg-gray-900/60', audio && 'cursor-pointer', className)}
+      style={{ height }}
+      aria-label="Audio waveform"
+      role="img"
+    />
+  );
+};
+
+export default WaveformPreview;
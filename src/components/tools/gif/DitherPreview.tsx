@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import { buildPalette, type QuantizerMethod } from '@/utils/gifQuantizer';
+import { ditherToPalette, indicesToRgba, type DitherMethod } from '@/utils/gifDither';
+import { cn } from '@/lib/utils';
+
+interface DitherPreviewProps {
+  source: ImageData | null;
+  method: DitherMethod;
+  paletteSize: number;
+  quantizer?: QuantizerMethod | undefined;
+  maxDimension?: number | undefined;
+  className?: string | undefined;
+}
+
+// Downscale a frame so the preview stays responsive while settings change
+const scaleFrame = (source: ImageData, maxDimension: number): ImageData => {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  if (scale === 1) return source;
+
+  const sourceCanvas = document.createElement('canvas');
+  sourceCanvas.width = source.width;
+  sourceCanvas.height = source.height;
+  sourceCanvas.getContext('2d')?.putImageData(source, 0, 0);
+
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return source;
+  ctx.drawImage(sourceCanvas, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+const DitherPreview = ({
+  source,
+  method,
+  paletteSize,
+  quantizer = 'median-cut',
+  maxDimension = 240,
+  className,
+}: DitherPreviewProps) => {
+  const originalRef = useRef<HTMLCanvasElement>(null);
+  const ditheredRef = useRef<HTMLCanvasElement>(null);
+  const [frame, setFrame] = useState<ImageData | null>(null);
+  const [rendering, setRendering] = useState(false);
+
+  useEffect(() => {
+    setFrame(source ? scaleFrame(source, maxDimension) : null);
+  }, [source, maxDimension]);
+
+  useEffect(() => {
+    const canvas = originalRef.current;
+    if (!frame || !canvas) return;
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')?.putImageData(frame, 0, 0);
+  }, [frame]);
+
+  useEffect(() => {
+    if (!frame) return;
+
+    setRendering(true);
+    // Debounce so dragging the palette slider doesn't queue a render per step
+    const timer = setTimeout(() => {
+      const canvas = ditheredRef.current;
+      if (!canvas) return;
+
+      const { palette, transparentIndex } = buildPalette([frame.data], { method: quantizer, paletteSize });
+      const indices = ditherToPalette(frame.data, frame.width, frame.height, palette, transparentIndex, method);
+      const output = new ImageData(frame.width, frame.height);
+      indicesToRgba(indices, palette, transparentIndex, output.data);
+
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+      canvas.getContext('2d')?.putImageData(output, 0, 0);
+      setRendering(false);
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [frame, method, paletteSize, quantizer]);
+
+  if (!source) return null;
+
+  return (
+    <div className={cn("grid grid-cols-2 gap-3", className)}>
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400 uppercase">Original</div>
+        <canvas
+          ref={originalRef}
+          className="w-full h-auto border border-gray-600/50 bg-black [image-rendering:pixelated]"
+        />
+      </div>
+      <div className="space-y-1">
+        <div className="text-xs text-gray-400 uppercase">
+          Preview {rendering && <span className="text-yellow-400">(updating…)</span>}
+        </div>
+        <canvas
+          ref={ditheredRef}
+          className="w-full h-auto border border-gray-600/50 bg-black [image-rendering:pixelated]"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DitherPreview;
@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Copy, Film, Repeat, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  boomerangFrames,
+  deleteFrames,
+  duplicateFrames,
+  MAX_FRAME_DELAY,
+  MIN_FRAME_DELAY,
+  moveFrame,
+  reverseFrames,
+  setFrameDelays,
+  type EditableFrame
+} from '@/utils/gifFrameEditor';
+import { cn } from '@/lib/utils';
+
+interface GifFrameEditorProps {
+  frames: EditableFrame[];
+  width: number;
+  height: number;
+  onChange: (frames: EditableFrame[]) => void;
+  onReset?: (() => void) | undefined;
+  className?: string | undefined;
+}
+
+const THUMBNAIL_SIZE = 72;
+
+// Thumbnails are cached per pixel buffer, so duplicated frames reuse the same image
+const thumbnailCache = new WeakMap<Uint8ClampedArray, string>();
+
+const getThumbnail = (pixels: Uint8ClampedArray<ArrayBuffer>, width: number, height: number): string => {
+  const cached = thumbnailCache.get(pixels);
+  if (cached) return cached;
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  source.getContext('2d')?.putImageData(new ImageData(pixels, width, height), 0, 0);
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const url = canvas.toDataURL();
+  thumbnailCache.set(pixels, url);
+  return url;
+};
+
+const GifFrameEditor = ({ frames, width, height, onChange, onReset, className }: GifFrameEditorProps) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [lastClicked, setLastClicked] = useState<number | null>(null); // Frame id, so the anchor survives reordering
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [delayInput, setDelayInput] = useState('100');
+
+  // Drop selections for frames that no longer exist
+  useEffect(() => {
+    setSelected((previous) => {
+      const ids = new Set(frames.map((frame) => frame.id));
+      const next = new Set([...previous].filter((id) => ids.has(id)));
+      return next.size === previous.size ? previous : next;
+    });
+  }, [frames]);
+
+  const totalDuration = useMemo(() => frames.reduce((sum, frame) => sum + frame.delay, 0), [frames]);
+
+  const handleFrameClick = (e: React.MouseEvent, index: number) => {
+    const id = frames[index].id;
+    const anchor = frames.findIndex((frame) => frame.id === lastClicked);
+    if (e.shiftKey && anchor !== -1) {
+      const [start, end] = [Math.min(anchor, index), Math.max(anchor, index)];
+      setSelected(new Set(frames.slice(start, end + 1).map((frame) => frame.id)));
+    } else if (e.ctrlKey || e.metaKey) {
+      setSelected((previous) => {
+        const next = new Set(previous);
+        if (next.has(id)) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+        return next;
+      });
+      setLastClicked(id);
+    } else {
+      setSelected(new Set([id]));
+      setLastClicked(id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
+    e.preventDefault();
+    if (draggedIndex === null) return;
+    onChange(moveFrame(frames, draggedIndex, dropIndex));
+    setDraggedIndex(null);
+  };
+
+  const handleApplyDelay = () => {
+    const delay = parseInt(delayInput);
+    if (isNaN(delay)) return;
+    onChange(setFrameDelays(frames, selected, delay));
+  };
+
+  const toggleSelectAll = () => {
+    setSelected(selected.size === frames.length ? new Set() : new Set(frames.map((frame) => frame.id)));
+  };
+
+  return (
+    <div className={cn("space-y-4 p-4 bg-purple-400/5 rounded-lg border border-purple-400/20", className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Film className="h-4 w-4 text-purple-400" />
+          <h4 className="text-sm font-medium text-purple-400">Frame Editor</h4>
+        </div>
+        <span className="text-xs text-gray-400">
+          {frames.length} frames · {(totalDuration / 1000).toFixed(2)}s
+          {selected.size > 0 && ` · ${selected.size} selected`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={toggleSelectAll} className="border-gray-600 text-gray-300">
+          {selected.size === frames.length ? 'Select None' : 'Select All'}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange(deleteFrames(frames, selected))}
+          disabled={selected.size === 0 || selected.size === frames.length}
+          className="border-gray-600 text-gray-300"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onChange(duplicateFrames(frames, selected))}
+          disabled={selected.size === 0}
+          className="border-gray-600 text-gray-300"
+        >
+          <Copy className="mr-1 h-4 w-4" />
+          Duplicate
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onChange(reverseFrames(frames))} className="border-gray-600 text-gray-300">
+          <RotateCcw className="mr-1 h-4 w-4" />
+          Reverse
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onChange(boomerangFrames(frames))} className="border-gray-600 text-gray-300">
+          <Repeat className="mr-1 h-4 w-4" />
+          Boomerang
+        </Button>
+        {onReset && (
+          <Button size="sm" variant="outline" onClick={onReset} className="border-gray-600 text-gray-300">
+            <Undo2 className="mr-1 h-4 w-4" />
+            Reset
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="frameDelay" className="text-sm text-gray-300">Delay (ms):</label>
+        <input
+          id="frameDelay"
+          type="number"
+          min={MIN_FRAME_DELAY}
+          max={MAX_FRAME_DELAY}
+          step="10"
+          value={delayInput}
+          onChange={(e) => setDelayInput(e.target.value)}
+          className="w-24 px-2 py-1 bg-gray-800/50 border border-gray-600 rounded text-gray-200 text-sm"
+        />
+        <Button size="sm" variant="outline" onClick={handleApplyDelay} className="border-gray-600 text-gray-300">
+          {selected.size > 0 ? 'Apply to Selected' : 'Apply to All'}
+        </Button>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {frames.map((frame, index) => (
+          <div
+            key={frame.id}
+            draggable
+            onDragStart={() => setDraggedIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, index)}
+            onDragEnd={() => setDraggedIndex(null)}
+            onClick={(e) => handleFrameClick(e, index)}
+            className={cn(
+              "flex-shrink-0 w-20 p-1 rounded border-2 cursor-pointer select-none transition-colors",
+              selected.has(frame.id)
+                ? "border-purple-400 bg-purple-400/10"
+                : "border-gray-700 hover:border-gray-500",
+              draggedIndex === index && "opacity-50"
+            )}
+          >
+            <div className="h-14 flex items-center justify-center bg-black/40">
+              <img
+                src={getThumbnail(frame.pixels, width, height)}
+                alt={`Frame ${index + 1}`}
+                className="max-h-14 max-w-full pointer-events-none"
+              />
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+              <span>#{index + 1}</span>
+              <span>{frame.delay}ms</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Click to select, Shift-click for a range, Ctrl/Cmd-click to toggle. Drag frames to reorder.</p>
+    </div>
+  );
+};
+
+export default GifFrameEditor;
@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Info } from 'lucide-react';
+import type { DecodedGifFrame, GifDisposalMethod, ParsedGif } from '@/utils/gifDecoder';
+import { formatFileSize } from '@/utils/formatters';
+import { cn } from '@/lib/utils';
+
+interface GifInspectorProps {
+  gif: ParsedGif;
+  frames: DecodedGifFrame[] | null; // Composited frames; the strip shows placeholders until they arrive
+  fileSize: number;
+  className?: string | undefined;
+}
+
+const THUMBNAIL_SIZE = 64;
+
+const DISPOSAL_LABELS: Record<GifDisposalMethod, string> = {
+  0: 'Unspecified',
+  1: 'Keep',
+  2: 'Restore background',
+  3: 'Restore previous'
+};
+
+const formatLoopCount = (loopCount: number | null): string => {
+  if (loopCount === null) return 'Plays once';
+  if (loopCount === 0) return 'Forever';
+  return `${loopCount}×`;
+};
+
+// Render a composited frame into a small data URL for the strip
+const createThumbnail = (frame: DecodedGifFrame, width: number, height: number): string => {
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  source.getContext('2d')?.putImageData(new ImageData(frame.pixels, width, height), 0, 0);
+
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL();
+};
+
+const GifInspector = ({ gif, frames, fileSize, className }: GifInspectorProps) => {
+  const [selected, setSelected] = useState(0);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const stats = useMemo(() => {
+    const totalDuration = gif.frames.reduce((sum, frame) => sum + frame.delay, 0);
+    const frameBytes = gif.frames.map((frame) => frame.imageData.length);
+    const largestFrame = frameBytes.reduce((max, bytes) => Math.max(max, bytes), 0);
+    const localPalettes = gif.frames.filter((frame) => frame.localPalette).length;
+    return { totalDuration, frameBytes, largestFrame, localPalettes };
+  }, [gif]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [gif]);
+
+  useEffect(() => {
+    if (!frames) {
+      setThumbnails([]);
+      return;
+    }
+    setThumbnails(frames.map((frame) => createThumbnail(frame, gif.width, gif.height)));
+  }, [frames, gif.width, gif.height]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const frame = frames?.[selected];
+    if (!canvas || !frame) return;
+    canvas.width = gif.width;
+    canvas.height = gif.height;
+    canvas.getContext('2d')?.putImageData(new ImageData(frame.pixels, gif.width, gif.height), 0, 0);
+  }, [frames, selected, gif.width, gif.height]);
+
+  const info = gif.frames[selected];
+  const paletteSize = (info?.localPalette ?? gif.globalPalette)?.length ?? 0;
+
+  const summary = [
+    { label: 'Dimensions', value: `${gif.width} × ${gif.height}` },
+    { label: 'Frames', value: gif.frames.length.toString() },
+    { label: 'Duration', value: `${(stats.totalDuration / 1000).toFixed(2)}s` },
+    { label: 'Loop', value: formatLoopCount(gif.loopCount) },
+    { label: 'Global Palette', value: gif.globalPalette ? `${gif.globalPalette.length / 3} colors` : 'None' },
+    { label: 'Local Palettes', value: `${stats.localPalettes} of ${gif.frames.length}` },
+    { label: 'Avg. Frame Data', value: formatFileSize(fileSize / Math.max(1, gif.frames.length)) },
+    { label: 'Version', value: `GIF${gif.version}` }
+  ];
+
+  return (
+    <div className={cn("space-y-4 p-4 bg-gray-800/30 rounded-lg border border-gray-700/50", className)}>
+      <div className="flex items-center gap-2">
+        <Info className="h-4 w-4 text-blue-400" />
+        <h4 className="text-sm font-medium text-blue-400">GIF Inspector</h4>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {summary.map((item) => (
+          <div key={item.label} className="p-2 bg-gray-900/40 rounded border border-gray-700/50">
+            <div className="text-xs text-gray-400">{item.label}</div>
+            <div className="text-sm text-gray-200 font-medium">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-[2fr_1fr] gap-4">
+        <div className="flex items-center justify-center bg-black/40 rounded border border-gray-700/50 p-2 min-h-[120px]">
+          {frames ? (
+            <canvas ref={canvasRef} className="max-w-full max-h-64 h-auto [image-rendering:pixelated]" />
+          ) : (
+            <span className="text-xs text-gray-500">Decoding frames...</span>
+          )}
+        </div>
+        {info && (
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <dt className="text-gray-400">Frame</dt>
+            <dd className="text-gray-200">{selected + 1} / {gif.frames.length}</dd>
+            <dt className="text-gray-400">Delay</dt>
+            <dd className="text-gray-200">{info.delay} ms</dd>
+            <dt className="text-gray-400">Disposal</dt>
+            <dd className="text-gray-200">{DISPOSAL_LABELS[info.disposal]}</dd>
+            <dt className="text-gray-400">Rectangle</dt>
+            <dd className="text-gray-200">{info.width}×{info.height} @ {info.left},{info.top}</dd>
+            <dt className="text-gray-400">Palette</dt>
+            <dd className="text-gray-200">{paletteSize / 3} colors ({info.localPalette ? 'local' : 'global'})</dd>
+            <dt className="text-gray-400">Transparency</dt>
+            <dd className="text-gray-200">{info.transparentIndex === null ? 'None' : `Index ${info.transparentIndex}`}</dd>
+            <dt className="text-gray-400">Interlaced</dt>
+            <dd className="text-gray-200">{info.interlaced ? 'Yes' : 'No'}</dd>
+            <dt className="text-gray-400">Compressed</dt>
+            <dd className="text-gray-200">{formatFileSize(info.imageData.length)}</dd>
+          </dl>
+        )}
+      </div>
+
+      {gif.frames.length > 1 && (
+        <input
+          type="range"
+          min={0}
+          max={gif.frames.length - 1}
+          value={selected}
+          onChange={(e) => setSelected(parseInt(e.target.value))}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-400"
+        />
+      )}
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {gif.frames.map((frame, index) => (
+          <button
+            key={index}
+            onClick={() => setSelected(index)}
+            title={`Frame ${index + 1}: ${frame.delay} ms, ${formatFileSize(stats.frameBytes[index])}`}
+            className={cn(
+              "flex-shrink-0 w-16 p-1 rounded border transition-colors",
+              index === selected
+                ? "border-blue-400 bg-blue-400/10"
+                : "border-gray-700 hover:border-gray-500"
+            )}
+          >
+            <div className="h-12 flex items-center justify-center bg-black/40">
+              {thumbnails[index] && (
+                <img src={thumbnails[index]} alt={`Frame ${index + 1}`} className="max-h-12 max-w-full" />
+              )}
+            </div>
+            {/* Relative compressed size highlights the frames that dominate the file */}
+            <div className="h-1 mt-1 bg-gray-700 rounded">
+              <div
+                className="h-1 bg-yellow-400 rounded"
+                style={{ width: `${(stats.frameBytes[index] / Math.max(1, stats.largestFrame)) * 100}%` }}
+              />
+            </div>
+            <div className="text-[10px] text-gray-400 mt-1">{frame.delay}ms</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GifInspector;
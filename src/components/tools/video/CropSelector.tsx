@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent, type PointerEvent, type ReactNode } from 'react';
+import { Crop } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { CropRegion } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CropSelectorProps {
+  video: HTMLVideoElement | null; // Preview the crop rectangle is drawn over
+  crop: CropRegion | null;
+  onChange: (crop: CropRegion | null) => void;
+  children: ReactNode; // Must contain the video element
+  className?: string | undefined;
+}
+
+type CropAspect = 'free' | '1:1' | '16:9' | '9:16' | '4:5';
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface FrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const CROP_ASPECTS: { value: CropAspect; label: string; ratio?: number }[] = [
+  { value: 'free', label: 'Free' },
+  { value: '1:1', label: '1:1', ratio: 1 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+  { value: '9:16', label: '9:16', ratio: 9 / 16 },
+  { value: '4:5', label: '4:5', ratio: 4 / 5 },
+];
+
+const MIN_SIZE = 0.05; // Smallest crop side, as a fraction of the frame
+const KEYBOARD_STEP = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Largest centered rectangle with the given pixel aspect ratio
+const fitAspect = (ratio: number | undefined, videoWidth: number, videoHeight: number): CropRegion => {
+  if (!ratio) return { x: 0.1, y: 0.1, width: 0.8, height: 0.8 };
+  // The same ratio expressed in frame fractions
+  const relative = (ratio * videoHeight) / videoWidth;
+  const width = relative >= 1 ? 1 : relative;
+  const height = relative >= 1 ? 1 / relative : 1;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+const CropSelector = ({ video, crop, onChange, children, className }: CropSelectorProps) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; pointerX: number; pointerY: number; crop: CropRegion } | null>(null);
+  const [frame, setFrame] = useState<FrameRect | null>(null);
+  const [aspect, setAspect] = useState<CropAspect>('free');
+
+  const videoWidth = video?.videoWidth ?? 0;
+  const videoHeight = video?.videoHeight ?? 0;
+  const ratio = CROP_ASPECTS.find(option => option.value === aspect)?.ratio;
+
+  // Where the picture actually sits inside the wrapper, allowing for letterboxing
+  const measure = useCallback(() => {
+    const wrapper = wrapperRef.current;
+    if (!video || !wrapper || !video.videoWidth || !video.videoHeight) {
+      setFrame(null);
+      return;
+    }
+    const videoRect = video.getBoundingClientRect();
+    const wrapperRect = wrapper.getBoundingClientRect();
+    const scale = Math.min(videoRect.width / video.videoWidth, videoRect.height / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    setFrame({
+      left: videoRect.left - wrapperRect.left + (videoRect.width - width) / 2,
+      top: videoRect.top - wrapperRect.top + (videoRect.height - height) / 2,
+      width,
+      height,
+    });
+  }, [video]);
+
+  useEffect(() => {
+    if (!video) return;
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', measure);
+    window.addEventListener('resize', measure);
+
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [video, measure]);
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(enabled ? fitAspect(ratio, videoWidth, videoHeight) : null);
+  };
+
+  const handleAspectChange = (value: CropAspect) => {
+    setAspect(value);
+    const nextRatio = CROP_ASPECTS.find(option => option.value === value)?.ratio;
+    // Free keeps the current rectangle; a fixed ratio starts from the largest fit
+    if (crop && nextRatio) {
+      onChange(fitAspect(nextRatio, videoWidth, videoHeight));
+    }
+  };
+
+  const resize = (mode: Exclude<DragMode, 'move'>, start: CropRegion, dx: number, dy: number): CropRegion => {
+    const west = mode === 'nw' || mode === 'sw';
+    const north = mode === 'nw' || mode === 'ne';
+    // The opposite corner stays put
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    const maxWidth = west ? anchorX : 1 - anchorX;
+    const maxHeight = north ? anchorY : 1 - anchorY;
+
+    let width = clamp(start.width + (west ? -dx : dx), MIN_SIZE, maxWidth);
+    let height = clamp(start.height + (north ? -dy : dy), MIN_SIZE, maxHeight);
+    if (ratio) {
+      const relative = (ratio * videoHeight) / videoWidth;
+      width = Math.min(Math.max(width, height * relative), maxWidth, maxHeight * relative);
+      height = width / relative;
+    }
+
+    return {
+      x: west ? anchorX - width : anchorX,
+      y: north ? anchorY - height : anchorY,
+      width,
+      height,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!crop || event.button !== 0) return;
+    const mode = ((event.target as HTMLElement).dataset.crop ?? 'move') as DragMode;
+    dragRef.current = { mode, pointerX: event.clientX, pointerY: event.clientY, crop };
+    event.currentTarget.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !frame) return;
+    const dx = (event.clientX - drag.pointerX) / frame.width;
+    const dy = (event.clientY - drag.pointerY) / frame.height;
+
+    if (drag.mode === 'move') {
+      onChange({
+        ...drag.crop,
+        x: clamp(drag.crop.x + dx, 0, 1 - drag.crop.width),
+        y: clamp(drag.crop.y + dy, 0, 1 - drag.crop.height),
+      });
+    } else {
+      onChange(resize(drag.mode, drag.crop, dx, dy));
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  // Arrow keys move the focused rectangle
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (!crop) return;
+    const step = event.shiftKey ? KEYBOARD_STEP * 5 : KEYBOARD_STEP;
+    const dx = event.key === 'ArrowLeft' ? -step : event.key === 'ArrowRight' ? step : 0;
+    const dy = event.key === 'ArrowUp' ? -step : event.key === 'ArrowDown' ? step : 0;
+    if (!dx && !dy) return;
+    event.preventDefault();
+    onChange({
+      ...crop,
+      x: clamp(crop.x + dx, 0, 1 - crop.width),
+      y: clamp(crop.y + dy, 0, 1 - crop.height),
+    });
+  };
+
+  const percent = (value: number) => `${value * 100}%`;
+  const corners: Exclude<DragMode, 'move'>[] = ['nw', 'ne', 'sw', 'se'];
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div ref={wrapperRef} className="relative">
+        {children}
+
+        {crop && frame && (
+          <div
+            className="pointer-events-none absolute overflow-hidden"
+            style={{ left: frame.left, top: frame.top, width: frame.width, height: frame.height }}
+          >
+            <div
+              role="group"
+              tabIndex={0}
+              aria-label="Crop region, use arrow keys to move"
+              className="pointer-events-auto absolute cursor-move touch-none border-2 border-green-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+              style={{ left: percent(crop.x), top: percent(crop.y), width: percent(crop.width), height: percent(crop.height) }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              onKeyDown={handleKeyDown}
+            >
+              {corners.map((corner) => (
+                <div
+                  key={corner}
+                  data-crop={corner}
+                  className={cn(
+                    'absolute h-3 w-3 bg-green-400',
+                    corner[0] === 'n' ? '-top-1.5' : '-bottom-1.5',
+                    corner[1] === 'w' ? '-left-1.5' : '-right-1.5',
+                    corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-2">
+          <Switch id="crop-enabled" checked={crop !== null} onCheckedChange={handleToggle} disabled={!videoWidth} />
+          <Label htmlFor="crop-enabled" className="flex items-center gap-1.5 text-sm text-gray-300">
+            <Crop className="h-4 w-4" />
+            Crop
+          </Label>
+        </div>
+        {CROP_ASPECTS.map((option) => (
+          <Button
+            key={option.value}
+            variant={aspect === option.value ? 'default' : 'outline'}
+            size="sm"
+            disabled={!crop}
+            onClick={() => handleAspectChange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+        {crop && videoWidth > 0 && (
+          <span className="text-xs text-gray-400">
+            {Math.round(crop.width * videoWidth)} × {Math.round(crop.height * videoHeight)} px
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CropSelector;
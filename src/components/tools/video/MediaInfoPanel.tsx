@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { Info, Loader2 } from 'lucide-react';
+import { probeMedia, type MediaInfo, type MediaStreamInfo } from '@/utils/mediaProbe';
+import { isCancellationError } from '@/utils/cancellation';
+import { formatTimestamp } from '@/utils/formatters';
+import { cn } from '@/lib/utils';
+
+interface MediaInfoPanelProps {
+  file: File | null;
+  onProbe?: ((info: MediaInfo) => void) | undefined;
+  className?: string | undefined;
+}
+
+const formatBitrate = (kbps: number | undefined): string | null =>
+  kbps === undefined ? null : kbps >= 1000 ? `${(kbps / 1000).toFixed(2)} Mb/s` : `${Math.round(kbps)} kb/s`;
+
+const describeStream = (stream: MediaStreamInfo): string => {
+  const parts: (string | null | undefined)[] = [stream.profile ? `${stream.codec} (${stream.profile})` : stream.codec];
+
+  if (stream.type === 'video') {
+    parts.push(
+      `${stream.width}×${stream.height}`,
+      stream.fps ? `${Number(stream.fps.toFixed(3))} fps` : null,
+      stream.pixelFormat,
+      stream.rotation ? `rotated ${stream.rotation}°` : null
+    );
+  } else if (stream.type === 'audio') {
+    parts.push(
+      stream.sampleRate ? `${stream.sampleRate / 1000} kHz` : null,
+      stream.channelLayout && stream.channels ? `${stream.channelLayout} (${stream.channels} ch)` : stream.channelLayout
+    );
+  }
+
+  parts.push(formatBitrate(stream.bitrate), stream.language);
+  return parts.filter(Boolean).join(', ');
+};
+
+const MediaInfoPanel = ({ file, onProbe, className }: MediaInfoPanelProps) => {
+  const [info, setInfo] = useState<MediaInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
+  // Keep the latest callback without re-probing when the parent re-renders
+  const onProbeRef = useRef(onProbe);
+  onProbeRef.current = onProbe;
+
+  useEffect(() => {
+    setInfo(null);
+    setError(null);
+    if (!file) return;
+
+    const controller = new AbortController();
+    setIsProbing(true);
+    probeMedia(file, controller.signal)
+      .then((result) => {
+        setInfo(result);
+        onProbeRef.current?.(result);
+      })
+      .catch((probeError) => {
+        if (!isCancellationError(probeError)) {
+          setError(probeError instanceof Error ? probeError.message : 'Could not read media information');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsProbing(false);
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  if (!file) return null;
+
+  const rows: [string, string | null][] = info
+    ? [
+      ['Container', info.formatNames.join(', ')],
+      ['Duration', info.duration !== undefined ? formatTimestamp(info.duration) : null],
+      ['Bitrate', formatBitrate(info.bitrate)],
+      ...info.streams.map((stream): [string, string] => [
+        `${stream.type.charAt(0).toUpperCase()}${stream.type.slice(1)} #${stream.index}`,
+        describeStream(stream)
+      ])
+    ]
+    : [];
+
+  return (
+    <div className={cn('rounded-lg border border-gray-700/50 bg-gray-800/30 p-3 text-sm', className)}>
+      <div className="mb-2 flex items-center gap-2 font-medium text-gray-300">
+        <Info className="h-4 w-4" />
+        Media Info
+        {isProbing && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      {isProbing && <p className="text-xs text-gray-400">Reading file details...</p>}
+      {error && <p className="text-xs text-yellow-400">{error}</p>}
+
+      {info && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+          {rows.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400">{label}</dt>
+              <dd className="break-words text-gray-200">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default MediaInfoPanel;
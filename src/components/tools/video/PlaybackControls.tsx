@@ -0,0 +1,95 @@
+import { useEffect } from 'react';
+import { ArrowRight, Gauge, Repeat, Rewind, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  getTimedDuration,
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  type PlaybackDirection,
+  type PlaybackTiming
+} from '@/utils/playbackTiming';
+import { formatTimestamp } from '@/utils/formatters';
+import { cn } from '@/lib/utils';
+
+interface PlaybackControlsProps {
+  timing: PlaybackTiming;
+  onChange: (timing: PlaybackTiming) => void;
+  duration: number; // Length of the (trimmed) clip in seconds
+  video?: HTMLVideoElement | null | undefined; // Previews the speed while it plays
+  className?: string | undefined;
+}
+
+const DIRECTIONS: { value: PlaybackDirection; label: string; icon: LucideIcon }[] = [
+  { value: 'forward', label: 'Forward', icon: ArrowRight },
+  { value: 'reverse', label: 'Reverse', icon: Rewind },
+  { value: 'boomerang', label: 'Boomerang', icon: Repeat }
+];
+
+const LONG_REVERSE_SECONDS = 30; // Reversing holds every frame in memory
+
+const PlaybackControls = ({ timing, onChange, duration, video, className }: PlaybackControlsProps) => {
+  useEffect(() => {
+    if (!video) return;
+    video.playbackRate = timing.speed;
+    return () => {
+      video.playbackRate = 1;
+    };
+  }, [video, timing.speed]);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex items-center justify-between gap-2 text-sm text-gray-300">
+        <span className="flex items-center gap-1.5">
+          <Gauge className="h-4 w-4" />
+          Playback
+        </span>
+        {duration > 0 && (
+          <span className="text-gray-400">Output length: {formatTimestamp(getTimedDuration(duration, timing), 1)}</span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-white">Speed: {timing.speed}×</Label>
+          {timing.speed !== 1 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange({ ...timing, speed: 1 })}>
+              Reset
+            </Button>
+          )}
+        </div>
+        <Slider
+          value={[timing.speed]}
+          onValueChange={([value]) => onChange({ ...timing, speed: value })}
+          min={MIN_PLAYBACK_SPEED}
+          max={MAX_PLAYBACK_SPEED}
+          step={0.25}
+          className="w-full"
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {DIRECTIONS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant={timing.direction === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange({ ...timing, direction: value })}
+          >
+            <Icon className="h-4 w-4 mr-1" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {timing.direction !== 'forward' && duration > LONG_REVERSE_SECONDS && (
+        <p className="text-xs text-yellow-400">
+          Reversing a clip this long needs a lot of memory; trim it first if conversion fails.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlaybackControls;
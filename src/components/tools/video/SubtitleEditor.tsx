@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { Captions, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  drawSubtitles,
+  getActiveCues,
+  parseSubtitles,
+  type SubtitleCue,
+  type SubtitlePosition,
+  type SubtitleStyle
+} from '@/utils/subtitles';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface SubtitleEditorProps {
+  cues: SubtitleCue[];
+  style: SubtitleStyle;
+  onCuesChange: (cues: SubtitleCue[]) => void;
+  onStyleChange: (style: SubtitleStyle) => void;
+  video: HTMLVideoElement | null; // New captions start at its playhead, and the preview follows it
+  className?: string | undefined;
+}
+
+const DEFAULT_CUE_LENGTH = 2; // seconds
+const PREVIEW_TEXT = 'Subtitle preview';
+
+const sortCues = (cues: SubtitleCue[]) => [...cues].sort((a, b) => a.start - b.start);
+
+const SubtitleEditor = ({ cues, style, onCuesChange, onStyleChange, video, className }: SubtitleEditorProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    if (!video) return;
+    const sync = () => setCurrentTime(video.currentTime);
+    sync();
+    video.addEventListener('timeupdate', sync);
+    video.addEventListener('seeked', sync);
+    return () => {
+      video.removeEventListener('timeupdate', sync);
+      video.removeEventListener('seeked', sync);
+    };
+  }, [video]);
+
+  // Preview the caption under the playhead in the video's shape
+  const aspectRatio = video?.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : 16 / 9;
+  const activeCues = useMemo(() => getActiveCues(cues, currentTime), [cues, currentTime]);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.height = 180;
+    canvas.width = Math.round(canvas.height * aspectRatio);
+    ctx.fillStyle = '#374151';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const shown = activeCues.length > 0 ? activeCues : [{ start: 0, end: 0, text: PREVIEW_TEXT }];
+    drawSubtitles(ctx, shown, canvas.width, canvas.height, style);
+  }, [activeCues, style, aspectRatio]);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseSubtitles(await file.text());
+      onCuesChange(parsed);
+      toast.success(`Loaded ${parsed.length} subtitles`, { description: file.name });
+    } catch (error) {
+      toast.error('Could not load subtitles: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const addCue = () => {
+    const start = Math.round(currentTime * 10) / 10;
+    const end = video?.duration ? Math.min(start + DEFAULT_CUE_LENGTH, video.duration) : start + DEFAULT_CUE_LENGTH;
+    onCuesChange(sortCues([...cues, { start, end: Math.max(end, start + 0.1), text: '' }]));
+  };
+
+  // Rows keep their place while being edited; new captions are slotted in by start time
+  const updateCue = (index: number, changes: Partial<SubtitleCue>) => {
+    onCuesChange(cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)));
+  };
+
+  const handleTimeChange = (index: number, key: 'start' | 'end') => (event: ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    if (!isNaN(value) && value >= 0) {
+      updateCue(index, { [key]: value });
+    }
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="flex items-center gap-1.5 text-sm text-gray-300">
+          <Captions className="h-4 w-4" />
+          Subtitles
+        </span>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Load SRT/VTT
+          </Button>
+          <Button variant="outline" size="sm" onClick={addCue}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add at playhead
+          </Button>
+          {cues.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onCuesChange([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt,application/x-subrip"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {cues.length > 0 && (
+        <ol className="max-h-60 space-y-2 overflow-y-auto pr-1">
+          {cues.map((cue, index) => (
+            <li
+              key={index}
+              className={cn(
+                'grid grid-cols-[4.5rem_4.5rem_1fr_auto] items-center gap-2 rounded-md p-1',
+                activeCues.includes(cue) && 'bg-green-500/10'
+              )}
+            >
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                aria-label="Start (seconds)"
+                value={cue.start}
+                onChange={handleTimeChange(index, 'start')}
+                className="h-8 bg-gray-700 border-gray-600 text-white"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                aria-label="End (seconds)"
+                value={cue.end}
+                onChange={handleTimeChange(index, 'end')}
+                className="h-8 bg-gray-700 border-gray-600 text-white"
+              />
+              <Input
+                aria-label="Caption text"
+                value={cue.text}
+                placeholder="Caption text"
+                onChange={(event) => updateCue(index, { text: event.target.value })}
+                className="h-8 bg-gray-700 border-gray-600 text-white"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove caption"
+                onClick={() => onCuesChange(cues.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {cues.length > 0 && (
+        <>
+          <canvas ref={canvasRef} className="w-full max-w-sm mx-auto block rounded-md" />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-white">Font size: {style.fontSize}px</Label>
+              <Slider
+                value={[style.fontSize]}
+                onValueChange={([value]) => onStyleChange({ ...style, fontSize: value })}
+                min={16}
+                max={96}
+                step={2}
+                className="w-full"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">Outline: {style.outlineWidth}px</Label>
+              <Slider
+                value={[style.outlineWidth]}
+                onValueChange={([value]) => onStyleChange({ ...style, outlineWidth: value })}
+                min={0}
+                max={10}
+                step={1}
+                className="w-full"
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Label htmlFor="subtitle-color" className="text-white">Text</Label>
+              <input
+                id="subtitle-color"
+                type="color"
+                value={style.color}
+                onChange={(event) => onStyleChange({ ...style, color: event.target.value })}
+                className="h-8 w-12 cursor-pointer rounded border border-gray-600 bg-transparent"
+              />
+              <Label htmlFor="subtitle-outline-color" className="text-white">Outline</Label>
+              <input
+                id="subtitle-outline-color"
+                type="color"
+                value={style.outlineColor}
+                onChange={(event) => onStyleChange({ ...style, outlineColor: event.target.value })}
+                className="h-8 w-12 cursor-pointer rounded border border-gray-600 bg-transparent"
+              />
+            </div>
+            <Select
+              value={style.position}
+              onValueChange={(value) => onStyleChange({ ...style, position: value as SubtitlePosition })}
+            >
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-700 border-gray-600">
+                <SelectItem value="bottom">Bottom</SelectItem>
+                <SelectItem value="middle">Middle</SelectItem>
+                <SelectItem value="top">Top</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-gray-400">Sizes are for a 720p frame and scale with the output.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleEditor;
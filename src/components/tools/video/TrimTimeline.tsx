@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import { ChevronLeft, ChevronRight, Scissors } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { captureVideoFrames, getEvenlySpacedTimes } from '@/utils/videoFrames';
+import { isCancellationError } from '@/utils/cancellation';
+import { formatTimestamp } from '@/utils/formatters';
+import { cn } from '@/lib/utils';
+
+interface TrimTimelineProps {
+  file: File | Blob | null; // Source for the filmstrip
+  video: HTMLVideoElement | null; // Preview the playhead follows and seeks
+  duration: number;
+  start: number;
+  end: number;
+  onChange: (start: number, end: number) => void;
+  fps?: number | undefined; // Step size for frame-accurate trimming, defaults to 30
+  minLength?: number | undefined; // seconds, defaults to one frame
+  thumbnailCount?: number | undefined;
+  className?: string | undefined;
+}
+
+type DragTarget = 'start' | 'end' | 'playhead';
+
+const DEFAULT_FPS = 30;
+
+// Shortcuts only apply when the user isn't typing somewhere
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const TrimTimeline = ({
+  file,
+  video,
+  duration,
+  start,
+  end,
+  onChange,
+  fps,
+  minLength,
+  thumbnailCount = 10,
+  className,
+}: TrimTimelineProps) => {
+  const dragRef = useRef<DragTarget | null>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const frameDuration = 1 / (fps && fps > 0 ? fps : DEFAULT_FPS);
+  const minimum = Math.max(minLength ?? 0, frameDuration);
+
+  // Round to the nearest frame so in/out points land exactly on frame boundaries
+  const snap = useCallback((time: number) =>
+    Math.min(Math.max(Math.round(time / frameDuration) * frameDuration, 0), duration),
+  [frameDuration, duration]);
+
+  const seek = useCallback((time: number) => {
+    setCurrentTime(time);
+    if (video) video.currentTime = time;
+  }, [video]);
+
+  const setStart = useCallback((time: number) => {
+    const next = Math.max(0, Math.min(snap(time), end - minimum));
+    onChange(next, end);
+    seek(next);
+  }, [snap, end, minimum, onChange, seek]);
+
+  const setEnd = useCallback((time: number) => {
+    const next = Math.min(duration, Math.max(snap(time), start + minimum));
+    onChange(start, next);
+    seek(next);
+  }, [snap, start, minimum, duration, onChange, seek]);
+
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    video?.pause();
+    seek(snap(currentTime + direction * frameDuration));
+  }, [video, seek, snap, currentTime, frameDuration]);
+
+  // Filmstrip thumbnails fill in one by one as they are captured
+  useEffect(() => {
+    setThumbnails([]);
+    if (!file || duration <= 0) return;
+
+    const controller = new AbortController();
+    captureVideoFrames(file, getEvenlySpacedTimes(duration, thumbnailCount), {
+      maxDimension: 120,
+      signal: controller.signal,
+      onFrame: (frame, index) => {
+        const url = frame.canvas.toDataURL('image/jpeg', 0.7);
+        setThumbnails(prev => {
+          const next = [...prev];
+          next[index] = url;
+          return next;
+        });
+      }
+    }).catch((error) => {
+      if (!isCancellationError(error)) {
+        console.warn('Could not build filmstrip:', error);
+      }
+    });
+
+    return () => controller.abort();
+  }, [file, duration, thumbnailCount]);
+
+  // Follow the preview's position; while playing, update every frame and stop at the out point
+  const endRef = useRef(end);
+  endRef.current = end;
+  useEffect(() => {
+    if (!video) return;
+
+    let animationFrame = 0;
+    const sync = () => setCurrentTime(video.currentTime);
+    const loop = () => {
+      sync();
+      if (!video.paused && video.currentTime >= endRef.current) {
+        video.pause();
+      }
+      if (!video.paused && !video.ended) {
+        animationFrame = requestAnimationFrame(loop);
+      }
+    };
+    const handlePlay = () => {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    sync();
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('seeked', sync);
+    video.addEventListener('timeupdate', sync);
+    if (!video.paused) handlePlay();
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('seeked', sync);
+      video.removeEventListener('timeupdate', sync);
+    };
+  }, [video]);
+
+  // I/O set the in and out points at the playhead, comma and period step one frame
+  useEffect(() => {
+    if (duration <= 0) return;
+
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'i') setStart(currentTime);
+      else if (key === 'o') setEnd(currentTime);
+      else if (key === ',') stepFrame(-1);
+      else if (key === '.') stepFrame(1);
+      else return;
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [duration, currentTime, setStart, setEnd, stepFrame]);
+
+  const timeFromPointer = (event: PointerEvent<HTMLDivElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return ((event.clientX - rect.left) / rect.width) * duration;
+  };
+
+  const applyDrag = (target: DragTarget, time: number) => {
+    if (target === 'start') setStart(time);
+    else if (target === 'end') setEnd(time);
+    else seek(snap(time));
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0 || event.button !== 0) return;
+    const handle = (event.target as HTMLElement).dataset.handle as DragTarget | undefined;
+    dragRef.current = handle ?? 'playhead';
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (!handle) applyDrag('playhead', timeFromPointer(event));
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) applyDrag(dragRef.current, timeFromPointer(event));
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  // Arrow keys nudge a focused handle by one frame, or one second with Shift
+  const handleHandleKeyDown = (target: 'start' | 'end') => (event: KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 1 : frameDuration;
+    const value = target === 'start' ? start : end;
+    const next = event.key === 'ArrowLeft' ? value - step
+      : event.key === 'ArrowRight' ? value + step
+      : event.key === 'Home' ? 0
+      : event.key === 'End' ? duration
+      : null;
+    if (next === null) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (target === 'start') setStart(next);
+    else setEnd(next);
+  };
+
+  const percent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+  const canSetStart = currentTime < end - minimum;
+  const canSetEnd = currentTime > start + minimum;
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between text-sm text-gray-300">
+        <span className="flex items-center gap-1.5">
+          <Scissors className="h-4 w-4" />
+          Trim
+        </span>
+        <span className="text-xs text-gray-400">
+          {formatTimestamp(start, 2)} – {formatTimestamp(end, 2)} ({(end - start).toFixed(2)}s of {duration.toFixed(2)}s)
+        </span>
+      </div>
+
+      <div
+        className="relative h-14 cursor-pointer touch-none select-none overflow-hidden rounded-md bg-gray-900"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="pointer-events-none absolute inset-0 flex">
+          {Array.from({ length: thumbnailCount }, (_, index) => (
+            thumbnails[index]
+              ? <img key={index} src={thumbnails[index]} alt="" className="h-full min-w-0 flex-1 object-cover" draggable={false} />
+              : <div key={index} className="h-full min-w-0 flex-1 animate-pulse border-r border-gray-800 bg-gray-800/60" />
+          ))}
+        </div>
+
+        <div className="pointer-events-none absolute inset-y-0 left-0 bg-black/60" style={{ width: percent(start) }} />
+        <div className="pointer-events-none absolute inset-y-0 right-0 bg-black/60" style={{ left: percent(end) }} />
+        <div
+          className="pointer-events-none absolute inset-y-0 border-y-2 border-green-400"
+          style={{ left: percent(start), width: percent(end - start) }}
+        />
+
+        {/* Handles extend inward from the in and out points so the clipped track never hides them */}
+        <div
+          data-handle="start"
+          role="slider"
+          tabIndex={0}
+          aria-label="Trim start"
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={start}
+          aria-valuetext={formatTimestamp(start, 2)}
+          onKeyDown={handleHandleKeyDown('start')}
+          className="absolute inset-y-0 w-3 cursor-ew-resize rounded-l bg-green-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+          style={{ left: percent(start) }}
+        />
+        <div
+          data-handle="end"
+          role="slider"
+          tabIndex={0}
+          aria-label="Trim end"
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={end}
+          aria-valuetext={formatTimestamp(end, 2)}
+          onKeyDown={handleHandleKeyDown('end')}
+          className="absolute inset-y-0 -ml-3 w-3 cursor-ew-resize rounded-r bg-green-400 focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+          style={{ left: percent(end) }}
+        />
+
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow"
+          style={{ left: percent(Math.min(currentTime, duration)) }}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" disabled={!canSetStart} onClick={() => setStart(currentTime)}>
+          Set in (I)
+        </Button>
+        <Button variant="outline" size="sm" disabled={!canSetEnd} onClick={() => setEnd(currentTime)}>
+          Set out (O)
+        </Button>
+        <Button variant="ghost" size="sm" aria-label="Previous frame" onClick={() => stepFrame(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-xs tabular-nums text-gray-400">{formatTimestamp(currentTime, 2)}</span>
+        <Button variant="ghost" size="sm" aria-label="Next frame" onClick={() => stepFrame(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={start === 0 && end === duration}
+          onClick={() => onChange(0, duration)}
+        >
+          Reset
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        I / O set the in and out points at the playhead, comma and period step one frame, arrow keys nudge a focused handle.
+      </p>
+    </div>
+  );
+};
+
+export default TrimTimeline;
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { VideoEditOptions } from '@/utils/videoProcessor';
+import { cn } from '@/lib/utils';
+
+interface VideoEditPreviewProps {
+  video: HTMLVideoElement | null;
+  options: VideoEditOptions;
+  maxDimension?: number | undefined;
+  className?: string | undefined;
+}
+
+type VideoFilters = NonNullable<VideoEditOptions['filters']>;
+
+// Mirror FFmpeg's eq filters: brightness shifts luma, contrast scales luma around
+// mid-grey and saturation scales chroma, applied in that order
+const applyColorFilters = (data: Uint8ClampedArray, filters: VideoFilters) => {
+  const brightness = (filters.brightness ?? 0) / 100;
+  const contrast = 1 + (filters.contrast ?? 0) / 100;
+  const saturation = 1 + (filters.saturation ?? 0) / 100;
+  if (brightness === 0 && contrast === 1 && saturation === 1) return;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i] / 255;
+    const g = data[i + 1] / 255;
+    const b = data[i + 2] / 255;
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    const adjusted = (luma + brightness - 0.5) * contrast + 0.5;
+    data[i] = (adjusted + (r - luma) * saturation) * 255;
+    data[i + 1] = (adjusted + (g - luma) * saturation) * 255;
+    data[i + 2] = (adjusted + (b - luma) * saturation) * 255;
+  }
+};
+
+// Copy a canvas through a CSS blur filter
+const blurCanvas = (canvas: HTMLCanvasElement, sigma: number): HTMLCanvasElement => {
+  const blurred = document.createElement('canvas');
+  blurred.width = canvas.width;
+  blurred.height = canvas.height;
+  const ctx = blurred.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.filter = `blur(${sigma}px)`;
+  ctx.drawImage(canvas, 0, 0);
+  return blurred;
+};
+
+// Output size after resize and rotation, in the order editVideo applies them
+const getOutputSize = (video: HTMLVideoElement, options: VideoEditOptions) => {
+  const width = options.resize?.width ?? video.videoWidth;
+  const height = options.resize?.height ?? video.videoHeight;
+  const swap = options.rotate === 90 || options.rotate === 270;
+  return { width, height, outputWidth: swap ? height : width, outputHeight: swap ? width : height };
+};
+
+const VideoEditPreview = ({ video, options, maxDimension = 480, className }: VideoEditPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!video || !canvas || video.readyState < 2 || !video.videoWidth) return;
+
+    const { width, height, outputWidth, outputHeight } = getOutputSize(video, options);
+    const scale = Math.min(1, maxDimension / Math.max(outputWidth, outputHeight));
+    canvas.width = Math.max(1, Math.round(outputWidth * scale));
+    canvas.height = Math.max(1, Math.round(outputHeight * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    // Rotation is applied before flipping, as in the FFmpeg filter chain
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(options.flip === 'horizontal' ? -1 : 1, options.flip === 'vertical' ? -1 : 1);
+    ctx.rotate(((options.rotate ?? 0) * Math.PI) / 180);
+    ctx.drawImage(video, (-width * scale) / 2, (-height * scale) / 2, width * scale, height * scale);
+    ctx.restore();
+
+    const filters = options.filters;
+    if (!filters) return;
+
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyColorFilters(frame.data, filters);
+    ctx.putImageData(frame, 0, 0);
+
+    // boxblur runs twice by default, which is roughly a Gaussian of this sigma
+    const blur = filters.blur ?? 0;
+    if (blur > 0) {
+      const blurred = blurCanvas(canvas, Math.sqrt((2 * blur * (blur + 1)) / 3) * scale);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(blurred, 0, 0);
+    }
+
+    // Unsharp mask: push each pixel away from a 5x5 blurred copy of itself
+    const amount = (filters.sharpen ?? 0) / 10;
+    if (amount > 0) {
+      const blurredCanvas = blurCanvas(canvas, Math.max(0.5, 1.41 * scale));
+      const blurred = blurredCanvas.getContext('2d')?.getImageData(0, 0, canvas.width, canvas.height);
+      if (!blurred) return;
+      const sharpened = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      for (let i = 0; i < sharpened.data.length; i++) {
+        if ((i & 3) === 3) continue;
+        sharpened.data[i] = sharpened.data[i] + amount * (sharpened.data[i] - blurred.data[i]);
+      }
+      ctx.putImageData(sharpened, 0, 0);
+    }
+  }, [video, options, maxDimension]);
+
+  // Redraw when the frame changes; while playing, redraw on every animation frame
+  useEffect(() => {
+    if (!video) return;
+
+    let animationFrame = 0;
+    const loop = () => {
+      render();
+      if (!video.paused && !video.ended) {
+        animationFrame = requestAnimationFrame(loop);
+      }
+    };
+    const handlePlay = () => {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    render();
+    video.addEventListener('loadeddata', render);
+    video.addEventListener('seeked', render);
+    video.addEventListener('play', handlePlay);
+    if (!video.paused) handlePlay();
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      video.removeEventListener('loadeddata', render);
+      video.removeEventListener('seeked', render);
+      video.removeEventListener('play', handlePlay);
+    };
+  }, [video, render]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn('w-full rounded-lg bg-black object-contain', className)}
+      style={{ maxHeight: '300px' }}
+    />
+  );
+};
+
+export default VideoEditPreview;
@@ -1,4 +1,4 @@
-import { FileVideo, FileImage, FileText, Music, Type, Code, Scissors } from 'lucide-react';
+import { FileVideo, FileImage, FileText, FileAudio, Music, Type, Code, Scissors, Clapperboard, Combine, LayoutGrid } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 
 export interface ToolConfig {
@@ -72,6 +72,38 @@ export const TOOLS: ToolConfig[] = [
     category: 'video',
     featured: true,
   },
+  {
+    title: 'GIF to Video',
+    description: 'Convert animated GIFs to MP4 or WebM',
+    tooltip: 'Convert animated GIFs to much smaller MP4 or WebM videos with preserved frame timing and optional looping',
+    icon: FileVideo,
+    path: '/tools/gif-to-video',
+    category: 'video',
+  },
+  {
+    title: 'Video Editor',
+    description: 'Trim, rotate and color-correct videos',
+    tooltip: 'Trim, resize, rotate and flip videos and adjust brightness, contrast, saturation, blur and sharpness with a live preview',
+    icon: Clapperboard,
+    path: '/tools/video-editor',
+    category: 'video',
+  },
+  {
+    title: 'Merge Videos',
+    description: 'Join several clips into one video',
+    tooltip: 'Join clips into one MP4 or WebM in any order, with optional crossfades; clips with different sizes or frame rates are matched automatically',
+    icon: Combine,
+    path: '/tools/merge-videos',
+    category: 'video',
+  },
+  {
+    title: 'Video Thumbnails',
+    description: 'Grab stills and contact sheets from a video',
+    tooltip: 'Capture frames evenly, at a fixed interval or at scene changes, and download them as a ZIP of images or one contact sheet with timestamps',
+    icon: LayoutGrid,
+    path: '/tools/video-thumbnails',
+    category: 'video',
+  },
   {
     title: 'Convert Case Tool',
     description: 'Transform text between different cases',
@@ -99,6 +131,22 @@ export const TOOLS: ToolConfig[] = [
     category: 'document',
     featured: true,
   },
+  {
+    title: 'Audio Converter',
+    description: 'Convert audio files between formats',
+    tooltip: 'Convert audio between MP3, WAV, FLAC, AAC, OGG and Opus with bitrate, sample rate, channel and tag options',
+    icon: Music,
+    path: '/tools/audio-converter',
+    category: 'audio',
+  },
+  {
+    title: 'Extract Audio',
+    description: 'Pull the audio track out of a video',
+    tooltip: 'Extract the audio from a video as MP3, AAC, WAV or Opus, or copy it without re-encoding, with optional trimming',
+    icon: FileAudio,
+    path: '/tools/extract-audio',
+    category: 'audio',
+  },
 
   // Coming Soon Tools
   {
@@ -109,14 +157,6 @@ export const TOOLS: ToolConfig[] = [
     category: 'document',
     comingSoon: true,
   },
-  {
-    title: 'Audio Converter',
-    description: 'Convert audio files between formats',
-    tooltip: 'Convert audio files between different formats (MP3, WAV, FLAC, AAC) with quality options',
-    icon: Music,
-    category: 'audio',
-    comingSoon: true,
-  },
 ];
 
 // Pre-computed cached results (computed once at module load)
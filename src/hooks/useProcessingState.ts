@@ -1,9 +1,10 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { isCancellationError } from '@/utils/cancellation';
 
 /**
  * Processing state enum
  */
-export type ProcessingState = 'idle' | 'processing' | 'completed' | 'error';
+export type ProcessingState = 'idle' | 'processing' | 'completed' | 'error' | 'cancelled';
 
 /**
  * Options for the processing state hook
@@ -11,12 +12,14 @@ export type ProcessingState = 'idle' | 'processing' | 'completed' | 'error';
 export interface ProcessingStateOptions {
     onComplete?: () => void;
     onError?: (error: Error) => void;
+    onCancel?: () => void;
     resetDelay?: number;
 }
 
 /**
  * Hook for managing processing state in tool pages
- * Provides standardized state management for file processing operations
+ * Provides standardized state management for file processing operations.
+ * Each run gets its own AbortSignal; cancelProcessing aborts it and moves to 'cancelled'.
  * 
  * @param options - Configuration options
  * @returns Object with state, progress, and control functions
@@ -25,11 +28,19 @@ export const useProcessingState = (options: ProcessingStateOptions = {}) => {
     const [state, setState] = useState<ProcessingState>('idle');
     const [progress, setProgress] = useState(0);
     const [isProcessing, setIsProcessing] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
-    const startProcessing = useCallback(() => {
+    // Abort any job still running when the tool page unmounts
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const startProcessing = useCallback((): AbortSignal => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setState('processing');
         setProgress(0);
         setIsProcessing(true);
+        return controller.signal;
     }, []);
 
     const updateProgress = useCallback((value: number) => {
@@ -37,6 +48,7 @@ export const useProcessingState = (options: ProcessingStateOptions = {}) => {
     }, []);
 
     const completeProcessing = useCallback(() => {
+        abortControllerRef.current = null;
         setState('completed');
         setProgress(100);
         setIsProcessing(false);
@@ -44,6 +56,13 @@ export const useProcessingState = (options: ProcessingStateOptions = {}) => {
     }, [options]);
 
     const errorProcessing = useCallback((error?: Error) => {
+        abortControllerRef.current = null;
+        // The processor rejects with a cancellation error after cancelProcessing; that isn't a failure
+        if (isCancellationError(error)) {
+            setState('cancelled');
+            setIsProcessing(false);
+            return;
+        }
         setState('error');
         setIsProcessing(false);
         options.onError?.(error || new Error('Processing failed'));
@@ -54,7 +73,24 @@ export const useProcessingState = (options: ProcessingStateOptions = {}) => {
         }
     }, [options]);
 
+    const cancelProcessing = useCallback(() => {
+        const controller = abortControllerRef.current;
+        if (!controller) return;
+        abortControllerRef.current = null;
+        controller.abort();
+        setState('cancelled');
+        setProgress(0);
+        setIsProcessing(false);
+        options.onCancel?.();
+
+        if (options.resetDelay) {
+            setTimeout(() => setState('idle'), options.resetDelay);
+        }
+    }, [options]);
+
     const resetProcessing = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
         setState('idle');
         setProgress(0);
         setIsProcessing(false);
@@ -64,10 +100,12 @@ export const useProcessingState = (options: ProcessingStateOptions = {}) => {
         state,
         progress,
         isProcessing,
+        isCancelled: state === 'cancelled',
         startProcessing,
         updateProgress,
         completeProcessing,
         errorProcessing,
+        cancelProcessing,
         resetProcessing
     };
 };
@@ -0,0 +1,450 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Download, Settings2, Music, Tags, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { validateAudioFile } from '@/utils/fileValidation';
+import {
+  analyzeAudio,
+  convertAudio,
+  getAudioMetadata,
+  AUDIO_FORMATS,
+  type AudioAnalysis,
+  type AudioConvertOptions,
+  type AudioFormat,
+  type AudioMetadata
+} from '@/utils/audioProcessor';
+import { useProcessingState, useToolFile } from '@/hooks';
+import { formatFileSizeMB, formatTimestamp } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import WaveformPreview from '@/components/tools/audio/WaveformPreview';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+const BITRATES = [64, 96, 128, 160, 192, 256, 320];
+
+const TAG_FIELDS: { key: keyof AudioMetadata; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'artist', label: 'Artist' },
+  { key: 'album', label: 'Album' },
+  { key: 'date', label: 'Year' },
+  { key: 'genre', label: 'Genre' },
+  { key: 'track', label: 'Track' },
+  { key: 'comment', label: 'Comment' }
+];
+
+// Tags the user changed from the source; untouched ones are copied by FFmpeg as they are
+const getChangedTags = (tags: AudioMetadata, sourceTags: AudioMetadata): AudioMetadata => {
+  const changed: AudioMetadata = {};
+  for (const { key } of TAG_FIELDS) {
+    if ((tags[key] ?? '') !== (sourceTags[key] ?? '')) {
+      changed[key] = tags[key] ?? '';
+    }
+  }
+  return changed;
+};
+
+const AudioConverter = () => {
+  const [options, setOptions] = useState<AudioConvertOptions>({
+    format: 'mp3',
+    bitrateMode: 'cbr',
+    bitrate: AUDIO_FORMATS.mp3.defaultBitrate,
+    vbrQuality: 70
+  });
+  const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [sourceTags, setSourceTags] = useState<AudioMetadata>({});
+  const [tags, setTags] = useState<AudioMetadata>({});
+  const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [convertedAudio, setConvertedAudio] = useState<Blob | null>(null);
+  const [convertedUrl, setConvertedUrl] = useState<string>('');
+  const [convertedFormat, setConvertedFormat] = useState<AudioFormat>('mp3');
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const {
+    file: audioFile,
+    fileUrl: audioUrl,
+    handleFileSelect
+  } = useToolFile({
+    validateFunction: validateAudioFile,
+    onFileLoad: () => {
+      setConvertedAudio(null);
+      setConvertedUrl('');
+    },
+    onFileError: (error) => {
+      toast.error('File validation error: ' + error.message);
+    }
+  });
+
+  // Probe and decode the waveform whenever a new file is loaded
+  useEffect(() => {
+    setAnalysis(null);
+    setSourceTags({});
+    setTags({});
+    if (!audioFile) return;
+
+    const controller = new AbortController();
+    setIsAnalyzing(true);
+    analyzeAudio(audioFile, 600, controller.signal)
+      .then((result) => {
+        const existingTags = getAudioMetadata(result.info);
+        setAnalysis(result);
+        setSourceTags(existingTags);
+        setTags(existingTags);
+      })
+      .catch((error) => {
+        if (!isCancellationError(error)) {
+          toast.error(error instanceof Error ? error.message : 'Could not read audio file');
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsAnalyzing(false);
+      });
+
+    return () => controller.abort();
+  }, [audioFile]);
+
+  const format = AUDIO_FORMATS[options.format];
+  const sourceAudio = analysis?.info.audio;
+
+  const handleFormatChange = useCallback((value: AudioFormat) => {
+    setOptions(prev => ({
+      ...prev,
+      format: value,
+      bitrate: AUDIO_FORMATS[value].defaultBitrate || prev.bitrate,
+      // Drop a sample rate the new encoder can't use
+      ...(prev.sampleRate && !AUDIO_FORMATS[value].sampleRates.includes(prev.sampleRate) && { sampleRate: undefined })
+    }));
+  }, []);
+
+  const handleConvert = useCallback(async () => {
+    if (!audioFile) return;
+
+    const signal = startProcessing();
+
+    try {
+      const result = await convertAudio(
+        audioFile,
+        { ...options, metadata: getChangedTags(tags, sourceTags) },
+        (progressData) => updateProgress(progressData.progress),
+        signal
+      );
+
+      setConvertedAudio(result);
+      setConvertedFormat(options.format);
+      if (convertedUrl) {
+        URL.revokeObjectURL(convertedUrl);
+      }
+      setConvertedUrl(URL.createObjectURL(result));
+      completeProcessing();
+      toast.success(`Converted to ${AUDIO_FORMATS[options.format].label}!`);
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Conversion cancelled');
+        return;
+      }
+      toast.error('Audio conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [audioFile, options, tags, sourceTags, convertedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  const handleDownload = useCallback(() => {
+    if (!convertedAudio) return;
+
+    downloadBlobWithGeneratedName(
+      convertedAudio,
+      'converted',
+      audioFile?.name,
+      AUDIO_FORMATS[convertedFormat].extension,
+      { showToast: true }
+    );
+  }, [convertedAudio, audioFile?.name, convertedFormat]);
+
+  // Cleanup URLs on unmount
+  useEffect(() => {
+    return () => {
+      if (convertedUrl) {
+        URL.revokeObjectURL(convertedUrl);
+      }
+    };
+  }, [convertedUrl]);
+
+  return (
+    <ToolPageLayout
+      title="Audio Converter"
+      description="Convert audio between MP3, WAV, FLAC, AAC, OGG and Opus. Choose bitrate or VBR quality, resample, mix down to mono or stereo and edit tags. All processing happens in your browser."
+      keywords="audio converter, mp3 converter, wav to mp3, flac converter, opus, ogg, id3 tag editor"
+      canonicalUrl="https://slixtools.io/tools/audio-converter"
+      pageTitle="Audio Converter - sLixTOOLS"
+      pageDescription="Convert audio files between MP3, WAV, FLAC, AAC, OGG and Opus with bitrate, sample rate, channel and tag options."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Upload Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Music className="h-5 w-5" />
+              Upload Audio
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['audio/*']}
+              fileCategory="audio"
+              title="Upload Audio"
+              description="Supports MP3, WAV, FLAC, AAC/M4A, OGG, Opus and more"
+            />
+
+            {audioFile && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-300">
+                  <strong>File:</strong> {audioFile.name}
+                </p>
+                <p className="text-sm text-gray-300">
+                  <strong>Size:</strong> {formatFileSizeMB(audioFile.size)}
+                </p>
+                {sourceAudio && (
+                  <p className="text-sm text-gray-300">
+                    <strong>Audio:</strong> {sourceAudio.codec}
+                    {sourceAudio.sampleRate ? `, ${sourceAudio.sampleRate / 1000} kHz` : ''}
+                    {sourceAudio.channelLayout ? `, ${sourceAudio.channelLayout}` : ''}
+                    {analysis?.info.bitrate ? `, ${Math.round(analysis.info.bitrate)} kb/s` : ''}
+                    {analysis ? `, ${formatTimestamp(analysis.waveform.duration)}` : ''}
+                  </p>
+                )}
+
+                {isAnalyzing && (
+                  <p className="flex items-center gap-2 text-xs text-gray-400">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Drawing waveform...
+                  </p>
+                )}
+                {analysis && <WaveformPreview waveform={analysis.waveform} audio={audioElement} className="mt-2" />}
+                {audioUrl && <audio ref={setAudioElement} src={audioUrl} controls className="w-full mt-2" />}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Conversion Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Conversion Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Output Format</Label>
+              <Select value={options.format} onValueChange={(value) => handleFormatChange(value as AudioFormat)}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map((key) => (
+                    <SelectItem key={key} value={key}>{AUDIO_FORMATS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {format.lossless ? (
+              <p className="text-xs text-gray-400">{format.label} is lossless, so there is no bitrate to choose</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-white">Rate Control</Label>
+                  <div className="flex gap-1">
+                    {(['cbr', 'vbr'] as const).map((mode) => (
+                      <Button
+                        key={mode}
+                        variant={options.bitrateMode === mode ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setOptions(prev => ({ ...prev, bitrateMode: mode }))}
+                      >
+                        {mode.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {options.bitrateMode === 'vbr' && options.format !== 'opus' ? (
+                  <>
+                    <Label className="text-white">Quality: {options.vbrQuality}</Label>
+                    <Slider
+                      value={[options.vbrQuality ?? 70]}
+                      onValueChange={([value]) => setOptions(prev => ({ ...prev, vbrQuality: value }))}
+                      min={0}
+                      max={100}
+                      step={5}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-400">Bitrate varies with the audio; higher values = better quality, larger file size</p>
+                  </>
+                ) : (
+                  <Select
+                    value={String(options.bitrate ?? format.defaultBitrate)}
+                    onValueChange={(value) => setOptions(prev => ({ ...prev, bitrate: Number(value) }))}
+                  >
+                    <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-700 border-gray-600">
+                      {BITRATES.map((bitrate) => (
+                        <SelectItem key={bitrate} value={String(bitrate)}>
+                          {bitrate} kb/s{options.bitrateMode === 'vbr' ? ' (average)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white">Sample Rate</Label>
+                <Select
+                  value={options.sampleRate ? String(options.sampleRate) : 'source'}
+                  onValueChange={(value) => setOptions(prev => ({ ...prev, sampleRate: value === 'source' ? undefined : Number(value) }))}
+                >
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="source">
+                      Source{sourceAudio?.sampleRate ? ` (${sourceAudio.sampleRate / 1000} kHz)` : ''}
+                    </SelectItem>
+                    {format.sampleRates.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>{rate / 1000} kHz</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Channels</Label>
+                <Select
+                  value={options.channels ? String(options.channels) : 'source'}
+                  onValueChange={(value) => setOptions(prev => ({ ...prev, channels: value === 'source' ? undefined : Number(value) as 1 | 2 }))}
+                >
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="source">
+                      Source{sourceAudio?.channelLayout ? ` (${sourceAudio.channelLayout})` : ''}
+                    </SelectItem>
+                    <SelectItem value="2">Stereo</SelectItem>
+                    <SelectItem value="1">Mono (mix down)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {options.format === 'opus' && (
+              <p className="text-xs text-gray-400">Opus only supports 8–48 kHz; other rates are resampled to the closest one</p>
+            )}
+
+            <ToolActionButton
+              icon={Music}
+              onClick={handleConvert}
+              disabled={!audioFile || isAnalyzing}
+              isLoading={isProcessing}
+              loadingText="Converting..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Convert to {format.label}
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tag Editor */}
+      {audioFile && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Tags className="h-5 w-5" />
+              Tags
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid sm:grid-cols-2 gap-3">
+              {TAG_FIELDS.map(({ key, label }) => (
+                <div key={key} className={`space-y-1 ${key === 'comment' ? 'sm:col-span-2' : ''}`}>
+                  <Label htmlFor={`tag-${key}`} className="text-white">{label}</Label>
+                  <Input
+                    id={`tag-${key}`}
+                    value={tags[key] ?? ''}
+                    onChange={(e) => setTags(prev => ({ ...prev, [key]: e.target.value }))}
+                    className="bg-gray-700 border-gray-600 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              Written as ID3 tags for MP3, iTunes tags for AAC and Vorbis comments for FLAC, OGG and Opus. Clear a field to remove the tag.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Result Section */}
+      {convertedAudio && audioFile && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Download className="h-5 w-5" />
+              Converted Audio
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-300 mb-2">
+                  <strong>Original:</strong> {formatFileSizeMB(audioFile.size)}
+                </p>
+                <p className="text-sm text-gray-300">
+                  <strong>{AUDIO_FORMATS[convertedFormat].label}:</strong> {formatFileSizeMB(convertedAudio.size)}
+                </p>
+              </div>
+              <div className="flex justify-end">
+                <ToolActionButton icon={Download} onClick={handleDownload} variant="secondary">
+                  Download
+                </ToolActionButton>
+              </div>
+            </div>
+
+            {convertedUrl && <audio src={convertedUrl} controls className="w-full" />}
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default AudioConverter;
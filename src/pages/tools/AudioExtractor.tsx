@@ -0,0 +1,301 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Download, Settings2, FileVideo, FileAudio } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { validateVideoFile } from '@/utils/fileValidation';
+import { convertAudio, getCopyFormat, AUDIO_FORMATS, type AudioFormat } from '@/utils/audioProcessor';
+import type { MediaInfo } from '@/utils/mediaProbe';
+import { useProcessingState, useToolFile } from '@/hooks';
+import { formatFileSizeMB } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import MediaInfoPanel from '@/components/tools/video/MediaInfoPanel';
+import TrimTimeline from '@/components/tools/video/TrimTimeline';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+// 'original' copies the audio track without re-encoding
+type ExtractFormat = 'original' | 'mp3' | 'aac' | 'wav' | 'opus';
+
+const EXTRACT_FORMATS: AudioFormat[] = ['mp3', 'aac', 'wav', 'opus'];
+const BITRATES = [64, 96, 128, 160, 192, 256, 320];
+
+const AudioExtractor = () => {
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [trim, setTrim] = useState({ start: 0, end: 0 });
+  const [format, setFormat] = useState<ExtractFormat>('original');
+  const [bitrate, setBitrate] = useState(192);
+  const [extractedAudio, setExtractedAudio] = useState<Blob | null>(null);
+  const [extractedUrl, setExtractedUrl] = useState<string>('');
+  const [extractedFormat, setExtractedFormat] = useState<AudioFormat>('mp3');
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const {
+    file: videoFile,
+    fileUrl: videoUrl,
+    handleFileSelect
+  } = useToolFile({
+    validateFunction: validateVideoFile,
+    onFileLoad: () => {
+      setExtractedAudio(null);
+      setExtractedUrl('');
+      setMediaInfo(null);
+      setDuration(0);
+      setFormat('original');
+    },
+    onFileError: (error) => {
+      toast.error('File validation error: ' + error.message);
+    }
+  });
+
+  const sourceAudio = mediaInfo?.audio;
+  const copyFormat = sourceAudio ? getCopyFormat(sourceAudio.codec) : undefined;
+  // Fall back to MP3 when the source codec has no matching file format
+  const outputFormat: AudioFormat = format === 'original' ? copyFormat ?? 'mp3' : format;
+
+  const handleProbe = useCallback((info: MediaInfo) => {
+    setMediaInfo(info);
+    if (!info.audio) {
+      toast.warning('This video has no audio track');
+    } else if (!getCopyFormat(info.audio.codec)) {
+      setFormat('mp3');
+    }
+  }, []);
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    setDuration(video.duration);
+    setTrim({ start: 0, end: video.duration });
+  };
+
+  const handleExtract = useCallback(async () => {
+    if (!videoFile) return;
+
+    const isTrimmed = duration > 0 && (trim.start > 0 || trim.end < duration);
+    const signal = startProcessing();
+
+    try {
+      const result = await convertAudio(
+        videoFile,
+        {
+          format: outputFormat,
+          bitrate,
+          streamCopy: format === 'original',
+          ...(isTrimmed && { trim: { ...trim } })
+        },
+        (progressData) => updateProgress(progressData.progress),
+        signal
+      );
+
+      setExtractedAudio(result);
+      setExtractedFormat(outputFormat);
+      if (extractedUrl) {
+        URL.revokeObjectURL(extractedUrl);
+      }
+      setExtractedUrl(URL.createObjectURL(result));
+      completeProcessing();
+      toast.success('Audio extracted!');
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Extraction cancelled');
+        return;
+      }
+      toast.error('Audio extraction failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [videoFile, duration, trim, outputFormat, format, bitrate, extractedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  const handleDownload = useCallback(() => {
+    if (!extractedAudio) return;
+
+    downloadBlobWithGeneratedName(
+      extractedAudio,
+      'audio',
+      videoFile?.name,
+      AUDIO_FORMATS[extractedFormat].extension,
+      { showToast: true }
+    );
+  }, [extractedAudio, videoFile?.name, extractedFormat]);
+
+  // Cleanup URLs on unmount
+  useEffect(() => {
+    return () => {
+      if (extractedUrl) {
+        URL.revokeObjectURL(extractedUrl);
+      }
+    };
+  }, [extractedUrl]);
+
+  return (
+    <ToolPageLayout
+      title="Extract Audio"
+      description="Pull the audio track out of a video as MP3, AAC, WAV or Opus, or copy it untouched. Trim to just the part you need. All processing happens in your browser."
+      keywords="extract audio from video, video to mp3, mp4 to mp3, video to wav, rip audio"
+      canonicalUrl="https://slixtools.io/tools/extract-audio"
+      pageTitle="Extract Audio from Video - sLixTOOLS"
+      pageDescription="Extract the audio track from videos as MP3, AAC, WAV or Opus, with optional trimming."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Upload Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FileVideo className="h-5 w-5" />
+              Upload Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['video/*']}
+              fileCategory="video"
+              title="Upload Video"
+              description="Supports MP4, WebM, AVI, MOV, and more"
+            />
+
+            {videoFile && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-300">
+                  <strong>File:</strong> {videoFile.name} ({formatFileSizeMB(videoFile.size)})
+                </p>
+                {videoUrl && (
+                  <video
+                    ref={setVideoElement}
+                    src={videoUrl}
+                    controls
+                    onLoadedMetadata={handleLoadedMetadata}
+                    className="w-full rounded-lg"
+                    style={{ maxHeight: '300px' }}
+                  />
+                )}
+                {duration > 0 && (
+                  <TrimTimeline
+                    file={videoFile}
+                    video={videoElement}
+                    duration={duration}
+                    start={trim.start}
+                    end={trim.end}
+                    onChange={(start, end) => setTrim({ start, end })}
+                    fps={mediaInfo?.video?.fps}
+                  />
+                )}
+                <MediaInfoPanel file={videoFile} onProbe={handleProbe} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Output Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Output Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Audio Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExtractFormat)}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  {(!mediaInfo || copyFormat) && (
+                    <SelectItem value="original">
+                      Original{copyFormat ? ` (${AUDIO_FORMATS[copyFormat].label}, no re-encoding)` : ' (no re-encoding)'}
+                    </SelectItem>
+                  )}
+                  {EXTRACT_FORMATS.map((key) => (
+                    <SelectItem key={key} value={key}>{AUDIO_FORMATS[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-400">
+                {format === 'original'
+                  ? 'Fastest option with no quality loss'
+                  : sourceAudio ? `Re-encodes the ${sourceAudio.codec} track` : 'Re-encodes the audio track'}
+              </p>
+            </div>
+
+            {format !== 'original' && !AUDIO_FORMATS[outputFormat].lossless && (
+              <div className="space-y-2">
+                <Label className="text-white">Bitrate</Label>
+                <Select value={String(bitrate)} onValueChange={(value) => setBitrate(Number(value))}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {BITRATES.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>{rate} kb/s</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-400">64–96 kb/s is plenty for speech and narration</p>
+              </div>
+            )}
+
+            <ToolActionButton
+              icon={FileAudio}
+              onClick={handleExtract}
+              disabled={!videoFile || !sourceAudio}
+              isLoading={isProcessing}
+              loadingText="Extracting..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Extract Audio
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result Section */}
+      {extractedAudio && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Download className="h-5 w-5" />
+              Extracted Audio
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-300">
+                <strong>{AUDIO_FORMATS[extractedFormat].label}:</strong> {formatFileSizeMB(extractedAudio.size)}
+              </p>
+              <ToolActionButton icon={Download} onClick={handleDownload} variant="secondary">
+                Download
+              </ToolActionButton>
+            </div>
+
+            {extractedUrl && <audio src={extractedUrl} controls className="w-full" />}
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default AudioExtractor;
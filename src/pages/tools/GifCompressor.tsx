@@ -1,16 +1,38 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { FileImage, Download, Zap } from 'lucide-react';
 import ToolPageLayout from '@/components/ToolPageLayout';
 import FileUploadArea from '@/components/FileUploadArea';
-import { compressGif, getOptimalCompressionSettings, type CompressionProgress } from '@/utils/gifCompressor';
+import {
+  compressGif,
+  compressGifToTargetSize,
+  getOptimalCompressionSettings,
+  type CompressionAttempt,
+  type CompressionProgress,
+  type GifFrameSource
+} from '@/utils/gifCompressor';
+import {
+  MAX_PALETTE_SIZE,
+  MIN_PALETTE_SIZE,
+  QUANTIZER_METHODS,
+  type QuantizerMethod
+} from '@/utils/gifQuantizer';
+import { DITHER_METHODS, type DitherMethod } from '@/utils/gifDither';
+import { MAX_LOSSINESS } from '@/utils/gifEncoder';
+import { parseGif, type DecodedGifFrame, type ParsedGif } from '@/utils/gifDecoder';
+import { decodeGifInWorker } from '@/utils/gifDecoderWorker';
+import DitherPreview from '@/components/tools/gif/DitherPreview';
+import GifInspector from '@/components/tools/gif/GifInspector';
+import GifFrameEditor from '@/components/tools/gif/GifFrameEditor';
+import { createEditableFrames, type EditableFrame } from '@/utils/gifFrameEditor';
 import { formatFileSizeMB } from '@/utils/formatters';
 import { useLoading, useUrlFileLoader } from '@/hooks';
 import { EXTERNAL_URLS } from '@/config/externalUrls';
 import { downloadBlobWithGeneratedName } from '@/utils/download';
 import ToolActionButton from '@/components/tools/ToolActionButton';
+import { isCancellationError } from '@/utils/cancellation';
 
 function GifCompressor() {
   const [file, setFile] = useState<File | null>(null);
@@ -18,11 +40,74 @@ function GifCompressor() {
   const { isLoading, executeWithLoading } = useLoading();
   const [quality, setQuality] = useState(80);
   const [compressionMethod, setCompressionMethod] = useState<'standard' | 'gifsicle' | 'lossy'>('standard');
-  const [lossyLevel, setLossyLevel] = useState(80);
+  const [lossyLevel, setLossyLevel] = useState(40);
   const [optimizationLevel, setOptimizationLevel] = useState(2);
-  const [dithering, setDithering] = useState(true);
+  const [dithering, setDithering] = useState<DitherMethod>('none');
+  const [parsedGif, setParsedGif] = useState<ParsedGif | null>(null);
+  const [decodedFrames, setDecodedFrames] = useState<DecodedGifFrame[] | null>(null);
+  const [editedFrames, setEditedFrames] = useState<EditableFrame[] | null>(null);
+  const [framesEdited, setFramesEdited] = useState(false);
+  const [quantizer, setQuantizer] = useState<QuantizerMethod>('median-cut');
+  const [paletteSize, setPaletteSize] = useState(MAX_PALETTE_SIZE);
+  const [useGlobalPalette, setUseGlobalPalette] = useState(true);
+  const [optimizeFrames, setOptimizeFrames] = useState(true);
+  const [targetSizeEnabled, setTargetSizeEnabled] = useState(false);
+  const [targetSize, setTargetSize] = useState(8);
+  const [targetUnit, setTargetUnit] = useState<'KB' | 'MB'>('MB');
+  const [attempts, setAttempts] = useState<CompressionAttempt[]>([]);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop any running compression when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Parse the GIF for the inspector, then composite its frames in a worker for the strip,
+  // the dithering preview and compression, so the file is only decoded once
+  useEffect(() => {
+    setParsedGif(null);
+    setDecodedFrames(null);
+    if (!file) return;
+
+    const controller = new AbortController();
+    file.arrayBuffer()
+      .then((buffer) => {
+        if (!controller.signal.aborted) setParsedGif(parseGif(buffer));
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setParsedGif(null);
+      });
+    decodeGifInWorker(file, controller.signal)
+      .then((gif) => {
+        if (!controller.signal.aborted) setDecodedFrames(gif.frames);
+      })
+      .catch(() => {
+        // The inspector still shows the parsed metadata, and compression decodes the file itself
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  useEffect(() => {
+    setEditedFrames(decodedFrames ? createEditableFrames(decodedFrames) : null);
+    setFramesEdited(false);
+  }, [decodedFrames]);
+
+  const handleFramesChange = (frames: EditableFrame[]) => {
+    setEditedFrames(frames);
+    setFramesEdited(true);
+    setCompressedBlob(null);
+  };
+
+  const handleFramesReset = () => {
+    setEditedFrames(decodedFrames ? createEditableFrames(decodedFrames) : null);
+    setFramesEdited(false);
+  };
+
+  const previewFrame = useMemo(() => {
+    const first = decodedFrames?.[0];
+    return first && parsedGif ? new ImageData(first.pixels, parsedGif.width, parsedGif.height) : null;
+  }, [decodedFrames, parsedGif]);
 
   const handleFileSelected = (selectedFile: File) => {
     setFile(selectedFile);
@@ -47,8 +132,12 @@ function GifCompressor() {
 
     setProgress(0);
     setProgressMessage('Starting compression...');
+    setAttempts([]);
     toast.info('Starting Compression', { description: 'Your GIF is being compressed. Please wait.' });
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       await executeWithLoading(async () => {
         const optimalSettings = getOptimalCompressionSettings(file.size);
@@ -56,18 +145,54 @@ function GifCompressor() {
           ...optimalSettings,
           quality,
           compressionMethod,
-          lossyLevel,
+          lossy: compressionMethod === 'lossy' ? lossyLevel : 0,
           optimizationLevel,
           dithering,
+          quantizer,
+          paletteSize,
+          globalPalette: useGlobalPalette,
+          optimizeFrames,
           interlaced: false
         };
 
         const onProgress = (progressData: CompressionProgress) => {
           setProgress(progressData.progress);
           setProgressMessage(progressData.message);
+          const { attempt } = progressData;
+          if (attempt) {
+            setAttempts((previous) => [...previous, attempt]);
+          }
         };
 
-        const compressedGif = await compressGif(file, compressionOptions, onProgress);
+        // Reuse the frames decoded for the inspector, edited or not, so the file isn't decoded twice;
+        // the file itself is only passed on when that decode didn't happen
+        const input: File | GifFrameSource = editedFrames && parsedGif
+          ? {
+            frames: editedFrames.map((frame) => new ImageData(frame.pixels, parsedGif.width, parsedGif.height)),
+            delays: editedFrames.map((frame) => frame.delay),
+            width: parsedGif.width,
+            height: parsedGif.height,
+            loopCount: parsedGif.loopCount
+          }
+          : file;
+
+        let compressedGif: Blob;
+        if (targetSizeEnabled) {
+          const targetBytes = targetSize * (targetUnit === 'MB' ? 1024 * 1024 : 1024);
+          const result = await compressGifToTargetSize(
+            input,
+            targetBytes,
+            compressionOptions,
+            onProgress,
+            controller.signal
+          );
+          compressedGif = result.blob;
+          if (!result.met) {
+            toast.warning('Target Size Not Reached', { description: result.explanation });
+          }
+        } else {
+          compressedGif = await compressGif(input, compressionOptions, onProgress, controller.signal);
+        }
         setCompressedBlob(compressedGif);
 
         const originalSizeMB = formatFileSizeMB(file.size);
@@ -79,16 +204,26 @@ function GifCompressor() {
         });
       });
     } catch (error) {
-      // Error details are logged to error reporting system
-      toast.error('Compression Failed', {
-        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.'
-      });
+      if (isCancellationError(error)) {
+        toast.info('Compression cancelled');
+      } else {
+        // Error details are logged to error reporting system
+        toast.error('Compression Failed', {
+          description: error instanceof Error ? error.message : 'Something went wrong. Please try again.'
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
     }
 
     setProgress(0);
     setProgressMessage('');
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownload = () => {
     if (!compressedBlob) return;
     downloadBlobWithGeneratedName(
@@ -165,6 +300,20 @@ function GifCompressor() {
               )}
 
               <div className="space-y-6">
+                {parsedGif && (
+                  <GifInspector gif={parsedGif} frames={decodedFrames} fileSize={file.size} />
+                )}
+
+                {parsedGif && editedFrames && (
+                  <GifFrameEditor
+                    frames={editedFrames}
+                    width={parsedGif.width}
+                    height={parsedGif.height}
+                    onChange={handleFramesChange}
+                    onReset={framesEdited ? handleFramesReset : undefined}
+                  />
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-3">Compression Method</label>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
@@ -188,6 +337,44 @@ function GifCompressor() {
                   </div>
                 </div>
 
+                <div className="space-y-4 p-4 bg-blue-400/5 rounded-lg border border-blue-400/20">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="targetSize"
+                      checked={targetSizeEnabled}
+                      onChange={(e) => setTargetSizeEnabled(e.target.checked)}
+                      className="w-4 h-4 text-blue-400 bg-gray-700 border-gray-600 rounded focus:ring-blue-400 focus:ring-2"
+                    />
+                    <label htmlFor="targetSize" className="text-sm font-medium text-blue-400">Fit under a target file size</label>
+                  </div>
+                  {targetSizeEnabled && (
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={targetSize}
+                        onChange={(e) => setTargetSize(Math.max(1, parseFloat(e.target.value) || 1))}
+                        className="w-32 px-3 py-2 bg-gray-800/50 border border-gray-600 rounded-lg text-gray-200"
+                      />
+                      {(['KB', 'MB'] as const).map((unit) => (
+                        <button
+                          key={unit}
+                          onClick={() => setTargetUnit(unit)}
+                          className={`px-3 py-2 rounded-lg border text-sm transition-all ${targetUnit === unit
+                            ? 'border-blue-400 bg-blue-400/10 text-blue-400'
+                            : 'border-gray-600 bg-gray-800/50 text-gray-300 hover:border-gray-500'
+                            }`}
+                        >
+                          {unit}
+                        </button>
+                      ))}
+                      <span className="text-xs text-gray-400">Reduces colors, then scale, then frames until it fits</span>
+                    </div>
+                  )}
+                </div>
+
                 {compressionMethod === 'standard' && (
                   <div className="space-y-4 p-4 bg-blue-400/5 rounded-lg border border-blue-400/20">
                     <h4 className="text-sm font-medium text-blue-400">Standard Compression Options</h4>
@@ -227,16 +414,6 @@ function GifCompressor() {
                         <span>Best</span>
                       </div>
                     </div>
-                    <div className="flex items-center space-x-3">
-                      <input
-                        type="checkbox"
-                        id="dithering"
-                        checked={dithering}
-                        onChange={(e) => setDithering(e.target.checked)}
-                        className="w-4 h-4 text-blue-400 bg-gray-700 border-gray-600 rounded focus:ring-blue-400 focus:ring-2"
-                      />
-                      <label htmlFor="dithering" className="text-sm text-gray-300">Enable Dithering</label>
-                    </div>
                   </div>
                 )}
 
@@ -244,22 +421,102 @@ function GifCompressor() {
                   <div className="space-y-4 p-4 bg-purple-400/5 rounded-lg border border-purple-400/20">
                     <h4 className="text-sm font-medium text-purple-400">Lossy Compression Options</h4>
                     <div>
-                      <label className="block text-sm text-gray-300 mb-2">Lossy Level: {lossyLevel}%</label>
+                      <label className="block text-sm text-gray-300 mb-2">Lossiness: {lossyLevel}</label>
                       <input
                         type="range"
-                        min="20"
-                        max="100"
+                        min="10"
+                        max={MAX_LOSSINESS}
+                        step="10"
                         value={lossyLevel}
                         onChange={(e) => setLossyLevel(parseInt(e.target.value))}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-purple-400"
                       />
                       <div className="flex justify-between text-xs text-gray-400 mt-1">
+                        <span>Subtle</span>
                         <span>Aggressive</span>
-                        <span>Conservative</span>
                       </div>
+                      <p className="text-xs text-gray-400 mt-2">Lossy LZW trades slight noise for 30-50% smaller photographic GIFs</p>
                     </div>
                   </div>
                 )}
+
+                <div className="space-y-4 p-4 bg-yellow-400/5 rounded-lg border border-yellow-400/20">
+                  <h4 className="text-sm font-medium text-yellow-400">Color Palette</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {QUANTIZER_METHODS.map((method) => (
+                      <button
+                        key={method.value}
+                        onClick={() => setQuantizer(method.value)}
+                        className={`p-3 rounded-lg border text-left transition-all ${quantizer === method.value
+                          ? 'border-yellow-400 bg-yellow-400/10 text-yellow-400'
+                          : 'border-gray-600 bg-gray-800/50 text-gray-300 hover:border-gray-500'
+                          }`}
+                      >
+                        <div className="font-medium">{method.label}</div>
+                        <div className="text-xs text-gray-400 mt-1">{method.description}</div>
+                      </button>
+                    ))}
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">Palette Size: {paletteSize} colors</label>
+                    <input
+                      type="range"
+                      min={MIN_PALETTE_SIZE}
+                      max={MAX_PALETTE_SIZE}
+                      value={paletteSize}
+                      onChange={(e) => setPaletteSize(parseInt(e.target.value))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-yellow-400"
+                    />
+                    <div className="flex justify-between text-xs text-gray-400 mt-1">
+                      <span>Smaller File</span>
+                      <span>More Colors</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="globalPalette"
+                      checked={useGlobalPalette}
+                      onChange={(e) => setUseGlobalPalette(e.target.checked)}
+                      className="w-4 h-4 text-yellow-400 bg-gray-700 border-gray-600 rounded focus:ring-yellow-400 focus:ring-2"
+                    />
+                    <label htmlFor="globalPalette" className="text-sm text-gray-300">Share one palette across all frames</label>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="optimizeFrames"
+                      checked={optimizeFrames}
+                      onChange={(e) => setOptimizeFrames(e.target.checked)}
+                      className="w-4 h-4 text-yellow-400 bg-gray-700 border-gray-600 rounded focus:ring-yellow-400 focus:ring-2"
+                    />
+                    <label htmlFor="optimizeFrames" className="text-sm text-gray-300">Only store pixels that change between frames</label>
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-300 mb-2">Dithering</label>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {DITHER_METHODS.map((method) => (
+                        <button
+                          key={method.value}
+                          onClick={() => setDithering(method.value)}
+                          className={`p-3 rounded-lg border text-left transition-all ${dithering === method.value
+                            ? 'border-yellow-400 bg-yellow-400/10 text-yellow-400'
+                            : 'border-gray-600 bg-gray-800/50 text-gray-300 hover:border-gray-500'
+                            }`}
+                        >
+                          <div className="font-medium">{method.label}</div>
+                          <div className="text-xs text-gray-400 mt-1">{method.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <DitherPreview
+                    source={previewFrame}
+                    method={dithering}
+                    paletteSize={paletteSize}
+                    quantizer={quantizer}
+                  />
+                </div>
               </div>
 
 
@@ -270,6 +527,7 @@ function GifCompressor() {
                   disabled={isLoading}
                   isLoading={isLoading}
                   loadingText="Compressing..."
+                  onCancel={handleCancel}
                   fullWidth
                 >
                   Compress GIF
@@ -277,6 +535,26 @@ function GifCompressor() {
               </div>
 
 
+              {attempts.length > 0 && (
+                <div className="mt-4 p-4 bg-gray-800/30 rounded-lg border border-gray-700/50">
+                  <h4 className="text-sm font-medium text-gray-300 mb-2">Size Search Attempts</h4>
+                  <ul className="space-y-1 text-xs">
+                    {attempts.map((attempt) => (
+                      <li key={attempt.index} className="flex justify-between text-gray-400">
+                        <span>
+                          #{attempt.index + 1}: {attempt.settings.paletteSize} colors, {Math.round(attempt.settings.scale * 100)}% scale
+                          {attempt.settings.lossy > 0 && `, lossy ${attempt.settings.lossy}`}
+                          {attempt.settings.frameSkip > 0 && `, skip ${attempt.settings.frameSkip}`}
+                        </span>
+                        <span className={attempt.fits ? 'text-green-400' : 'text-red-400'}>
+                          {(attempt.size / 1024).toFixed(1)} KB
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {isLoading && (
                 <div className="mt-4 space-y-2">
                   <div className="flex justify-between text-sm text-gray-400">
@@ -0,0 +1,313 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Download, Settings2, FileVideo, Film } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { convertGifToVideo, type GifToVideoOptions } from '@/utils/videoProcessor';
+import { parseGif } from '@/utils/gifDecoder';
+import { useProcessingState, useToolFile } from '@/hooks';
+import { formatFileSizeMB } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+interface GifSummary {
+  width: number;
+  height: number;
+  frameCount: number;
+  duration: number; // seconds for one play-through
+}
+
+const GifToVideo = () => {
+  const [gifSummary, setGifSummary] = useState<GifSummary | null>(null);
+  const [convertedVideo, setConvertedVideo] = useState<Blob | null>(null);
+  const [convertedUrl, setConvertedUrl] = useState<string>('');
+  const [options, setOptions] = useState<GifToVideoOptions>({
+    format: 'mp4',
+    quality: 75,
+    backgroundColor: '#000000'
+  });
+  const [durationInput, setDurationInput] = useState('');
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const {
+    file: gifFile,
+    fileUrl: gifUrl,
+    handleFileSelect
+  } = useToolFile({
+    acceptedTypes: ['image/gif'],
+    onFileLoad: async (file) => {
+      setConvertedVideo(null);
+      setConvertedUrl('');
+      setDurationInput('');
+      try {
+        const gif = parseGif(await file.arrayBuffer());
+        setGifSummary({
+          width: gif.width,
+          height: gif.height,
+          frameCount: gif.frames.length,
+          duration: gif.frames.reduce((sum, frame) => sum + frame.delay, 0) / 1000
+        });
+      } catch (error) {
+        setGifSummary(null);
+        toast.error('Could not read GIF: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    },
+    onFileError: (error) => {
+      toast.error('File validation error: ' + error.message);
+    }
+  });
+
+  const handleConvert = useCallback(async () => {
+    if (!gifFile) return;
+
+    const duration = parseFloat(durationInput);
+    const signal = startProcessing();
+
+    try {
+      const result = await convertGifToVideo(
+        gifFile,
+        { ...options, ...(duration > 0 && { duration }) },
+        (progressData) => updateProgress(progressData.progress),
+        signal
+      );
+
+      setConvertedVideo(result);
+      if (convertedUrl) {
+        URL.revokeObjectURL(convertedUrl);
+      }
+      setConvertedUrl(URL.createObjectURL(result));
+      completeProcessing();
+      toast.success('GIF converted to video!');
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Conversion cancelled');
+        return;
+      }
+      toast.error('Conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [gifFile, options, durationInput, convertedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  const handleDownload = useCallback(() => {
+    if (!convertedVideo) return;
+
+    downloadBlobWithGeneratedName(
+      convertedVideo,
+      'converted',
+      gifFile?.name,
+      convertedVideo.type === 'video/webm' ? 'webm' : 'mp4',
+      { showToast: true }
+    );
+  }, [convertedVideo, gifFile?.name]);
+
+  // Cleanup URLs on unmount
+  useEffect(() => {
+    return () => {
+      if (convertedUrl) {
+        URL.revokeObjectURL(convertedUrl);
+      }
+    };
+  }, [convertedUrl]);
+
+  return (
+    <ToolPageLayout
+      title="GIF to Video"
+      description="Turn animated GIFs into MP4 or WebM videos that are a fraction of the size. Frame timing is preserved and short GIFs can be looped to any length. All processing happens in your browser."
+      keywords="gif to mp4, gif to webm, gif to video, convert gif, animated gif converter"
+      canonicalUrl="https://slixtools.io/tools/gif-to-video"
+      pageTitle="GIF to Video - sLixTOOLS"
+      pageDescription="Convert animated GIFs to MP4 or WebM videos with preserved frame timing and optional looping."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Upload Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Film className="h-5 w-5" />
+              Upload GIF
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['image/gif']}
+              fileCategory="image"
+              title="Upload GIF"
+              description="Animated GIFs of any size"
+            />
+
+            {gifFile && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-300">
+                  <strong>File:</strong> {gifFile.name}
+                </p>
+                <p className="text-sm text-gray-300">
+                  <strong>Size:</strong> {formatFileSizeMB(gifFile.size)}
+                </p>
+                {gifSummary && (
+                  <p className="text-sm text-gray-300">
+                    <strong>Animation:</strong> {gifSummary.width}×{gifSummary.height}, {gifSummary.frameCount} frames, {gifSummary.duration.toFixed(2)}s
+                  </p>
+                )}
+                {gifUrl && (
+                  <img
+                    src={gifUrl}
+                    alt="GIF preview"
+                    className="w-full rounded-lg mt-4 object-contain"
+                    style={{ maxHeight: '200px' }}
+                  />
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Conversion Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Conversion Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Output Format</Label>
+              <Select value={options.format} onValueChange={(value) => setOptions(prev => ({ ...prev, format: value as GifToVideoOptions['format'] }))}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  <SelectItem value="mp4">MP4 (H.264)</SelectItem>
+                  <SelectItem value="webm">WebM (VP9)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-white">Quality: {options.quality}</Label>
+              <Slider
+                value={[options.quality]}
+                onValueChange={([value]) => setOptions(prev => ({ ...prev, quality: value }))}
+                min={30}
+                max={100}
+                step={5}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-400">Higher values = better quality, larger file size</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="videoDuration" className="text-white">Video Length (seconds)</Label>
+              <Input
+                id="videoDuration"
+                type="number"
+                min="0.1"
+                step="0.5"
+                value={durationInput}
+                onChange={(e) => setDurationInput(e.target.value)}
+                placeholder={gifSummary ? `${gifSummary.duration.toFixed(2)} (one loop)` : 'One loop'}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <p className="text-xs text-gray-400">The GIF repeats until the video reaches this length</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="backgroundColor" className="text-white">Background Color</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="backgroundColor"
+                  type="color"
+                  value={options.backgroundColor}
+                  onChange={(e) => setOptions(prev => ({ ...prev, backgroundColor: e.target.value }))}
+                  className="h-9 w-12 bg-transparent border border-gray-600 rounded cursor-pointer"
+                />
+                <span className="text-xs text-gray-400">Replaces transparent pixels</span>
+              </div>
+            </div>
+
+            <ToolActionButton
+              icon={FileVideo}
+              onClick={handleConvert}
+              disabled={!gifFile || !gifSummary}
+              isLoading={isProcessing}
+              loadingText="Converting..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Convert to {options.format === 'mp4' ? 'MP4' : 'WebM'}
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result Section */}
+      {convertedVideo && gifFile && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Download className="h-5 w-5" />
+              Converted Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-gray-300 mb-2">
+                  <strong>GIF:</strong> {formatFileSizeMB(gifFile.size)}
+                </p>
+                <p className="text-sm text-gray-300 mb-4">
+                  <strong>Video:</strong> {formatFileSizeMB(convertedVideo.size)}
+                </p>
+                <p className="text-sm text-green-400">
+                  Size reduction: {(((gifFile.size - convertedVideo.size) / gifFile.size) * 100).toFixed(1)}%
+                </p>
+              </div>
+              <div className="flex justify-end">
+                <ToolActionButton icon={Download} onClick={handleDownload} variant="secondary">
+                  Download
+                </ToolActionButton>
+              </div>
+            </div>
+
+            {convertedUrl && (
+              <video
+                src={convertedUrl}
+                controls
+                loop
+                autoPlay
+                muted
+                className="w-full rounded-lg"
+                style={{ maxHeight: '300px' }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default GifToVideo;
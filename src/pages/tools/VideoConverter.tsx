@@ -5,20 +5,49 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { validateVideoFile } from '@/utils/fileValidation';
-import { compressVideo, VideoCompressionOptions } from '@/utils/videoProcessor';
-import { useToolFile } from '@/hooks';
+import {
+  compressVideo,
+  compressVideoToTargetSize,
+  getSupportedCodecs,
+  VIDEO_CODECS,
+  ENCODER_PRESETS,
+  VideoCompressionOptions,
+  type VideoCompressionAttempt,
+  type VideoContainer,
+  type VideoCodec,
+  type EncoderPreset
+} from '@/utils/videoProcessor';
+import { useProcessingState, useToolFile } from '@/hooks';
 import { formatFileSizeMB } from '@/utils/formatters';
 import ToolPageLayout from '@/components/ToolPageLayout';
 import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import MediaInfoPanel from '@/components/tools/video/MediaInfoPanel';
+import TrimTimeline from '@/components/tools/video/TrimTimeline';
+import CropSelector from '@/components/tools/video/CropSelector';
+import SubtitleEditor from '@/components/tools/video/SubtitleEditor';
+import PlaybackControls from '@/components/tools/video/PlaybackControls';
 import { toast } from 'sonner';
 import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+import type { MediaInfo } from '@/utils/mediaProbe';
+import type { CropRegion } from '@/types';
+import { DEFAULT_SUBTITLE_STYLE, type SubtitleCue, type SubtitleStyle } from '@/utils/subtitles';
+import { DEFAULT_PLAYBACK_TIMING, isTimingChanged, type PlaybackTiming } from '@/utils/playbackTiming';
+
+// Common attachment limits for the target size presets
+const TARGET_SIZE_PRESETS = [
+  { label: 'Discord', size: 10 },
+  { label: 'Email', size: 25 },
+  { label: 'WhatsApp', size: 100 }
+];
 
 const VideoConverter = () => {
   const [convertedVideo, setConvertedVideo] = useState<Blob | null>(null);
-  const [isConverting, setIsConverting] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [options, setOptions] = useState<VideoCompressionOptions>({
     format: 'mp4',
     quality: 23,
@@ -27,9 +56,32 @@ const VideoConverter = () => {
     codec: 'h264',
     fps: 30,
     bitrate: 1000,
-    maintainAspectRatio: true
+    maintainAspectRatio: true,
+    preset: 'ultrafast',
+    rateControl: 'crf',
+    crf: VIDEO_CODECS.h264.defaultCrf
   });
   const [convertedUrl, setConvertedUrl] = useState<string>('');
+  const [mediaInfo, setMediaInfo] = useState<MediaInfo | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [trim, setTrim] = useState({ start: 0, end: 0 });
+  const [crop, setCrop] = useState<CropRegion | null>(null);
+  const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([]);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [timing, setTiming] = useState<PlaybackTiming>(DEFAULT_PLAYBACK_TIMING);
+  const [targetSizeEnabled, setTargetSizeEnabled] = useState(false);
+  const [targetSize, setTargetSize] = useState(25); // MB
+  const [attempts, setAttempts] = useState<VideoCompressionAttempt[]>([]);
+  const {
+    progress,
+    isProcessing: isConverting,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
 
   const {
     file: videoFile,
@@ -41,24 +93,84 @@ const VideoConverter = () => {
       // Reset conversion state
       setConvertedVideo(null);
       setConvertedUrl('');
+      setMediaInfo(null);
+      setAttempts([]);
+      setDuration(0);
+      setCrop(null);
     },
     onFileError: (error) => {
       toast.error('File validation error: ' + error.message);
     }
   });
 
+  // Don't raise the frame rate above the source by default
+  const handleProbe = useCallback((info: MediaInfo) => {
+    setMediaInfo(info);
+    const sourceFps = info.video?.fps;
+    if (sourceFps) {
+      setOptions(prev => ({ ...prev, fps: Math.min(prev.fps || 30, Math.max(15, Math.round(sourceFps / 5) * 5)) }));
+    }
+  }, []);
+
+  // Switching container may drop the current codec; fall back to the container's most compatible one
+  const handleFormatChange = useCallback((format: VideoContainer) => {
+    setOptions(prev => {
+      const supported = getSupportedCodecs(format);
+      const codec = supported.includes(prev.codec) ? prev.codec : supported[0];
+      return {
+        ...prev,
+        format,
+        codec,
+        crf: codec === prev.codec ? prev.crf : VIDEO_CODECS[codec].defaultCrf
+      };
+    });
+  }, []);
+
+  const handleCodecChange = useCallback((codec: VideoCodec) => {
+    setOptions(prev => ({ ...prev, codec, crf: VIDEO_CODECS[codec].defaultCrf }));
+  }, []);
+
+  const crfRange = VIDEO_CODECS[options.codec].crfRange;
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    setDuration(video.duration);
+    setTrim({ start: 0, end: video.duration });
+  };
+
   const handleConvert = useCallback(async () => {
     if (!videoFile) return;
 
-    setIsConverting(true);
-    setProgress(0);
+    const isTrimmed = duration > 0 && (trim.start > 0 || trim.end < duration);
+    const compressionOptions = {
+      ...options,
+      ...(isTrimmed && { trim: { ...trim } }),
+      ...(crop && { crop }),
+      ...(subtitleCues.length > 0 && { subtitles: { cues: subtitleCues, style: subtitleStyle } }),
+      ...(isTimingChanged(timing) && { timing })
+    };
+    const signal = startProcessing();
 
     try {
-      const result = await compressVideo(
-        videoFile,
-        options,
-        (progressData) => setProgress(progressData.progress)
-      );
+      const onProgress = (progressData: { progress: number }) => updateProgress(progressData.progress);
+      let result: Blob;
+      if (targetSizeEnabled) {
+        const targetResult = await compressVideoToTargetSize(
+          videoFile,
+          targetSize * 1024 * 1024,
+          compressionOptions,
+          onProgress,
+          signal
+        );
+        result = targetResult.blob;
+        setAttempts(targetResult.attempts);
+        if (!targetResult.met) {
+          toast.warning('Target Size Not Reached', { description: targetResult.explanation });
+        }
+      } else {
+        result = await compressVideo(videoFile, compressionOptions, onProgress, signal);
+        setAttempts([]);
+      }
 
       setConvertedVideo(result);
 
@@ -69,13 +181,17 @@ const VideoConverter = () => {
       const url = URL.createObjectURL(result);
       setConvertedUrl(url);
 
+      completeProcessing();
       toast.success('Video converted successfully!');
     } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Conversion cancelled');
+        return;
+      }
       toast.error('Video conversion failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    } finally {
-      setIsConverting(false);
     }
-  }, [videoFile, options, convertedUrl]);
+  }, [videoFile, options, duration, trim, crop, subtitleCues, subtitleStyle, timing, targetSizeEnabled, targetSize, convertedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
 
   const handleDownload = useCallback(() => {
     if (!convertedVideo) return;
@@ -134,13 +250,46 @@ const VideoConverter = () => {
                   <strong>Size:</strong> {formatFileSizeMB(videoFile.size)}
                 </p>
                 {videoUrl && (
-                  <video
-                    src={videoUrl}
-                    controls
-                    className="w-full rounded-lg mt-4"
-                    style={{ maxHeight: '200px' }}
+                  <CropSelector video={videoElement} crop={crop} onChange={setCrop} className="mt-4">
+                    <video
+                      ref={setVideoElement}
+                      src={videoUrl}
+                      controls
+                      onLoadedMetadata={handleLoadedMetadata}
+                      className="w-full rounded-lg"
+                      style={{ maxHeight: '200px' }}
+                    />
+                  </CropSelector>
+                )}
+                {duration > 0 && (
+                  <TrimTimeline
+                    file={videoFile}
+                    video={videoElement}
+                    duration={duration}
+                    start={trim.start}
+                    end={trim.end}
+                    onChange={(start, end) => setTrim({ start, end })}
+                    fps={mediaInfo?.video?.fps}
+                  />
+                )}
+                {duration > 0 && (
+                  <SubtitleEditor
+                    cues={subtitleCues}
+                    style={subtitleStyle}
+                    onCuesChange={setSubtitleCues}
+                    onStyleChange={setSubtitleStyle}
+                    video={videoElement}
+                  />
+                )}
+                {duration > 0 && (
+                  <PlaybackControls
+                    timing={timing}
+                    onChange={setTiming}
+                    duration={trim.end - trim.start}
+                    video={videoElement}
                   />
                 )}
+                <MediaInfoPanel file={videoFile} onProbe={handleProbe} />
               </div>
             )}
           </CardContent>
@@ -157,7 +306,7 @@ const VideoConverter = () => {
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <Label className="text-white">Output Format</Label>
-              <Select value={options.format} onValueChange={(value) => setOptions(prev => ({ ...prev, format: value as 'mp4' | 'webm' | 'avi' | 'mov' }))}>
+              <Select value={options.format} onValueChange={(value) => handleFormatChange(value as VideoContainer)}>
                 <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
                   <SelectValue />
                 </SelectTrigger>
@@ -170,17 +319,118 @@ const VideoConverter = () => {
               </Select>
             </div>
 
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-white">Codec</Label>
+                <Select value={options.codec} onValueChange={(value) => handleCodecChange(value as VideoCodec)}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {getSupportedCodecs(options.format).map((codec) => (
+                      <SelectItem key={codec} value={codec}>{VIDEO_CODECS[codec].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Encoder Preset</Label>
+                <Select value={options.preset ?? 'ultrafast'} onValueChange={(value) => setOptions(prev => ({ ...prev, preset: value as EncoderPreset }))}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    {ENCODER_PRESETS.map((preset) => (
+                      <SelectItem key={preset} value={preset}>{preset}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">Slower presets compress better but take much longer in the browser</p>
+
             <div className="space-y-2">
-              <Label className="text-white">Quality (CRF: {options.quality})</Label>
-              <Slider
-                value={[options.quality]}
-                onValueChange={([value]) => setOptions(prev => ({ ...prev, quality: value }))}
-                min={18}
-                max={35}
-                step={1}
-                className="w-full"
-              />
-              <p className="text-xs text-gray-400">Lower values = higher quality, larger file size</p>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="target-size" className="text-white">Fit under a target file size</Label>
+                <Switch id="target-size" checked={targetSizeEnabled} onCheckedChange={setTargetSizeEnabled} />
+              </div>
+              {targetSizeEnabled && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={targetSize}
+                      onChange={(e) => setTargetSize(Math.max(1, parseFloat(e.target.value) || 1))}
+                      className="w-24 bg-gray-700 border-gray-600 text-white"
+                    />
+                    <span className="text-sm text-gray-300">MB</span>
+                    {TARGET_SIZE_PRESETS.map((preset) => (
+                      <Button
+                        key={preset.label}
+                        variant={targetSize === preset.size ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setTargetSize(preset.size)}
+                      >
+                        {preset.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    Encodes in two passes at a bitrate calculated from the video length. Replaces the quality setting.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className={`space-y-2 ${targetSizeEnabled ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between">
+                <Label className="text-white">Rate Control</Label>
+                <div className="flex gap-1">
+                  {(['crf', 'bitrate'] as const).map((mode) => (
+                    <Button
+                      key={mode}
+                      variant={options.rateControl === mode ? 'default' : 'outline'}
+                      size="sm"
+                      disabled={targetSizeEnabled}
+                      onClick={() => setOptions(prev => ({ ...prev, rateControl: mode }))}
+                    >
+                      {mode === 'crf' ? 'Quality (CRF)' : 'Bitrate'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {options.rateControl === 'bitrate' ? (
+                <>
+                  <Label className="text-white">Bitrate: {options.bitrate} kb/s</Label>
+                  <Slider
+                    value={[options.bitrate || 1000]}
+                    onValueChange={([value]) => setOptions(prev => ({ ...prev, bitrate: value }))}
+                    min={250}
+                    max={10000}
+                    step={250}
+                    disabled={targetSizeEnabled}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-400">Predictable file size; quality varies with scene complexity</p>
+                </>
+              ) : (
+                <>
+                  <Label className="text-white">CRF: {options.crf}</Label>
+                  <Slider
+                    value={[options.crf ?? VIDEO_CODECS[options.codec].defaultCrf]}
+                    onValueChange={([value]) => setOptions(prev => ({ ...prev, crf: value }))}
+                    min={crfRange[0]}
+                    max={crfRange[1]}
+                    step={1}
+                    disabled={targetSizeEnabled}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-400">Lower values = higher quality, larger file size</p>
+                </>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -193,7 +443,10 @@ const VideoConverter = () => {
                 step={160}
                 className="w-full"
               />
-              <p className="text-xs text-gray-400">{options.maxWidth}px</p>
+              <p className="text-xs text-gray-400">
+                {options.maxWidth}px
+                {mediaInfo?.displayWidth ? ` (source ${mediaInfo.displayWidth}px)` : null}
+              </p>
             </div>
 
             <div className="space-y-2">
@@ -206,11 +459,17 @@ const VideoConverter = () => {
                 step={120}
                 className="w-full"
               />
-              <p className="text-xs text-gray-400">{options.maxHeight}px</p>
+              <p className="text-xs text-gray-400">
+                {options.maxHeight}px
+                {mediaInfo?.displayHeight ? ` (source ${mediaInfo.displayHeight}px)` : null}
+              </p>
             </div>
 
             <div className="space-y-2">
-              <Label className="text-white">Frame Rate: {options.fps} fps</Label>
+              <Label className="text-white">
+                Frame Rate: {options.fps} fps
+                {mediaInfo?.video?.fps && <span className="text-gray-400 font-normal"> (source {Number(mediaInfo.video.fps.toFixed(2))} fps)</span>}
+              </Label>
               <Slider
                 value={[options.fps || 30]}
                 onValueChange={([value]) => setOptions(prev => ({ ...prev, fps: value }))}
@@ -221,13 +480,17 @@ const VideoConverter = () => {
               />
             </div>
 
-            <Button
+            <ToolActionButton
+              icon={FileVideo}
               onClick={handleConvert}
-              disabled={!videoFile || isConverting}
-              className="w-full bg-primary-action hover:bg-primary-action/90 shadow-[0_0_15px_rgba(42,213,135,0.5)] hover:shadow-[0_0_25px_rgba(42,213,135,0.7)] transition-shadow duration-300"
+              disabled={!videoFile}
+              isLoading={isConverting}
+              loadingText="Converting..."
+              onCancel={cancelProcessing}
+              fullWidth
             >
-              {isConverting ? 'Converting...' : 'Convert Video'}
-            </Button>
+              Convert Video
+            </ToolActionButton>
 
             {isConverting && (
               <div className="space-y-2">
@@ -260,6 +523,20 @@ const VideoConverter = () => {
                 <p className="text-sm text-green-400">
                   Size reduction: {(((videoFile!.size - convertedVideo.size) / videoFile!.size) * 100).toFixed(1)}%
                 </p>
+                {attempts.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-xs text-gray-400">
+                    {attempts.map((attempt) => (
+                      <li key={attempt.index}>
+                        Attempt {attempt.index}: {attempt.videoBitrate} kb/s video
+                        {attempt.audioBitrate ? ` + ${attempt.audioBitrate} kb/s audio` : ''}
+                        {' → '}{formatFileSizeMB(attempt.size)}{' '}
+                        <span className={attempt.fits ? 'text-green-400' : 'text-yellow-400'}>
+                          {attempt.fits ? 'fits' : 'too large'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
               <div className="flex justify-end">
                 <Button onClick={handleDownload} className="bg-blue-600 hover:bg-blue-700">
@@ -0,0 +1,390 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Download, Settings2, Clapperboard, Film, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { validateVideoFile } from '@/utils/fileValidation';
+import { editVideo, type VideoEditOptions } from '@/utils/videoProcessor';
+import { useProcessingState, useToolFile } from '@/hooks';
+import { formatFileSizeMB } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import TrimTimeline from '@/components/tools/video/TrimTimeline';
+import VideoEditPreview from '@/components/tools/video/VideoEditPreview';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+type VideoFilters = Required<NonNullable<VideoEditOptions['filters']>>;
+type Rotation = 0 | 90 | 180 | 270;
+type Flip = 'none' | 'horizontal' | 'vertical';
+
+const DEFAULT_FILTERS: VideoFilters = { brightness: 0, contrast: 0, saturation: 0, blur: 0, sharpen: 0 };
+
+const FILTER_CONTROLS: { key: keyof VideoFilters; label: string; min: number; max: number }[] = [
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+  { key: 'blur', label: 'Blur', min: 0, max: 10 },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 10 }
+];
+
+// H.264 with 4:2:0 chroma needs even dimensions
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const VideoEditor = () => {
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [trim, setTrim] = useState({ start: 0, end: 0 });
+  const [sourceSize, setSourceSize] = useState({ width: 0, height: 0 });
+  const [resizeEnabled, setResizeEnabled] = useState(false);
+  const [resize, setResize] = useState({ width: 0, height: 0 });
+  const [rotate, setRotate] = useState<Rotation>(0);
+  const [flip, setFlip] = useState<Flip>('none');
+  const [filters, setFilters] = useState<VideoFilters>(DEFAULT_FILTERS);
+  const [editedVideo, setEditedVideo] = useState<Blob | null>(null);
+  const [editedUrl, setEditedUrl] = useState<string>('');
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const {
+    file: videoFile,
+    fileUrl: videoUrl,
+    handleFileSelect
+  } = useToolFile({
+    validateFunction: validateVideoFile,
+    onFileLoad: () => {
+      setEditedVideo(null);
+      setEditedUrl('');
+      setDuration(0);
+      setRotate(0);
+      setFlip('none');
+      setFilters(DEFAULT_FILTERS);
+      setResizeEnabled(false);
+    },
+    onFileError: (error) => {
+      toast.error('File validation error: ' + error.message);
+    }
+  });
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = event.currentTarget;
+    setDuration(video.duration);
+    setTrim({ start: 0, end: video.duration });
+    setSourceSize({ width: video.videoWidth, height: video.videoHeight });
+    setResize({ width: video.videoWidth, height: video.videoHeight });
+  };
+
+  // Changing one side of the resize keeps the source aspect ratio
+  const handleResizeChange = (dimension: 'width' | 'height', value: number) => {
+    if (!sourceSize.width || !sourceSize.height || !(value > 0)) return;
+    const ratio = sourceSize.width / sourceSize.height;
+    setResize(dimension === 'width'
+      ? { width: value, height: Math.round(value / ratio) }
+      : { width: Math.round(value * ratio), height: value });
+  };
+
+  const editOptions = useMemo((): VideoEditOptions => {
+    const isTrimmed = duration > 0 && (trim.start > 0 || trim.end < duration);
+    const activeFilters = Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== 0)
+    ) as VideoEditOptions['filters'];
+
+    return {
+      ...(isTrimmed && { trim: { ...trim } }),
+      ...(resizeEnabled && { resize: { width: toEven(resize.width), height: toEven(resize.height) } }),
+      ...(rotate !== 0 && { rotate }),
+      ...(flip !== 'none' && { flip }),
+      ...(activeFilters && Object.keys(activeFilters).length > 0 && { filters: activeFilters })
+    };
+  }, [duration, trim, filters, resizeEnabled, resize, rotate, flip]);
+
+  const hasEdits = Object.keys(editOptions).length > 0;
+
+  const handleExport = useCallback(async () => {
+    if (!videoFile) return;
+
+    const signal = startProcessing();
+
+    try {
+      const result = await editVideo(
+        videoFile,
+        editOptions,
+        (progressData) => updateProgress(progressData.progress),
+        signal
+      );
+
+      setEditedVideo(result);
+      if (editedUrl) {
+        URL.revokeObjectURL(editedUrl);
+      }
+      setEditedUrl(URL.createObjectURL(result));
+      completeProcessing();
+      toast.success('Video exported successfully!');
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Export cancelled');
+        return;
+      }
+      toast.error('Video export failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [videoFile, editOptions, editedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  const handleDownload = useCallback(() => {
+    if (!editedVideo) return;
+
+    downloadBlobWithGeneratedName(
+      editedVideo,
+      'edited',
+      videoFile?.name,
+      'mp4',
+      { showToast: true }
+    );
+  }, [editedVideo, videoFile?.name]);
+
+  // Cleanup URLs on unmount
+  useEffect(() => {
+    return () => {
+      if (editedUrl) {
+        URL.revokeObjectURL(editedUrl);
+      }
+    };
+  }, [editedUrl]);
+
+  return (
+    <ToolPageLayout
+      title="Video Editor"
+      description="Trim, resize, rotate and flip videos, and adjust brightness, contrast, saturation, blur and sharpness with a live preview. All processing happens in your browser."
+      keywords="video editor, trim video, rotate video, flip video, video filters, online video editor"
+      canonicalUrl="https://slixtools.io/tools/video-editor"
+      pageTitle="Video Editor - sLixTOOLS"
+      pageDescription="Trim, resize, rotate, flip and color-correct videos in your browser with a live preview."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Upload and Preview Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Film className="h-5 w-5" />
+              Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['video/mp4', 'video/webm', 'video/avi', 'video/mov', 'video/quicktime']}
+              fileCategory="video"
+              title="Upload Video"
+              description="MP4, WebM, AVI, MOV up to 500MB"
+            />
+
+            {videoFile && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-300">
+                  <strong>File:</strong> {videoFile.name} ({formatFileSizeMB(videoFile.size)})
+                  {sourceSize.width > 0 && `, ${sourceSize.width}×${sourceSize.height}`}
+                </p>
+                {videoUrl && (
+                  <video
+                    ref={setVideoElement}
+                    src={videoUrl}
+                    controls
+                    onLoadedMetadata={handleLoadedMetadata}
+                    className="w-full rounded-lg"
+                    style={{ maxHeight: '300px' }}
+                  />
+                )}
+                {duration > 0 && (
+                  <TrimTimeline
+                    file={videoFile}
+                    video={videoElement}
+                    duration={duration}
+                    start={trim.start}
+                    end={trim.end}
+                    onChange={(start, end) => setTrim({ start, end })}
+                  />
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Edit Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Edits
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {videoFile && (
+              <div className="space-y-2">
+                <Label className="text-white">Preview</Label>
+                <VideoEditPreview video={videoElement} options={editOptions} />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">Rotate</Label>
+                <Select value={String(rotate)} onValueChange={(value) => setRotate(Number(value) as Rotation)}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="0">None</SelectItem>
+                    <SelectItem value="90">90° clockwise</SelectItem>
+                    <SelectItem value="180">180°</SelectItem>
+                    <SelectItem value="270">90° counter-clockwise</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Flip</Label>
+                <Select value={flip} onValueChange={(value) => setFlip(value as Flip)}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="horizontal">Horizontal</SelectItem>
+                    <SelectItem value="vertical">Vertical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="resizeEnabled" className="text-white">Resize</Label>
+                <Switch id="resizeEnabled" checked={resizeEnabled} onCheckedChange={setResizeEnabled} />
+              </div>
+              {resizeEnabled && (
+                <div className="grid grid-cols-2 gap-4">
+                  <Input
+                    type="number"
+                    min={64}
+                    max={1920}
+                    value={resize.width}
+                    onChange={(e) => handleResizeChange('width', parseInt(e.target.value, 10))}
+                    className="bg-gray-700 border-gray-600 text-white"
+                    aria-label="Width"
+                  />
+                  <Input
+                    type="number"
+                    min={64}
+                    max={1080}
+                    value={resize.height}
+                    onChange={(e) => handleResizeChange('height', parseInt(e.target.value, 10))}
+                    className="bg-gray-700 border-gray-600 text-white"
+                    aria-label="Height"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="flex items-center gap-2 text-white">
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Filters
+                </Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFilters(DEFAULT_FILTERS)}
+                  disabled={Object.values(filters).every((value) => value === 0)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              </div>
+              {FILTER_CONTROLS.map(({ key, label, min, max }) => (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between text-sm text-gray-300">
+                    <span>{label}</span>
+                    <span>{filters[key]}</span>
+                  </div>
+                  <Slider
+                    value={[filters[key]]}
+                    onValueChange={([value]) => setFilters(prev => ({ ...prev, [key]: value }))}
+                    min={min}
+                    max={max}
+                    step={1}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <ToolActionButton
+              icon={Clapperboard}
+              onClick={handleExport}
+              disabled={!videoFile || !hasEdits}
+              isLoading={isProcessing}
+              loadingText="Exporting..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Export Video
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result Section */}
+      {editedVideo && videoFile && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Download className="h-5 w-5" />
+              Edited Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-300">
+                <strong>Size:</strong> {formatFileSizeMB(editedVideo.size)} (original {formatFileSizeMB(videoFile.size)})
+              </p>
+              <ToolActionButton icon={Download} onClick={handleDownload} variant="secondary">
+                Download
+              </ToolActionButton>
+            </div>
+
+            {editedUrl && (
+              <video
+                src={editedUrl}
+                controls
+                className="w-full rounded-lg"
+                style={{ maxHeight: '300px' }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default VideoEditor;
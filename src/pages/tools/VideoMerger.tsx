@@ -0,0 +1,376 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ArrowDown, ArrowUp, Combine, Download, FileVideo, Settings2, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { mergeVideos, type VideoMergeOptions } from '@/utils/videoProcessor';
+import { captureVideoFrames } from '@/utils/videoFrames';
+import { validateVideoFile } from '@/utils/fileValidation';
+import { useProcessingState } from '@/hooks';
+import { formatFileSizeMB } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+interface Clip {
+  id: number;
+  file: File;
+  thumbnail?: string | undefined;
+}
+
+const RESOLUTIONS = [1080, 720, 480];
+const FRAME_RATES = [24, 30, 60];
+
+const VideoMerger = () => {
+  const nextIdRef = useRef(0);
+  const [clips, setClips] = useState<Clip[]>([]);
+  const [format, setFormat] = useState<VideoMergeOptions['format']>('mp4');
+  const [quality, setQuality] = useState(75);
+  const [resolution, setResolution] = useState<number | undefined>(undefined);
+  const [fps, setFps] = useState<number | undefined>(undefined);
+  const [crossfade, setCrossfade] = useState(false);
+  const [transitionDuration, setTransitionDuration] = useState(1);
+  const [mergedVideo, setMergedVideo] = useState<Blob | null>(null);
+  const [mergedUrl, setMergedUrl] = useState<string>('');
+  const [mergedFormat, setMergedFormat] = useState<VideoMergeOptions['format']>('mp4');
+  const [streamCopied, setStreamCopied] = useState(false);
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const handleFileSelect = useCallback((file: File) => {
+    const validation = validateVideoFile(file);
+    if (!validation.isValid) {
+      toast.error('File validation error: ' + (validation.error ?? 'Invalid video file'));
+      return;
+    }
+
+    const id = nextIdRef.current++;
+    setClips(prev => [...prev, { id, file }]);
+
+    // A frame from the first second identifies the clip in the list
+    captureVideoFrames(file, [0.5], { maxDimension: 96 })
+      .then(([frame]) => {
+        const thumbnail = frame?.canvas.toDataURL('image/jpeg', 0.7);
+        setClips(prev => prev.map(clip => (clip.id === id ? { ...clip, thumbnail } : clip)));
+      })
+      .catch((error) => console.warn('Could not capture clip thumbnail:', error));
+  }, []);
+
+  const moveClip = (index: number, direction: -1 | 1) => {
+    setClips(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeClip = (id: number) => {
+    setClips(prev => prev.filter(clip => clip.id !== id));
+  };
+
+  const handleMerge = useCallback(async () => {
+    if (clips.length < 2) return;
+
+    const signal = startProcessing();
+
+    try {
+      const result = await mergeVideos(
+        clips.map(clip => clip.file),
+        {
+          format,
+          quality,
+          resolution,
+          fps,
+          transition: crossfade ? 'crossfade' : 'none',
+          transitionDuration
+        },
+        (progressData) => updateProgress(progressData.progress),
+        signal
+      );
+
+      setMergedVideo(result.blob);
+      setMergedFormat(format);
+      setStreamCopied(result.streamCopy);
+      if (mergedUrl) {
+        URL.revokeObjectURL(mergedUrl);
+      }
+      setMergedUrl(URL.createObjectURL(result.blob));
+      completeProcessing();
+      toast.success(`${clips.length} clips merged!`);
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Merge cancelled');
+        return;
+      }
+      toast.error('Merge failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [clips, format, quality, resolution, fps, crossfade, transitionDuration, mergedUrl, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  const handleDownload = useCallback(() => {
+    if (!mergedVideo) return;
+
+    downloadBlobWithGeneratedName(
+      mergedVideo,
+      'merged',
+      clips[0]?.file.name,
+      mergedFormat,
+      { showToast: true }
+    );
+  }, [mergedVideo, clips, mergedFormat]);
+
+  // Cleanup URLs on unmount
+  useEffect(() => {
+    return () => {
+      if (mergedUrl) {
+        URL.revokeObjectURL(mergedUrl);
+      }
+    };
+  }, [mergedUrl]);
+
+  const totalSize = clips.reduce((sum, clip) => sum + clip.file.size, 0);
+
+  return (
+    <ToolPageLayout
+      title="Merge Videos"
+      description="Join several clips into one MP4 or WebM. Reorder them, add crossfades, and let clips with different sizes or frame rates be matched automatically. All processing happens in your browser."
+      keywords="merge videos, join videos, combine clips, concatenate video, video joiner"
+      canonicalUrl="https://slixtools.io/tools/merge-videos"
+      pageTitle="Merge Videos Online - sLixTOOLS"
+      pageDescription="Merge video clips into one MP4 or WebM with optional crossfade transitions."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Clips Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FileVideo className="h-5 w-5" />
+              Clips
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['video/*']}
+              fileCategory="video"
+              title="Add Videos"
+              description="Drop several clips at once or add them one by one"
+              multiple
+            />
+
+            {clips.length > 0 && (
+              <div className="space-y-2">
+                <ol className="space-y-2">
+                  {clips.map((clip, index) => (
+                    <li key={clip.id} className="flex items-center gap-3 rounded-lg bg-gray-900/60 p-2">
+                      <span className="w-5 text-center text-sm text-gray-400">{index + 1}</span>
+                      {clip.thumbnail
+                        ? <img src={clip.thumbnail} alt="" className="h-10 w-16 rounded object-cover" />
+                        : <div className="h-10 w-16 animate-pulse rounded bg-gray-800" />}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm text-white">{clip.file.name}</p>
+                        <p className="text-xs text-gray-400">{formatFileSizeMB(clip.file.size)}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Move up"
+                        disabled={index === 0 || isProcessing}
+                        onClick={() => moveClip(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Move down"
+                        disabled={index === clips.length - 1 || isProcessing}
+                        onClick={() => moveClip(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Remove clip"
+                        disabled={isProcessing}
+                        onClick={() => removeClip(clip.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+                <p className="text-xs text-gray-400">
+                  {clips.length} clip{clips.length === 1 ? '' : 's'}, {formatFileSizeMB(totalSize)} in total
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Output Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Output Options
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as VideoMergeOptions['format'])}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  <SelectItem value="mp4">MP4 (H.264)</SelectItem>
+                  <SelectItem value="webm">WebM (VP9)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">Resolution</Label>
+                <Select
+                  value={resolution ? String(resolution) : 'first'}
+                  onValueChange={(value) => setResolution(value === 'first' ? undefined : Number(value))}
+                >
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="first">Match first clip</SelectItem>
+                    {RESOLUTIONS.map((value) => (
+                      <SelectItem key={value} value={String(value)}>{value}p</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Frame Rate</Label>
+                <Select
+                  value={fps ? String(fps) : 'first'}
+                  onValueChange={(value) => setFps(value === 'first' ? undefined : Number(value))}
+                >
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="first">Match first clip</SelectItem>
+                    {FRAME_RATES.map((value) => (
+                      <SelectItem key={value} value={String(value)}>{value} fps</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              Clips with a different size are letterboxed to fit. Matching clips are joined without re-encoding when no other option needs it.
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-white">Quality: {quality}%</Label>
+              <Slider
+                value={[quality]}
+                onValueChange={([value]) => setQuality(value)}
+                min={10}
+                max={100}
+                step={5}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="crossfade" className="text-white">Crossfade between clips</Label>
+                <Switch id="crossfade" checked={crossfade} onCheckedChange={setCrossfade} />
+              </div>
+              {crossfade && (
+                <>
+                  <Slider
+                    value={[transitionDuration]}
+                    onValueChange={([value]) => setTransitionDuration(value)}
+                    min={0.25}
+                    max={3}
+                    step={0.25}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-gray-400">
+                    {transitionDuration}s fade; each transition shortens the result by that much
+                  </p>
+                </>
+              )}
+            </div>
+
+            <ToolActionButton
+              icon={Combine}
+              onClick={handleMerge}
+              disabled={clips.length < 2}
+              isLoading={isProcessing}
+              loadingText="Merging..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Merge {clips.length >= 2 ? `${clips.length} Clips` : 'Clips'}
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result Section */}
+      {mergedVideo && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Download className="h-5 w-5" />
+              Merged Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-300">
+                <strong>{mergedFormat.toUpperCase()}:</strong> {formatFileSizeMB(mergedVideo.size)}
+                {streamCopied && <span className="text-gray-400"> (joined without re-encoding)</span>}
+              </p>
+              <ToolActionButton icon={Download} onClick={handleDownload} variant="secondary">
+                Download
+              </ToolActionButton>
+            </div>
+
+            {mergedUrl && (
+              <video src={mergedUrl} controls className="w-full rounded-lg" style={{ maxHeight: '400px' }} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default VideoMerger;
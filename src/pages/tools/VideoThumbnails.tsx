@@ -0,0 +1,398 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Download, FileArchive, FileVideo, Images, LayoutGrid, Settings2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { validateVideoFile } from '@/utils/fileValidation';
+import {
+  captureVideoFrames,
+  detectSceneChanges,
+  getEvenlySpacedTimes,
+  getIntervalTimes,
+  type CapturedFrame
+} from '@/utils/videoFrames';
+import { buildContactSheet, canvasToImageBlob, exportFramesAsZip, STILL_FORMATS, type StillFormat } from '@/utils/contactSheet';
+import { useProcessingState, useToolFile } from '@/hooks';
+import { formatFileSizeMB, formatTimestamp } from '@/utils/formatters';
+import ToolPageLayout from '@/components/ToolPageLayout';
+import FileUploadArea from '@/components/FileUploadArea';
+import ToolActionButton from '@/components/tools/ToolActionButton';
+import { toast } from 'sonner';
+import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
+
+type SamplingMode = 'count' | 'interval' | 'scenes';
+
+const MAX_FRAMES = 100;
+const FRAME_SIZES = [320, 480, 640, 1280];
+
+const VideoThumbnails = () => {
+  const [duration, setDuration] = useState(0);
+  const [samplingMode, setSamplingMode] = useState<SamplingMode>('count');
+  const [frameCount, setFrameCount] = useState(16);
+  const [intervalSeconds, setIntervalSeconds] = useState(10);
+  const [sceneSensitivity, setSceneSensitivity] = useState(50);
+  const [frameSize, setFrameSize] = useState(480);
+  const [columns, setColumns] = useState(4);
+  const [showTimestamps, setShowTimestamps] = useState(true);
+  const [stillFormat, setStillFormat] = useState<StillFormat>('jpeg');
+  const [frames, setFrames] = useState<CapturedFrame[]>([]);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<{ blob: Blob; url: string } | null>(null);
+  const {
+    progress,
+    isProcessing,
+    startProcessing,
+    updateProgress,
+    completeProcessing,
+    errorProcessing,
+    cancelProcessing
+  } = useProcessingState();
+
+  const {
+    file: videoFile,
+    fileUrl: videoUrl,
+    handleFileSelect
+  } = useToolFile({
+    validateFunction: validateVideoFile,
+    onFileLoad: () => {
+      setDuration(0);
+      setFrames([]);
+      setPreviews([]);
+    },
+    onFileError: (error) => {
+      toast.error('File validation error: ' + error.message);
+    }
+  });
+
+  const baseName = videoFile?.name.replace(/\.[^.]+$/, '') || 'video';
+
+  const handleGenerate = useCallback(async () => {
+    if (!videoFile || duration <= 0) return;
+
+    const signal = startProcessing();
+
+    try {
+      let times: number[];
+      let captureStart = 0;
+      if (samplingMode === 'scenes') {
+        // Higher sensitivity means a smaller change counts as a new scene
+        times = await detectSceneChanges(videoFile, duration, {
+          threshold: 0.6 - (sceneSensitivity / 100) * 0.5,
+          maxScenes: MAX_FRAMES,
+          signal,
+          onProgress: (ratio) => updateProgress(ratio * 50)
+        });
+        captureStart = 50;
+      } else if (samplingMode === 'interval') {
+        times = getIntervalTimes(duration, intervalSeconds, MAX_FRAMES);
+      } else {
+        times = getEvenlySpacedTimes(duration, frameCount);
+      }
+
+      const captured = await captureVideoFrames(videoFile, times, {
+        maxDimension: frameSize,
+        signal,
+        onFrame: (_, index) => updateProgress(captureStart + ((index + 1) / times.length) * (100 - captureStart))
+      });
+
+      setFrames(captured);
+      setPreviews(captured.map((frame) => frame.canvas.toDataURL('image/jpeg', 0.8)));
+      completeProcessing();
+      toast.success(`Captured ${captured.length} frames`);
+    } catch (error) {
+      errorProcessing(error instanceof Error ? error : undefined);
+      if (isCancellationError(error)) {
+        toast.info('Frame capture cancelled');
+        return;
+      }
+      toast.error('Frame capture failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [videoFile, duration, samplingMode, frameCount, intervalSeconds, sceneSensitivity, frameSize, startProcessing, updateProgress, completeProcessing, errorProcessing]);
+
+  // The sheet is rebuilt whenever its layout changes, so the preview always matches the download
+  useEffect(() => {
+    if (frames.length === 0) {
+      setSheet(null);
+      return;
+    }
+
+    let url = '';
+    let cancelled = false;
+    try {
+      const sheet = buildContactSheet(frames, {
+        columns,
+        showTimestamps,
+        title: videoFile?.name,
+        subtitle: `${formatTimestamp(duration, 0)} · ${frames.length} frames`
+      });
+      canvasToImageBlob(sheet, stillFormat).then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setSheet({ blob, url });
+      }).catch((error) => toast.error('Could not build contact sheet: ' + error.message));
+    } catch (error) {
+      toast.error('Could not build contact sheet: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [frames, columns, showTimestamps, stillFormat, videoFile?.name, duration]);
+
+  const handleDownloadSheet = useCallback(() => {
+    if (!sheet) return;
+    downloadBlobWithGeneratedName(sheet.blob, 'contact-sheet', videoFile?.name, STILL_FORMATS[stillFormat].extension, { showToast: true });
+  }, [sheet, videoFile?.name, stillFormat]);
+
+  const handleDownloadZip = useCallback(async () => {
+    if (frames.length === 0) return;
+    try {
+      const zip = await exportFramesAsZip(frames, stillFormat, baseName);
+      downloadBlobWithGeneratedName(zip, 'frames', videoFile?.name, 'zip', { showToast: true });
+    } catch (error) {
+      toast.error('Could not create ZIP: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }, [frames, stillFormat, baseName, videoFile?.name]);
+
+  const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLVideoElement>) => {
+    setDuration(event.currentTarget.duration);
+  };
+
+  const plannedFrames = samplingMode === 'interval'
+    ? Math.min(Math.ceil(duration / intervalSeconds), MAX_FRAMES)
+    : samplingMode === 'count' ? frameCount : undefined;
+
+  return (
+    <ToolPageLayout
+      title="Video Thumbnails"
+      description="Grab stills from a video evenly, every few seconds, or at each scene change, then download them as a ZIP or one contact sheet with timestamps. All processing happens in your browser."
+      keywords="video thumbnails, contact sheet, video frames to images, extract frames, screenshot video, scene detection"
+      canonicalUrl="https://slixtools.io/tools/video-thumbnails"
+      pageTitle="Video Thumbnail & Contact Sheet Generator - sLixTOOLS"
+      pageDescription="Extract video frames as PNG or JPEG stills or a contact sheet grid with timestamps."
+    >
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Upload Section */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FileVideo className="h-5 w-5" />
+              Upload Video
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FileUploadArea
+              onFileSelected={handleFileSelect}
+              acceptedTypes={['video/*']}
+              fileCategory="video"
+              title="Upload Video"
+              description="Supports MP4, WebM, MOV, and more"
+            />
+
+            {videoFile && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-300">
+                  <strong>File:</strong> {videoFile.name} ({formatFileSizeMB(videoFile.size)})
+                </p>
+                {videoUrl && (
+                  <video
+                    src={videoUrl}
+                    controls
+                    onLoadedMetadata={handleLoadedMetadata}
+                    className="w-full rounded-lg"
+                    style={{ maxHeight: '300px' }}
+                  />
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sampling Options */}
+        <Card className="bg-gray-800/50 border-gray-700">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <Settings2 className="h-5 w-5" />
+              Frames
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Sampling</Label>
+              <Select value={samplingMode} onValueChange={(value) => setSamplingMode(value as SamplingMode)}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  <SelectItem value="count">Evenly spaced</SelectItem>
+                  <SelectItem value="interval">Every few seconds</SelectItem>
+                  <SelectItem value="scenes">At scene changes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {samplingMode === 'count' && (
+              <div className="space-y-2">
+                <Label className="text-white">Number of frames: {frameCount}</Label>
+                <Slider
+                  value={[frameCount]}
+                  onValueChange={([value]) => setFrameCount(value)}
+                  min={2}
+                  max={60}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {samplingMode === 'interval' && (
+              <div className="space-y-2">
+                <Label htmlFor="interval" className="text-white">Seconds between frames</Label>
+                <Input
+                  id="interval"
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={intervalSeconds}
+                  onChange={(event) => {
+                    const value = parseFloat(event.target.value);
+                    if (value > 0) setIntervalSeconds(value);
+                  }}
+                  className="bg-gray-700 border-gray-600 text-white"
+                />
+              </div>
+            )}
+
+            {samplingMode === 'scenes' && (
+              <div className="space-y-2">
+                <Label className="text-white">Sensitivity: {sceneSensitivity}%</Label>
+                <Slider
+                  value={[sceneSensitivity]}
+                  onValueChange={([value]) => setSceneSensitivity(value)}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-400">Higher values catch subtler cuts; up to {MAX_FRAMES} scenes are kept</p>
+              </div>
+            )}
+
+            {duration > 0 && plannedFrames !== undefined && (
+              <p className="text-xs text-gray-400">
+                {plannedFrames} frames from {formatTimestamp(duration, 1)} of video
+                {samplingMode === 'interval' && plannedFrames === MAX_FRAMES && ` (limited to ${MAX_FRAMES})`}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-white">Frame size</Label>
+              <Select value={String(frameSize)} onValueChange={(value) => setFrameSize(Number(value))}>
+                <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-700 border-gray-600">
+                  {FRAME_SIZES.map((size) => (
+                    <SelectItem key={size} value={String(size)}>{size}px longest side</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <ToolActionButton
+              icon={Images}
+              onClick={handleGenerate}
+              disabled={!videoFile || duration <= 0}
+              isLoading={isProcessing}
+              loadingText="Capturing..."
+              onCancel={cancelProcessing}
+              fullWidth
+            >
+              Capture Frames
+            </ToolActionButton>
+
+            {isProcessing && (
+              <div className="space-y-2">
+                <Progress value={progress} className="w-full" />
+                <p className="text-sm text-gray-400 text-center">{progress.toFixed(1)}% complete</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Result Section */}
+      {frames.length > 0 && (
+        <Card className="bg-gray-800/50 border-gray-700 mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <LayoutGrid className="h-5 w-5" />
+              {frames.length} Frames
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label className="text-white">Columns: {columns}</Label>
+                <Slider
+                  value={[columns]}
+                  onValueChange={([value]) => setColumns(value)}
+                  min={1}
+                  max={10}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Image format</Label>
+                <Select value={stillFormat} onValueChange={(value) => setStillFormat(value as StillFormat)}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-700 border-gray-600">
+                    <SelectItem value="jpeg">JPEG</SelectItem>
+                    <SelectItem value="png">PNG</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-3 pt-6">
+                <Switch id="timestamps" checked={showTimestamps} onCheckedChange={setShowTimestamps} />
+                <Label htmlFor="timestamps" className="text-white">Timestamps on sheet</Label>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <ToolActionButton icon={Download} onClick={handleDownloadSheet} disabled={!sheet}>
+                Download Contact Sheet
+              </ToolActionButton>
+              <ToolActionButton icon={FileArchive} onClick={handleDownloadZip} variant="secondary">
+                Download {frames.length} Stills (ZIP)
+              </ToolActionButton>
+            </div>
+
+            {sheet && (
+              <img src={sheet.url} alt="Contact sheet" className="w-full rounded-lg border border-gray-700" />
+            )}
+
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+              {previews.map((preview, index) => (
+                <figure key={index} className="space-y-1">
+                  <img src={preview} alt={`Frame at ${formatTimestamp(frames[index].time, 1)}`} className="w-full rounded" />
+                  <figcaption className="text-center text-xs text-gray-400">{formatTimestamp(frames[index].time, 1)}</figcaption>
+                </figure>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </ToolPageLayout>
+  );
+};
+
+export default VideoThumbnails;
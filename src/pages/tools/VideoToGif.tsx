@@ -3,17 +3,28 @@ import { Download, Wand2, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
-import { ConversionOptions as ConversionOptionsType, VideoPreviewProps, GifPreviewProps } from '@/types';
+import { AnimationFormat, ConversionOptions as ConversionOptionsType, CropRegion, VideoPreviewProps, GifPreviewProps } from '@/types';
 import PostConversionOptions from '@/components/PostConversionOptions';
 import ConversionOptionsComponent from '@/components/ConversionOptions';
 import ToolPageLayout from '@/components/ToolPageLayout';
 import FileUploadArea from '@/components/FileUploadArea';
-import { convertVideoToGif } from '@/utils/gifConverter';
+import { ANIMATION_FORMAT_INFO, convertVideoToGif } from '@/utils/gifConverter';
+import { editGif } from '@/utils/gifEditor';
+import { parseGif } from '@/utils/gifDecoder';
 import AnimatedElement from '@/components/AnimatedElement';
 import { useToolErrorHandler, useUrlFileLoader } from '@/hooks';
 import { validateFile } from '@/utils/fileValidation';
 import { downloadBlobWithGeneratedName } from '@/utils/download';
+import { isCancellationError } from '@/utils/cancellation';
 import ToolActionButton from '@/components/tools/ToolActionButton';
+import MediaInfoPanel from '@/components/tools/video/MediaInfoPanel';
+import TrimTimeline from '@/components/tools/video/TrimTimeline';
+import CropSelector from '@/components/tools/video/CropSelector';
+import SubtitleEditor from '@/components/tools/video/SubtitleEditor';
+import PlaybackControls from '@/components/tools/video/PlaybackControls';
+import { DEFAULT_SUBTITLE_STYLE, type SubtitleCue, type SubtitleStyle } from '@/utils/subtitles';
+import { DEFAULT_PLAYBACK_TIMING, isTimingChanged, type PlaybackTiming } from '@/utils/playbackTiming';
+import type { MediaInfo } from '@/utils/mediaProbe';
 
 // Interface definitions
 interface GifResult {
@@ -21,9 +32,20 @@ interface GifResult {
   blob: Blob;
   size: number;
   processingTime: number;
+  width?: number;
+  height?: number;
 }
 
-type ConversionState = 'idle' | 'converting' | 'completed' | 'error';
+// Snapshot kept so post-conversion edits can be undone; URLs are recreated on restore
+interface GifEditSnapshot {
+  blob: Blob;
+  label: string;
+  processingTime: number;
+  width?: number;
+  height?: number;
+}
+
+type ConversionState = 'idle' | 'converting' | 'completed' | 'error' | 'cancelled';
 
 import { config } from '@/config';
 
@@ -44,9 +66,14 @@ const CONFIG = {
 
 // Sub-components defined in the same file for simplicity, but can be moved to separate files
 
-const VideoPreview = React.memo<VideoPreviewProps>(({ file, onDurationChange }) => {
+const VideoPreview = React.memo<VideoPreviewProps>(({ file, onDurationChange, onVideoElement }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  useEffect(() => {
+    onVideoElement?.(videoRef.current);
+    return () => onVideoElement?.(null);
+  }, [onVideoElement]);
+
   useEffect(() => {
     const video = videoRef.current;
     if (!video || !file) return;
@@ -68,7 +95,7 @@ const VideoPreview = React.memo<VideoPreviewProps>(({ file, onDurationChange })
   );
 });
 
-const GifPreview = React.memo<GifPreviewProps>(({ gifBlob, onDownload, isConverting }) => {
+const GifPreview = React.memo<GifPreviewProps>(({ gifBlob, onDownload, isConverting, formatLabel = 'GIF' }) => {
   const [gifUrl, setGifUrl] = useState<string | null>(null);
 
   useEffect(() => {
@@ -91,7 +118,7 @@ const GifPreview = React.memo<GifPreviewProps>(({ gifBlob, onDownload, isConvert
     <div className="w-full max-w-2xl mx-auto flex flex-col items-center">
       <img
         src={gifUrl}
-        alt="Generated GIF"
+        alt={`Generated ${formatLabel}`}
         className="w-full rounded-lg shadow-lg mb-4 border border-gray-700/50"
         loading="lazy"
         decoding="async"
@@ -102,7 +129,7 @@ const GifPreview = React.memo<GifPreviewProps>(({ gifBlob, onDownload, isConvert
         onClick={onDownload}
         disabled={isConverting}
       >
-        Download GIF
+        Download {formatLabel}
       </ToolActionButton>
     </div>
   );
@@ -119,7 +146,16 @@ const VideoToGif = () => {
   const [isConverting, setIsConverting] = useState(false);
   const [progress, setProgress] = useState(0);
   const [showPostOptions, setShowPostOptions] = useState(false);
+  const [resultFormat, setResultFormat] = useState<AnimationFormat>('gif');
+  const [editHistory, setEditHistory] = useState<GifEditSnapshot[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
   const [videoDuration, setVideoDuration] = useState(0);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const [sourceFps, setSourceFps] = useState<number | undefined>(undefined);
+  const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([]);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [timing, setTiming] = useState<PlaybackTiming>(DEFAULT_PLAYBACK_TIMING);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [conversionOptions, setConversionOptions] = useState<ConversionOptionsType>({
     fps: CONFIG.DEFAULT_OPTIONS.fps,
     quality: CONFIG.DEFAULT_OPTIONS.quality,
@@ -146,6 +182,18 @@ const VideoToGif = () => {
     showDetailsAction: true
   });
 
+  const handleCropChange = useCallback((crop: CropRegion | null) => {
+    setConversionOptions(prev => {
+      const next = { ...prev };
+      if (crop) {
+        next.crop = crop;
+      } else {
+        delete next.crop;
+      }
+      return next;
+    });
+  }, []);
+
   const handleFileSelected = useCallback((file: File) => {
     try {
       // Use centralized validation function
@@ -168,6 +216,8 @@ const VideoToGif = () => {
       }
 
       setVideoFile(file);
+      setSourceFps(undefined);
+      handleCropChange(null);
       setGifBlob(null);
       setConversionState('idle');
 
@@ -214,7 +264,16 @@ const VideoToGif = () => {
         fileType: file?.type
       });
     }
-  }, [handleError]);
+  }, [handleError, handleCropChange]);
+
+  // A GIF can't play back faster than the frames the source actually has
+  const handleProbe = useCallback((info: MediaInfo) => {
+    const fps = info.video?.fps;
+    setSourceFps(fps);
+    if (fps) {
+      setConversionOptions(prev => ({ ...prev, fps: Math.min(prev.fps, Math.max(1, Math.round(fps))) }));
+    }
+  }, []);
 
   // Use centralized URL file loader
   const { loadFromUrl } = useUrlFileLoader({
@@ -223,26 +282,73 @@ const VideoToGif = () => {
     onSuccess: handleFileSelected
   });
 
+  const handleTrimChange = useCallback((startTime: number, endTime: number) => {
+    setConversionOptions(prev => ({ ...prev, startTime, endTime }));
+  }, []);
+
   const handleUrlSubmit = useCallback(async (url: string) => {
     await loadFromUrl(url);
   }, [loadFromUrl]);
 
   const handlePostEdit = useCallback(async (editType: string, params?: import('@/types/common').EditParams) => {
-    if (!gifResult) return;
+    if (!gifResult || isEditing) return;
 
+    setIsEditing(true);
     try {
       toast.info(`Applying ${editType}...`);
-      // Here you would implement the actual editing logic
-      // For now, we'll just show a success message
-      toast.success(`${editType} applied successfully!`);
+      const startTime = performance.now();
+      const edited = await editGif(gifResult.blob, editType, params);
+      const processingTime = Math.round(performance.now() - startTime);
+
+      setEditHistory((history) => [
+        ...history,
+        {
+          blob: gifResult.blob,
+          label: editType,
+          processingTime: gifResult.processingTime,
+          ...(gifResult.width !== undefined && { width: gifResult.width }),
+          ...(gifResult.height !== undefined && { height: gifResult.height })
+        }
+      ]);
+      setGifBlob(edited.blob);
+      setGifResult({
+        url: URL.createObjectURL(edited.blob),
+        blob: edited.blob,
+        size: edited.blob.size,
+        processingTime,
+        width: edited.width,
+        height: edited.height
+      });
+      toast.success(`${editType} applied successfully!`, {
+        description: `New size: ${(edited.blob.size / 1024).toFixed(1)} KB`
+      });
     } catch (editError) {
       handleError(
         editError instanceof Error ? editError : new Error(String(editError)),
         'Post-conversion editing',
         { editType, params }
       );
+    } finally {
+      setIsEditing(false);
     }
-  }, [gifResult, handleError]);
+  }, [gifResult, isEditing, handleError]);
+
+  const handleUndoEdit = useCallback(() => {
+    const previous = editHistory[editHistory.length - 1];
+    if (!previous || isEditing) return;
+
+    setEditHistory((history) => history.slice(0, -1));
+    setGifBlob(previous.blob);
+    setGifResult({
+      url: URL.createObjectURL(previous.blob),
+      blob: previous.blob,
+      size: previous.blob.size,
+      processingTime: previous.processingTime,
+      ...(previous.width !== undefined && { width: previous.width }),
+      ...(previous.height !== undefined && { height: previous.height })
+    });
+    toast.info(`Undid ${previous.label}`);
+  }, [editHistory, isEditing]);
 
   const handleDownload = useCallback(() => {
     if (gifBlob) {
@@ -250,11 +356,11 @@ const VideoToGif = () => {
         gifBlob,
         'converted',
         videoFile?.name,
-        'gif',
+        ANIMATION_FORMAT_INFO[resultFormat].extension,
         { showToast: true }
       );
     }
-  }, [gifBlob, videoFile]);
+  }, [gifBlob, videoFile, resultFormat]);
 
   const handleConvert = async () => {
     if (!videoFile) return;
@@ -274,11 +380,16 @@ const VideoToGif = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsConverting(true);
     setConversionState('converting');
     setProgress(0);
     setGifResult(null);
     setShowPostOptions(false);
+    setEditHistory([]);
+
+    const outputFormat = conversionOptions.outputFormat ?? 'gif';
 
     try {
       const startTime = performance.now();
@@ -287,7 +398,14 @@ const VideoToGif = () => {
         quality: conversionOptions.quality,
         startTime: conversionOptions.trimEnabled ? conversionOptions.startTime : 0,
         duration: conversionOptions.trimEnabled && conversionOptions.endTime ? (conversionOptions.endTime - conversionOptions.startTime) : videoDuration,
-        trimEnabled: conversionOptions.trimEnabled
+        trimEnabled: conversionOptions.trimEnabled,
+        ...(conversionOptions.dithering && { dithering: conversionOptions.dithering }),
+        optimizeFrames: conversionOptions.optimizeFrames ?? false,
+        lossy: conversionOptions.lossy ?? 0,
+        outputFormat,
+        ...(conversionOptions.crop && { crop: conversionOptions.crop }),
+        ...(subtitleCues.length > 0 && { subtitles: { cues: subtitleCues, style: subtitleStyle } }),
+        ...(isTimingChanged(timing) && { timing })
       }, (progress: number | { stage: string; message: string; progress: number }) => {
         // Handle progress updates
         if (typeof progress === 'object') {
@@ -296,21 +414,27 @@ const VideoToGif = () => {
           toast.info('Converting...', { description: `${Math.round(progress * 100)}% complete` });
         }
         setProgress(typeof progress === 'number' ? progress : progress.progress / 100);
-      });
+      }, controller.signal);
       const endTime = performance.now();
       const processingTime = Math.round(endTime - startTime);
 
       setGifBlob(gifBlob);
-
-      // Create GIF result with metadata
-      const gifUrl = URL.createObjectURL(gifBlob);
-      setGifResult({
-        url: gifUrl,
-        blob: gifBlob,
-        size: gifBlob.size,
-        processingTime
-      });
-      setShowPostOptions(true);
+      setResultFormat(outputFormat);
+
+      // Post-conversion edits work on GIFs only; WebP and APNG go straight to the preview
+      if (outputFormat === 'gif') {
+        const gifUrl = URL.createObjectURL(gifBlob);
+        const { width, height } = parseGif(await gifBlob.arrayBuffer());
+        setGifResult({
+          url: gifUrl,
+          blob: gifBlob,
+          size: gifBlob.size,
+          processingTime,
+          width,
+          height
+        });
+        setShowPostOptions(true);
+      }
       setConversionState('completed');
 
       const fileSizeMB = (gifBlob.size / 1024 / 1024).toFixed(2);
@@ -318,6 +442,11 @@ const VideoToGif = () => {
         description: `File size: ${fileSizeMB}MB (${processingTime}ms)`
       });
     } catch (conversionError) {
+      if (isCancellationError(conversionError)) {
+        setConversionState('cancelled');
+        toast.info('Conversion cancelled');
+        return;
+      }
       handleError(
         conversionError instanceof Error ? conversionError : new Error(String(conversionError)),
         'Video conversion',
@@ -329,6 +458,7 @@ const VideoToGif = () => {
       );
       setConversionState('error');
     } finally {
+      abortControllerRef.current = null;
       setIsConverting(false);
       // Reset conversion state to idle after a delay to allow UI updates
       setTimeout(() => {
@@ -343,6 +473,13 @@ const VideoToGif = () => {
 
 
 
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Stop a running conversion when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   return (
     <ToolPageLayout
       title="Video to GIF Converter"
@@ -367,7 +504,60 @@ const VideoToGif = () => {
       ) : (
         <div className="space-y-6">
           <AnimatedElement type="fadeIn" delay={0.2}>
-            <VideoPreview file={videoFile} onDurationChange={setVideoDuration} />
+            <CropSelector
+              video={videoElement}
+              crop={conversionOptions.crop ?? null}
+              onChange={handleCropChange}
+              className="w-full max-w-2xl mx-auto"
+            >
+              <VideoPreview file={videoFile} onDurationChange={setVideoDuration} onVideoElement={setVideoElement} />
+            </CropSelector>
+          </AnimatedElement>
+
+          {videoDuration > 0 && (
+            <AnimatedElement type="fadeIn" delay={0.25}>
+              <TrimTimeline
+                file={videoFile}
+                video={videoElement}
+                duration={videoDuration}
+                start={conversionOptions.startTime}
+                end={conversionOptions.endTime || videoDuration}
+                onChange={handleTrimChange}
+                fps={sourceFps}
+                className="w-full max-w-2xl mx-auto"
+              />
+            </AnimatedElement>
+          )}
+
+          {videoDuration > 0 && (
+            <AnimatedElement type="fadeIn" delay={0.25}>
+              <SubtitleEditor
+                cues={subtitleCues}
+                style={subtitleStyle}
+                onCuesChange={setSubtitleCues}
+                onStyleChange={setSubtitleStyle}
+                video={videoElement}
+                className="w-full max-w-2xl mx-auto"
+              />
+            </AnimatedElement>
+          )}
+
+          {videoDuration > 0 && (
+            <AnimatedElement type="fadeIn" delay={0.25}>
+              <PlaybackControls
+                timing={timing}
+                onChange={setTiming}
+                duration={conversionOptions.trimEnabled && conversionOptions.endTime
+                  ? conversionOptions.endTime - conversionOptions.startTime
+                  : videoDuration}
+                video={videoElement}
+                className="w-full max-w-2xl mx-auto"
+              />
+            </AnimatedElement>
+          )}
+
+          <AnimatedElement type="fadeIn" delay={0.3}>
+            <MediaInfoPanel file={videoFile} onProbe={handleProbe} />
           </AnimatedElement>
 
           <AnimatedElement type="fadeIn" delay={0.4}>
@@ -382,6 +572,7 @@ const VideoToGif = () => {
                 disabled={isConverting}
                 isLoading={isConverting}
                 loadingText="Converting..."
+                onCancel={handleCancel}
                 fullWidth
               >
                 Convert to GIF
@@ -410,6 +601,9 @@ const VideoToGif = () => {
                 gifResult={gifResult}
                 onDownload={handleDownload}
                 onEdit={handlePostEdit}
+                onUndo={handleUndoEdit}
+                appliedEdits={editHistory.map((snapshot) => snapshot.label)}
+                isEditing={isEditing}
               />
             </AnimatedElement>
           )}
@@ -418,9 +612,14 @@ const VideoToGif = () => {
             <AnimatedElement type="fadeIn" delay={0.2}>
               <div className="mt-8">
                 <h2 className="text-2xl font-bold mb-4 text-center bg-gradient-to-r from-green-400 to-blue-400 bg-clip-text text-transparent">
-                  Your GIF is Ready!
+                  Your {ANIMATION_FORMAT_INFO[resultFormat].label} is Ready!
                 </h2>
-                <GifPreview gifBlob={gifBlob} onDownload={handleDownload} isConverting={isConverting} />
+                <GifPreview
+                  gifBlob={gifBlob}
+                  onDownload={handleDownload}
+                  isConverting={isConverting}
+                  formatLabel={ANIMATION_FORMAT_INFO[resultFormat].label}
+                />
               </div>
             </AnimatedElement>
           )}
@@ -9,8 +9,25 @@ export interface ConversionOptions {
   duration?: number;
   width?: number;
   height?: number;
+  dithering?: import('@/utils/gifDither').DitherMethod;
+  optimizeFrames?: boolean; // Crop frames to changed regions instead of writing every frame in full
+  lossy?: number; // Lossy LZW strength, 0 = lossless
+  outputFormat?: AnimationFormat;
+  crop?: CropRegion; // Only this part of the frame is converted
+  subtitles?: import('@/utils/subtitles').SubtitleTrack; // Burned into every frame
+  timing?: import('@/utils/playbackTiming').PlaybackTiming; // Speed and direction of the trimmed clip
 }
 
+// Crop rectangle as fractions (0-1) of the displayed frame, so it holds at any resolution
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AnimationFormat = 'gif' | 'webp' | 'apng';
+
 export interface VideoFile {
   file: File;
   url: string;
@@ -35,12 +52,14 @@ export type { ToolConfig as ToolItem } from '@/config/toolsData';
 export interface VideoPreviewProps {
   file: File | null;
   onDurationChange?: (duration: number) => void;
+  onVideoElement?: ((video: HTMLVideoElement | null) => void) | undefined; // Exposes the element so a trim timeline can follow it
 }
 
 export interface GifPreviewProps {
   gifBlob: Blob | null;
   onDownload: () => void;
   isConverting: boolean;
+  formatLabel?: string; // Shown on the download button, defaults to GIF
 }
 
 export interface ConversionOptionsProps {
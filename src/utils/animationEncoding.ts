@@ -0,0 +1,80 @@
+/**
+ * Helpers shared by the animation encoders.
+ * Byte assembly for container chunks and the bounding box of pixels that
+ * changed between frames, which APNG, WebP and GIF output all crop to.
+ */
+
+interface PixelBounds {
+  left: number;
+  top: number;
+  right: number; // Exclusive
+  bottom: number; // Exclusive
+}
+
+interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Join byte arrays into one
+ * @param parts - Arrays in output order
+ */
+export const concat = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Bounds that contain no pixels yet; extendBounds grows them
+export const emptyBounds = (): PixelBounds => ({ left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity });
+
+export const extendBounds = (bounds: PixelBounds, x: number, y: number): void => {
+  if (x < bounds.left) bounds.left = x;
+  if (x >= bounds.right) bounds.right = x + 1;
+  if (y < bounds.top) bounds.top = y;
+  if (y >= bounds.bottom) bounds.bottom = y + 1;
+};
+
+export const isEmptyBounds = (bounds: PixelBounds): boolean =>
+  bounds.right <= bounds.left || bounds.bottom <= bounds.top;
+
+/**
+ * Bounding box of pixels that differ between two RGBA buffers
+ * @param current - Frame being encoded
+ * @param previous - Frame already on screen, same size
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @returns The changed rectangle, or null if the frames are identical
+ */
+export const changedRect = (
+  current: Uint8ClampedArray,
+  previous: Uint8ClampedArray,
+  width: number,
+  height: number
+): PixelRect | null => {
+  const bounds = emptyBounds();
+  const current32 = new Uint32Array(current.buffer, current.byteOffset, width * height);
+  const previous32 = new Uint32Array(previous.buffer, previous.byteOffset, width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (current32[y * width + x] !== previous32[y * width + x]) {
+        extendBounds(bounds, x, y);
+      }
+    }
+  }
+
+  if (isEmptyBounds(bounds)) return null;
+  return { left: bounds.left, top: bounds.top, width: bounds.right - bounds.left, height: bounds.bottom - bounds.top };
+};
+
+// Export types
+export { type PixelBounds, type PixelRect };
@@ -0,0 +1,226 @@
+/**
+ * Animated PNG (APNG) encoder for full-color RGBA frames.
+ * Frames after the first are cropped to the region that changed and written with
+ * the SOURCE blend op, so output is lossless with full alpha. Deflate runs through
+ * the browser's CompressionStream.
+ */
+
+import { throwIfAborted } from './cancellation';
+import { changedRect, concat } from './animationEncoding';
+
+interface ApngFrame {
+  pixels: Uint8ClampedArray; // RGBA, full canvas size
+  delay: number; // ms
+}
+
+interface ApngEncodeOptions {
+  width: number;
+  height: number;
+  loopCount?: number | undefined; // 0 = forever
+}
+
+class ApngEncodeError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'ApngEncodeError';
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const BYTES_PER_PIXEL = 4;
+const DISPOSE_OP_NONE = 0;
+const BLEND_OP_SOURCE = 0;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (parts: Uint8Array[]): number => {
+  let crc = 0xffffffff;
+  for (const bytes of parts) {
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+};
+
+const uint16 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+};
+
+// Length, type, data and CRC over type + data
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeBytes = new TextEncoder().encode(type);
+  return concat([uint32(data.length), typeBytes, data, uint32(crc32([typeBytes, data]))]);
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+/**
+ * Filter a sub-rectangle of an RGBA buffer into PNG scanlines,
+ * picking the filter per row with the minimum-sum-of-absolute-differences heuristic
+ */
+const filterScanlines = (
+  pixels: Uint8ClampedArray,
+  canvasWidth: number,
+  left: number,
+  top: number,
+  width: number,
+  height: number
+): Uint8Array => {
+  const stride = width * BYTES_PER_PIXEL;
+  const out = new Uint8Array(height * (stride + 1));
+  const row = new Uint8Array(stride);
+  const previous = new Uint8Array(stride);
+  const candidates = Array.from({ length: 5 }, () => new Uint8Array(stride));
+
+  for (let y = 0; y < height; y++) {
+    const start = ((top + y) * canvasWidth + left) * BYTES_PER_PIXEL;
+    row.set(pixels.subarray(start, start + stride));
+
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    for (let filter = 0; filter < 5; filter++) {
+      const target = candidates[filter];
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const a = i >= BYTES_PER_PIXEL ? row[i - BYTES_PER_PIXEL] : 0;
+        const b = y > 0 ? previous[i] : 0;
+        const c = i >= BYTES_PER_PIXEL && y > 0 ? previous[i - BYTES_PER_PIXEL] : 0;
+        let value: number;
+        switch (filter) {
+          case 1: value = row[i] - a; break;
+          case 2: value = row[i] - b; break;
+          case 3: value = row[i] - ((a + b) >> 1); break;
+          case 4: value = row[i] - paeth(a, b, c); break;
+          default: value = row[i];
+        }
+        target[i] = value & 0xff;
+        // Treat bytes as signed so small negative residuals score low
+        score += target[i] < 128 ? target[i] : 256 - target[i];
+        if (score >= bestScore) break;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+      }
+    }
+
+    const offset = y * (stride + 1);
+    out[offset] = bestFilter;
+    out.set(candidates[bestFilter], offset + 1);
+    previous.set(row);
+  }
+
+  return out;
+};
+
+const deflate = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  if (typeof CompressionStream === 'undefined') {
+    throw new ApngEncodeError('This browser does not support CompressionStream, which APNG output needs', 'compressing');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encode RGBA frames into an animated PNG
+ * @param frames - Full-canvas RGBA frames with delays in ms
+ * @param options - Canvas size and loop count
+ * @param onProgress - Called after each frame with (encoded, total)
+ * @param signal - Stops encoding before the next frame
+ * @returns APNG file as a Blob
+ */
+export const encodeApng = async (
+  frames: ApngFrame[],
+  options: ApngEncodeOptions,
+  onProgress?: (encoded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { width, height, loopCount = 0 } = options;
+  if (frames.length === 0) {
+    throw new ApngEncodeError('No frames to encode', 'validation');
+  }
+
+  // Identical consecutive frames are merged into the previous frame's delay
+  const merged: ApngFrame[] = [];
+  for (const frame of frames) {
+    const last = merged[merged.length - 1];
+    if (last && !changedRect(frame.pixels, last.pixels, width, height)) {
+      merged[merged.length - 1] = { ...last, delay: last.delay + frame.delay };
+    } else {
+      merged.push(frame);
+    }
+  }
+
+  const ihdr = concat([uint32(width), uint32(height), new Uint8Array([8, 6, 0, 0, 0])]);
+  const parts: Uint8Array[] = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', ihdr),
+    chunk('acTL', concat([uint32(merged.length), uint32(loopCount)]))
+  ];
+
+  let sequence = 0;
+  for (let index = 0; index < merged.length; index++) {
+    throwIfAborted(signal);
+    const frame = merged[index];
+    // The first frame doubles as the default image and must cover the whole canvas
+    const rect = index === 0
+      ? { left: 0, top: 0, width, height }
+      : changedRect(frame.pixels, merged[index - 1].pixels, width, height) ?? { left: 0, top: 0, width: 1, height: 1 };
+
+    parts.push(chunk('fcTL', concat([
+      uint32(sequence++),
+      uint32(rect.width),
+      uint32(rect.height),
+      uint32(rect.left),
+      uint32(rect.top),
+      uint16(Math.min(0xffff, Math.round(frame.delay))),
+      uint16(1000),
+      new Uint8Array([DISPOSE_OP_NONE, BLEND_OP_SOURCE])
+    ])));
+
+    const compressed = await deflate(
+      filterScanlines(frame.pixels, width, rect.left, rect.top, rect.width, rect.height) as Uint8Array<ArrayBuffer>
+    );
+    parts.push(index === 0
+      ? chunk('IDAT', compressed)
+      : chunk('fdAT', concat([uint32(sequence++), compressed])));
+
+    onProgress?.(index + 1, merged.length);
+  }
+
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob([concat(parts)], { type: 'image/apng' });
+};
+
+// Export types and error class
+export {
+  ApngEncodeError,
+  type ApngFrame,
+  type ApngEncodeOptions
+};
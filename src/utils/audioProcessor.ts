@@ -0,0 +1,345 @@
+/**
+ * Audio conversion on the shared FFmpeg WASM session.
+ * Handles format conversion, bitrate/VBR, resampling, channel mixdown, trimming,
+ * tag editing and pulling the audio track out of videos, plus a low-resolution
+ * decode for drawing waveform previews.
+ */
+
+import { getToolOptimization } from '../config/performance';
+import { ProcessingCancelledError } from './cancellation';
+import { runFFmpegJob } from './ffmpegSession';
+import { probeJobInput, type MediaInfo } from './mediaProbe';
+import type { ProgressCallback } from './videoProcessor';
+
+class AudioProcessingError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'AudioProcessingError';
+  }
+}
+
+type AudioFormat = 'mp3' | 'wav' | 'flac' | 'aac' | 'ogg' | 'opus';
+type AudioBitrateMode = 'cbr' | 'vbr';
+
+// Tags written as ID3 for MP3, iTunes atoms for AAC and Vorbis comments for FLAC/OGG/Opus
+interface AudioMetadata {
+  title?: string | undefined;
+  artist?: string | undefined;
+  album?: string | undefined;
+  date?: string | undefined;
+  genre?: string | undefined;
+  track?: string | undefined;
+  comment?: string | undefined;
+}
+
+interface AudioConvertOptions {
+  format: AudioFormat;
+  bitrateMode?: AudioBitrateMode | undefined; // Lossy formats only, defaults to 'cbr'
+  bitrate?: number | undefined; // kbps; the target for CBR and Opus VBR
+  vbrQuality?: number | undefined; // 0-100, higher is better; used for VBR except Opus
+  sampleRate?: number | undefined; // Hz, keeps the source rate when omitted
+  channels?: 1 | 2 | undefined; // Mix down to mono or stereo, keeps the source layout when omitted
+  metadata?: AudioMetadata | undefined; // Empty strings remove a tag; omitted tags are copied from the source
+  trim?: { start: number; end: number } | undefined; // seconds
+  streamCopy?: boolean | undefined; // Keep the source audio as-is when it already suits the format, see getCopyFormat
+}
+
+interface AudioFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  encoder: string;
+  lossless: boolean;
+  sampleRates: number[]; // Rates the encoder accepts
+  defaultBitrate: number; // kbps
+}
+
+interface AudioWaveform {
+  peaks: number[]; // 0-1 per bucket
+  duration: number; // seconds
+}
+
+interface AudioAnalysis {
+  info: MediaInfo;
+  waveform: AudioWaveform;
+}
+
+const COMMON_SAMPLE_RATES = [8000, 11025, 16000, 22050, 32000, 44100, 48000];
+// PCM variants the WAV muxer accepts; big-endian PCM (QuickTime twos/in24) has to be transcoded
+const WAV_PCM_CODECS = ['pcm_u8', 'pcm_s16le', 'pcm_s24le', 'pcm_s32le', 'pcm_f32le', 'pcm_f64le', 'pcm_alaw', 'pcm_mulaw'];
+
+const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', encoder: 'libmp3lame', lossless: false, sampleRates: COMMON_SAMPLE_RATES, defaultBitrate: 192 },
+  aac: { label: 'AAC (M4A)', extension: 'm4a', mimeType: 'audio/mp4', encoder: 'aac', lossless: false, sampleRates: [...COMMON_SAMPLE_RATES, 88200, 96000], defaultBitrate: 160 },
+  ogg: { label: 'OGG Vorbis', extension: 'ogg', mimeType: 'audio/ogg', encoder: 'libvorbis', lossless: false, sampleRates: [...COMMON_SAMPLE_RATES, 88200, 96000], defaultBitrate: 160 },
+  opus: { label: 'Opus', extension: 'opus', mimeType: 'audio/ogg', encoder: 'libopus', lossless: false, sampleRates: [8000, 12000, 16000, 24000, 48000], defaultBitrate: 128 },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac', encoder: 'flac', lossless: true, sampleRates: [...COMMON_SAMPLE_RATES, 88200, 96000], defaultBitrate: 0 },
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav', encoder: 'pcm_s16le', lossless: true, sampleRates: [...COMMON_SAMPLE_RATES, 88200, 96000], defaultBitrate: 0 }
+};
+
+const METADATA_KEYS: (keyof AudioMetadata)[] = ['title', 'artist', 'album', 'date', 'genre', 'track', 'comment'];
+
+// Input files live in FFmpeg's in-memory filesystem next to the output
+const MAX_INPUT_SIZE = getToolOptimization('audio-tools').memoryLimit * 1024 * 1024;
+const MAX_VIDEO_INPUT_SIZE = 500 * 1024 * 1024; // Same limit as video compression
+const WAVEFORM_MAX_SAMPLES = 2_000_000; // 8 MB of float samples
+const WAVEFORM_MAX_RATE = 8000;
+const WAVEFORM_MIN_RATE = 100;
+
+const getInputName = (file: File, prefix: string): string => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return `${prefix}.${extension || 'bin'}`;
+};
+
+const validateInput = (file: File) => {
+  if (file.size === 0) {
+    throw new AudioProcessingError('Audio file is empty', 'validation');
+  }
+  const maxSize = file.type.startsWith('video/') ? MAX_VIDEO_INPUT_SIZE : MAX_INPUT_SIZE;
+  if (file.size > maxSize) {
+    throw new AudioProcessingError(
+      `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds maximum allowed (${Math.round(maxSize / 1024 / 1024)}MB)`,
+      'validation'
+    );
+  }
+};
+
+// Closest rate the encoder accepts, e.g. 44100 -> 48000 for Opus
+const pickSampleRate = (format: AudioFormat, sampleRate: number): number =>
+  AUDIO_FORMATS[format].sampleRates.reduce((best, rate) =>
+    Math.abs(rate - sampleRate) < Math.abs(best - sampleRate) ? rate : best
+  );
+
+// Bitrate or VBR quality arguments for the chosen encoder
+const buildRateArgs = (options: AudioConvertOptions): string[] => {
+  const format = AUDIO_FORMATS[options.format];
+  if (format.lossless) {
+    return options.format === 'flac' ? ['-compression_level', '5'] : [];
+  }
+
+  const bitrate = `${options.bitrate || format.defaultBitrate}k`;
+  const quality = Math.min(Math.max(options.vbrQuality ?? 70, 0), 100) / 100;
+
+  if (options.format === 'opus') {
+    // Opus is always bitrate-driven; VBR only lets it deviate from the target
+    return ['-b:a', bitrate, '-vbr', options.bitrateMode === 'vbr' ? 'on' : 'off'];
+  }
+  if (options.bitrateMode !== 'vbr') {
+    return ['-b:a', bitrate];
+  }
+
+  switch (options.format) {
+    case 'mp3':
+      return ['-q:a', String(Math.round(9 - quality * 9))]; // LAME V9 (smallest) to V0 (best)
+    case 'ogg':
+      return ['-q:a', String(Math.round(quality * 10))]; // Vorbis q0 to q10
+    default:
+      return ['-q:a', (0.1 + quality * 1.9).toFixed(2)]; // FFmpeg AAC VBR 0.1 to 2
+  }
+};
+
+const buildMetadataArgs = (options: AudioConvertOptions): string[] => {
+  const args = ['-map_metadata', '0'];
+  for (const key of METADATA_KEYS) {
+    const value = options.metadata?.[key];
+    if (value !== undefined) {
+      args.push('-metadata', `${key}=${value.trim()}`);
+    }
+  }
+  if (options.format === 'mp3') {
+    args.push('-id3v2_version', '3'); // Most widely read ID3 version
+  }
+  return args;
+};
+
+/**
+ * The format an audio codec can be saved as without re-encoding
+ * @param codec - Probed codec name, e.g. aac
+ * @returns Matching format, or undefined if the audio has to be transcoded
+ */
+export const getCopyFormat = (codec: string): AudioFormat | undefined => {
+  if (WAV_PCM_CODECS.includes(codec)) return 'wav';
+  const formats: Record<string, AudioFormat> = { mp3: 'mp3', aac: 'aac', opus: 'opus', vorbis: 'ogg', flac: 'flac' };
+  return formats[codec];
+};
+
+/**
+ * Read existing tags from probed container metadata
+ * @param info - Probe result
+ * @returns Known tags, keyed case-insensitively
+ */
+export const getAudioMetadata = (info: MediaInfo): AudioMetadata => {
+  const metadata: AudioMetadata = {};
+  for (const [key, value] of Object.entries(info.metadata)) {
+    const name = key.toLowerCase() as keyof AudioMetadata;
+    if (METADATA_KEYS.includes(name)) {
+      metadata[name] = value;
+    }
+  }
+  return metadata;
+};
+
+/**
+ * Convert an audio file, or extract the audio track of a video
+ * @param file - Audio or video file
+ * @param options - Output format, rate control, sample rate, channels, tags and trim range
+ * @param onProgress - Progress callback
+ * @param signal - Terminates FFmpeg when aborted
+ * @returns Converted audio
+ */
+export const convertAudio = async (
+  file: File,
+  options: AudioConvertOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  validateInput(file);
+  const { trim } = options;
+  if (trim && !(trim.start >= 0 && trim.end > trim.start)) {
+    throw new AudioProcessingError('Trim end must be after the start', 'validation');
+  }
+  const format = AUDIO_FORMATS[options.format];
+  const inputName = getInputName(file, 'input');
+  const outputName = `output.${format.extension}`;
+
+  try {
+    onProgress?.({ stage: 'loading', progress: 5, message: 'Loading FFmpeg...' });
+
+    const data = await runFFmpegJob(async (job) => {
+      onProgress?.({ stage: 'loading', progress: 10, message: 'Reading audio...' });
+      await job.writeFile(inputName, new Uint8Array(await file.arrayBuffer()));
+
+      const info = await probeJobInput(job, inputName);
+      if (!info.audio) {
+        throw new AudioProcessingError('The file does not contain an audio track', 'validation');
+      }
+
+      // Seeking before the input skips straight to the start instead of decoding up to it
+      const args = trim
+        ? ['-ss', trim.start.toFixed(3), '-i', inputName, '-t', (trim.end - trim.start).toFixed(3)]
+        : ['-i', inputName];
+      args.push('-vn', '-map', '0:a:0');
+
+      const copy = options.streamCopy && getCopyFormat(info.audio.codec) === options.format;
+      if (copy) {
+        args.push('-c:a', 'copy');
+      } else {
+        args.push('-c:a', format.encoder, ...buildRateArgs(options));
+        const sampleRate = options.sampleRate ?? info.audio.sampleRate;
+        if (sampleRate) {
+          const supportedRate = pickSampleRate(options.format, sampleRate);
+          if (options.sampleRate || supportedRate !== sampleRate) {
+            args.push('-ar', String(supportedRate));
+          }
+        }
+        if (options.channels) {
+          args.push('-ac', String(options.channels));
+        } else if ((info.audio.channels ?? 0) > 2 && options.format === 'mp3') {
+          args.push('-ac', '2'); // LAME can't encode surround
+        }
+      }
+      args.push(...buildMetadataArgs(options), outputName);
+
+      onProgress?.({ stage: 'encoding', progress: 15, message: copy ? 'Copying audio track...' : `Encoding ${format.label}...` });
+      await job.exec(args);
+      return job.readFile(outputName);
+    }, {
+      signal,
+      onProgress: (ratio) => onProgress?.({
+        stage: 'encoding',
+        progress: 15 + ratio * 80,
+        message: `Encoding ${format.label}... ${Math.round(ratio * 100)}%`
+      })
+    });
+
+    onProgress?.({ stage: 'complete', progress: 100, message: 'Conversion complete!' });
+    return new Blob([data], { type: format.mimeType });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('Audio conversion cancelled');
+    }
+    if (error instanceof AudioProcessingError || error instanceof ProcessingCancelledError) {
+      throw error;
+    }
+    throw new AudioProcessingError(
+      `Audio conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'encoding',
+      error instanceof Error ? error : undefined
+    );
+  }
+};
+
+// Peak amplitude per bucket, normalised so the loudest bucket reaches 1
+const computePeaks = (samples: Float32Array, bucketCount: number): number[] => {
+  const peaks = new Array<number>(bucketCount).fill(0);
+  const bucketSize = samples.length / bucketCount;
+  let loudest = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const bucket = Math.min(bucketCount - 1, Math.floor(i / bucketSize));
+    const amplitude = Math.abs(samples[i]);
+    if (amplitude > peaks[bucket]) peaks[bucket] = amplitude;
+    if (amplitude > loudest) loudest = amplitude;
+  }
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+};
+
+/**
+ * Probe an audio file and decode a mono, low sample rate copy for its waveform
+ * @param file - Audio or video file
+ * @param bucketCount - Number of waveform bars
+ * @param signal - Cancels the analysis
+ * @returns Media details and waveform peaks
+ */
+export const analyzeAudio = async (file: File, bucketCount = 600, signal?: AbortSignal): Promise<AudioAnalysis> => {
+  validateInput(file);
+  const inputName = getInputName(file, 'waveform');
+
+  try {
+    return await runFFmpegJob(async (job) => {
+      await job.writeFile(inputName, new Uint8Array(await file.arrayBuffer()));
+      const info = await probeJobInput(job, inputName);
+      if (!info.audio) {
+        throw new AudioProcessingError('The file does not contain an audio track', 'validation');
+      }
+
+      // Long files are decoded at a lower rate to keep the sample buffer bounded
+      const duration = info.duration ?? 0;
+      const rate = duration > 0
+        ? Math.max(WAVEFORM_MIN_RATE, Math.min(WAVEFORM_MAX_RATE, Math.floor(WAVEFORM_MAX_SAMPLES / duration)))
+        : WAVEFORM_MAX_RATE;
+      await job.exec(['-i', inputName, '-vn', '-map', '0:a:0', '-ac', '1', '-ar', String(rate), '-f', 'f32le', '-c:a', 'pcm_f32le', 'waveform.raw']);
+      const raw = await job.readFile('waveform.raw');
+      const samples = new Float32Array(raw.buffer, raw.byteOffset, Math.floor(raw.byteLength / 4));
+
+      return {
+        info,
+        waveform: {
+          peaks: computePeaks(samples, Math.max(1, Math.min(bucketCount, samples.length))),
+          duration: duration || samples.length / rate
+        }
+      };
+    }, { signal });
+  } catch (error) {
+    if (error instanceof AudioProcessingError || error instanceof ProcessingCancelledError) {
+      throw error;
+    }
+    throw new AudioProcessingError(
+      `Could not read audio: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'decoding',
+      error instanceof Error ? error : undefined
+    );
+  }
+};
+
+// Export types and error class
+export {
+  AudioProcessingError,
+  AUDIO_FORMATS,
+  type AudioFormat,
+  type AudioBitrateMode,
+  type AudioMetadata,
+  type AudioConvertOptions,
+  type AudioFormatInfo,
+  type AudioWaveform,
+  type AudioAnalysis
+};
@@ -0,0 +1,56 @@
+/**
+ * Shared helpers for cancelling long-running processors through an AbortSignal.
+ * Processors throw ProcessingCancelledError when their signal aborts, and callers
+ * use isCancellationError to tell a cancellation apart from a real failure.
+ */
+
+class ProcessingCancelledError extends Error {
+  constructor(message: string = 'Processing was cancelled') {
+    super(message);
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+/**
+ * Throw a ProcessingCancelledError if the signal has already been aborted
+ * @param signal - Optional abort signal passed to a processor
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new ProcessingCancelledError();
+  }
+};
+
+/**
+ * Run a callback once when the signal aborts
+ * @param signal - Optional abort signal passed to a processor
+ * @param callback - Cleanup to run on abort, e.g. terminating a worker
+ * @returns Function that removes the listener once the work has settled
+ */
+export const onAbort = (signal: AbortSignal | undefined, callback: () => void): (() => void) => {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    callback();
+    return () => {};
+  }
+  signal.addEventListener('abort', callback, { once: true });
+  return () => signal.removeEventListener('abort', callback);
+};
+
+/**
+ * Check whether an error (or any error it wraps) means the work was cancelled
+ * @param error - Value caught from a processor
+ */
+export const isCancellationError = (error: unknown): boolean => {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    if (current instanceof ProcessingCancelledError || current.name === 'AbortError') {
+      return true;
+    }
+    current = (current as Error & { originalError?: unknown }).originalError;
+  }
+  return false;
+};
+
+// Export error class
+export { ProcessingCancelledError };
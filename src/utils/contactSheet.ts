@@ -0,0 +1,153 @@
+/**
+ * Contact sheets and still exports for captured video frames.
+ * Frames come from captureVideoFrames; they are either laid out on a single
+ * labelled grid image or packed into a ZIP as individual stills.
+ */
+
+import type { CapturedFrame } from './videoFrames';
+import { formatTimestamp } from './formatters';
+
+class ContactSheetError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'ContactSheetError';
+  }
+}
+
+type StillFormat = 'png' | 'jpeg';
+
+interface ContactSheetOptions {
+  columns: number;
+  showTimestamps?: boolean | undefined; // Defaults to true
+  title?: string | undefined; // Printed above the grid, e.g. the file name
+  subtitle?: string | undefined; // Smaller line under the title, e.g. duration and resolution
+  gap?: number | undefined; // px between cells, defaults to 8
+  background?: string | undefined;
+}
+
+const STILL_FORMATS: Record<StillFormat, { mimeType: string; extension: string; quality?: number }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg', quality: 0.92 }
+};
+
+const MAX_SHEET_DIMENSION = 16384; // Browsers refuse larger canvases
+
+/**
+ * Encode a canvas as a PNG or JPEG
+ * @param canvas - Image to encode
+ * @param format - Output format
+ */
+export const canvasToImageBlob = (canvas: HTMLCanvasElement, format: StillFormat): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const { mimeType, quality } = STILL_FORMATS[format];
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new ContactSheetError('Failed to encode image', 'encoding'));
+    }, mimeType, quality);
+  });
+
+/**
+ * Lay frames out on a grid with optional timestamps and a header
+ * @param frames - Captured frames, all the same size
+ * @param options - Columns, labels, header text, spacing and background
+ * @returns The sheet as a canvas
+ */
+export const buildContactSheet = (frames: CapturedFrame[], options: ContactSheetOptions): HTMLCanvasElement => {
+  if (frames.length === 0) {
+    throw new ContactSheetError('No frames to lay out', 'validation');
+  }
+  const { showTimestamps = true, title, subtitle, gap = 8, background = '#111827' } = options;
+  const columns = Math.max(1, Math.min(options.columns, frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const cellWidth = frames[0].canvas.width;
+  const cellHeight = frames[0].canvas.height;
+
+  const titleSize = Math.max(14, Math.round(cellWidth / 12));
+  const subtitleSize = Math.round(titleSize * 0.7);
+  const headerHeight = (title ? titleSize * 1.5 : 0) + (subtitle ? subtitleSize * 1.5 : 0) + (title || subtitle ? gap : 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns * cellWidth + (columns + 1) * gap;
+  canvas.height = Math.round(headerHeight + rows * cellHeight + (rows + 1) * gap);
+  if (canvas.width > MAX_SHEET_DIMENSION || canvas.height > MAX_SHEET_DIMENSION) {
+    throw new ContactSheetError('The contact sheet is too large; use fewer frames or a smaller frame size', 'validation');
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new ContactSheetError('Failed to get canvas context', 'processing');
+  }
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  let headerY = gap;
+  if (title) {
+    ctx.font = `bold ${titleSize}px Arial, Helvetica, sans-serif`;
+    ctx.fillText(title, gap, headerY, canvas.width - gap * 2);
+    headerY += titleSize * 1.5;
+  }
+  if (subtitle) {
+    ctx.font = `${subtitleSize}px Arial, Helvetica, sans-serif`;
+    ctx.fillStyle = '#9ca3af';
+    ctx.fillText(subtitle, gap, headerY, canvas.width - gap * 2);
+  }
+
+  const labelSize = Math.max(10, Math.round(cellHeight / 10));
+  frames.forEach((frame, index) => {
+    const x = gap + (index % columns) * (cellWidth + gap);
+    const y = headerHeight + gap + Math.floor(index / columns) * (cellHeight + gap);
+    ctx.drawImage(frame.canvas, x, y, cellWidth, cellHeight);
+
+    if (showTimestamps) {
+      const label = formatTimestamp(frame.time, 1);
+      ctx.font = `bold ${labelSize}px Arial, Helvetica, sans-serif`;
+      const padding = Math.round(labelSize / 3);
+      const labelWidth = ctx.measureText(label).width + padding * 2;
+      const labelHeight = labelSize + padding * 2;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+      ctx.fillRect(x + cellWidth - labelWidth, y + cellHeight - labelHeight, labelWidth, labelHeight);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(label, x + cellWidth - labelWidth + padding, y + cellHeight - labelHeight + padding);
+    }
+  });
+
+  return canvas;
+};
+
+/**
+ * Pack frames into a ZIP of stills named by position and timestamp
+ * @param frames - Captured frames
+ * @param format - Image format of each still
+ * @param baseName - File name prefix, e.g. the video name without extension
+ * @param onProgress - 0-1 progress callback
+ * @returns The ZIP archive
+ */
+export const exportFramesAsZip = async (
+  frames: CapturedFrame[],
+  format: StillFormat,
+  baseName: string,
+  onProgress?: (ratio: number) => void
+): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const { extension } = STILL_FORMATS[format];
+  const digits = String(frames.length).length;
+
+  for (const [index, frame] of frames.entries()) {
+    const time = formatTimestamp(frame.time, 2).replace(':', 'm').replace('.', 's');
+    zip.file(`${baseName}_${String(index + 1).padStart(digits, '0')}_${time}.${extension}`, await canvasToImageBlob(frame.canvas, format));
+    onProgress?.((index + 1) / frames.length);
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Export types and error class
+export {
+  ContactSheetError,
+  STILL_FORMATS,
+  type ContactSheetOptions,
+  type StillFormat
+};
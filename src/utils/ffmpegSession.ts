@@ -0,0 +1,275 @@
+/**
+ * Shared FFmpeg WASM session.
+ * The core is loaded lazily on first use and kept alive between jobs, so video
+ * tools no longer re-download and re-instantiate it for every conversion.
+ * Jobs run one at a time, files they leave in the virtual filesystem are
+ * removed afterwards, and the instance is torn down after a period of inactivity.
+ */
+
+import type { FFmpeg, FileData } from '@ffmpeg/ffmpeg';
+import { onAbort, ProcessingCancelledError, throwIfAborted } from './cancellation';
+
+class FFmpegSessionError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'FFmpegSessionError';
+  }
+}
+
+interface FFmpegJobOptions {
+  signal?: AbortSignal | undefined; // Terminates the session if the job is running
+  onProgress?: ((ratio: number) => void) | undefined; // 0-1, from FFmpeg's progress events
+  onLog?: ((message: string) => void) | undefined;
+}
+
+interface FFmpegJob {
+  ffmpeg: FFmpeg;
+  logs: string[]; // Log lines written while this job was running
+  writeFile: (name: string, data: FileData) => Promise<void>;
+  readFile: (name: string) => Promise<Uint8Array<ArrayBuffer>>;
+  exec: (args: string[]) => Promise<void>;
+}
+
+type FFmpegTask<T> = (job: FFmpegJob) => Promise<T>;
+
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_LOG_LINES = 1000;
+const ERROR_LOG_LINES = 5;
+
+let instance: FFmpeg | null = null;
+let loading: Promise<FFmpeg> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let pendingJobs = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+// Progress and log events are routed to whichever job is running
+let activeJob: { logs: string[]; options: FFmpegJobOptions } | null = null;
+
+const clearIdleTimer = () => {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+};
+
+const scheduleIdleTeardown = () => {
+  clearIdleTimer();
+  if (pendingJobs === 0) {
+    idleTimer = setTimeout(terminateFFmpegSession, IDLE_TIMEOUT_MS);
+  }
+};
+
+// Reject as soon as the signal aborts, without waiting for the underlying work
+const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const removeAbortListener = onAbort(signal, () => reject(new ProcessingCancelledError()));
+    promise.then(resolve, reject).finally(removeAbortListener);
+  });
+};
+
+const describeLoadError = (errorMessage: string): string => {
+  const isSharedArrayBufferError = errorMessage.includes('SharedArrayBuffer') ||
+                                   errorMessage.includes('cross-origin') ||
+                                   errorMessage.includes('COEP') ||
+                                   errorMessage.includes('COOP');
+  if (isSharedArrayBufferError) {
+    return 'Make sure cross-origin isolation headers (COOP/COEP) are set correctly.';
+  }
+  // The "failed to import" error is a known issue with FFmpeg WASM 0.12.x when
+  // the core.js file tries to dynamically import modules under COEP
+  if (errorMessage.toLowerCase().includes('import')) {
+    return 'FFmpeg core.js is trying to dynamically import modules, which is failing. This is a known issue with FFmpeg WASM 0.12.x. The UMD build might have internal ES module imports that are incompatible with COEP.';
+  }
+  return 'Check that files exist in public/workers/ and are accessible.';
+};
+
+// Create an instance and load the core and wasm files from the local public directory
+const createFFmpeg = async (): Promise<FFmpeg> => {
+  // SharedArrayBuffer is required for FFmpeg WASM
+  if (typeof SharedArrayBuffer === 'undefined') {
+    throw new FFmpegSessionError(
+      'SharedArrayBuffer is not available. This browser may not support FFmpeg WASM, or the required cross-origin isolation headers are missing.',
+      'loading'
+    );
+  }
+
+  let FFmpegClass: typeof FFmpeg;
+  try {
+    ({ FFmpeg: FFmpegClass } = await import('@ffmpeg/ffmpeg'));
+  } catch (error) {
+    throw new FFmpegSessionError('Failed to load FFmpeg library', 'loading', error as Error);
+  }
+
+  const ffmpeg = new FFmpegClass();
+  ffmpeg.on('log', ({ message }) => {
+    if (!activeJob) return;
+    activeJob.logs.push(message);
+    if (activeJob.logs.length > MAX_LOG_LINES) activeJob.logs.shift();
+    activeJob.options.onLog?.(message);
+  });
+  ffmpeg.on('progress', ({ progress }) => {
+    activeJob?.options.onProgress?.(Math.max(0, Math.min(1, progress)));
+  });
+
+  // Absolute URLs without query parameters, which would interfere with module imports
+  const basePath = import.meta.env.BASE_URL || '/sLixTOOLS/';
+  const coreURL = new URL(`${basePath}workers/ffmpeg-core.js`, window.location.origin).href.split('?')[0];
+  const wasmURL = new URL(`${basePath}workers/ffmpeg-core.wasm`, window.location.origin).href.split('?')[0];
+
+  try {
+    await ffmpeg.load({ coreURL, wasmURL });
+  } catch (loadError) {
+    ffmpeg.terminate();
+    const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
+    throw new FFmpegSessionError(
+      `Failed to load FFmpeg: ${errorMessage}. ${describeLoadError(errorMessage)}`,
+      'loading',
+      loadError instanceof Error ? loadError : undefined
+    );
+  }
+
+  return ffmpeg;
+};
+
+// Concurrent callers share a single load
+const getFFmpeg = (): Promise<FFmpeg> => {
+  if (instance) return Promise.resolve(instance);
+  if (!loading) {
+    loading = createFFmpeg().then((ffmpeg) => {
+      instance = ffmpeg;
+      return ffmpeg;
+    });
+    loading.catch(() => undefined).finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+};
+
+// Remove everything a job added to the virtual filesystem
+const removeNewFiles = async (ffmpeg: FFmpeg, existing: Set<string>) => {
+  try {
+    const nodes = await ffmpeg.listDir('/');
+    for (const node of nodes) {
+      if (!node.isDir && !existing.has(node.name)) {
+        await ffmpeg.deleteFile(node.name);
+      }
+    }
+  } catch (cleanupError) {
+    console.warn('Failed to cleanup FFmpeg files:', cleanupError);
+  }
+};
+
+const createJob = (ffmpeg: FFmpeg, logs: string[]): FFmpegJob => ({
+  ffmpeg,
+  logs,
+  writeFile: async (name, data) => {
+    await ffmpeg.writeFile(name, data);
+  },
+  readFile: async (name) => {
+    const data = await ffmpeg.readFile(name);
+    if (!(data instanceof Uint8Array) || data.length === 0) {
+      throw new FFmpegSessionError(`FFmpeg produced no data for ${name}`, 'reading');
+    }
+    // Copy out of the worker's buffer so the result can back a Blob
+    return new Uint8Array(data);
+  },
+  exec: async (args) => {
+    const exitCode = await ffmpeg.exec(args);
+    if (exitCode !== 0) {
+      const details = logs.slice(-ERROR_LOG_LINES).join(' | ');
+      throw new FFmpegSessionError(
+        `FFmpeg exited with code ${exitCode}${details ? `: ${details}` : ''}`,
+        'processing'
+      );
+    }
+  }
+});
+
+/**
+ * Tear down the shared FFmpeg instance.
+ * Any running job is interrupted; the next job loads a fresh instance.
+ */
+export const terminateFFmpegSession = (): void => {
+  clearIdleTimer();
+  const ffmpeg = instance;
+  instance = null;
+  try {
+    ffmpeg?.terminate();
+  } catch (cleanupError) {
+    console.warn('FFmpeg cleanup error:', cleanupError);
+  }
+};
+
+/**
+ * Load FFmpeg ahead of the first job, e.g. while the user picks options
+ * @param signal - Stops waiting for the load (the load itself continues for later jobs)
+ */
+export const preloadFFmpeg = async (signal?: AbortSignal): Promise<void> => {
+  clearIdleTimer();
+  try {
+    await raceAbort(getFFmpeg(), signal);
+  } finally {
+    scheduleIdleTeardown();
+  }
+};
+
+/**
+ * Whether the FFmpeg core is loaded and ready for jobs
+ */
+export const isFFmpegLoaded = (): boolean => instance !== null;
+
+/**
+ * Run a job on the shared FFmpeg instance.
+ * Jobs are queued and run one at a time. Files the job creates are deleted when it
+ * settles. Aborting a queued job skips it; aborting a running job terminates the
+ * session, since that is the only way to interrupt FFmpeg.
+ * @param task - Work to run with the loaded instance
+ * @param options - Abort signal, progress and log callbacks
+ * @returns The task's result
+ */
+export const runFFmpegJob = <T>(task: FFmpegTask<T>, options: FFmpegJobOptions = {}): Promise<T> => {
+  const { signal } = options;
+  pendingJobs++;
+  clearIdleTimer();
+
+  const run = async (): Promise<T> => {
+    try {
+      throwIfAborted(signal);
+      const ffmpeg = await raceAbort(getFFmpeg(), signal);
+      const existing = new Set((await ffmpeg.listDir('/')).map((node) => node.name));
+      const logs: string[] = [];
+      activeJob = { logs, options };
+      const removeAbortListener = onAbort(signal, terminateFFmpegSession);
+
+      try {
+        return await task(createJob(ffmpeg, logs));
+      } catch (error) {
+        if (signal?.aborted) throw new ProcessingCancelledError();
+        throw error;
+      } finally {
+        removeAbortListener();
+        activeJob = null;
+        if (instance === ffmpeg) {
+          await removeNewFiles(ffmpeg, existing);
+        }
+      }
+    } finally {
+      pendingJobs--;
+      scheduleIdleTeardown();
+    }
+  };
+
+  // A failed job must not block the ones queued behind it
+  const result = queue.then(run, run);
+  queue = result.catch(() => undefined);
+  return raceAbort(result, signal);
+};
+
+// Export types and error class
+export {
+  FFmpegSessionError,
+  type FFmpegJob,
+  type FFmpegJobOptions,
+  type FFmpegTask
+};
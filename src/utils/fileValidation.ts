@@ -6,11 +6,13 @@
 import type { ValidationResult } from '../types';
 import { config } from '../config';
 import { bytesToMB } from './formatters';
+import { getToolOptimization } from '../config/performance';
 
 // Maximum file sizes (in bytes) - using centralized config
 const MAX_FILE_SIZES = {
   image: 50 * 1024 * 1024, // 50MB for images
   video: config.upload.maxFileSize, // Use config value for videos
+  audio: getToolOptimization('audio-tools').memoryLimit * 1024 * 1024, // Held in FFmpeg's memory while converting
   general: 100 * 1024 * 1024, // 100MB general limit
 };
 
@@ -19,9 +21,12 @@ const SUPPORTED_TYPES = {
   image: ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/tiff'],
   video: ['video/mp4', 'video/webm', 'video/avi', 'video/mpeg', 'video/mkv', 'video/flv', 'video/ogg', 'video/mov', 'video/m4v', 'video/wmv', 'video/asf', 'video/3gpp', 'video/quicktime', 'video/x-msvideo', 'video/x-ms-wmv', 'video/x-flv'],
   document: ['application/pdf', 'text/plain', 'text/csv'],
-  audio: ['audio/mp3', 'audio/wav', 'audio/ogg', 'audio/m4a'],
+  audio: ['audio/mp3', 'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/ogg', 'audio/opus', 'audio/flac', 'audio/x-flac', 'audio/aac', 'audio/m4a', 'audio/x-m4a', 'audio/mp4', 'audio/webm', 'audio/aiff', 'audio/x-aiff'],
 };
 
+// Browsers report no or inconsistent MIME types for some audio formats, so extensions are accepted too
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'oga', 'opus', 'flac', 'aac', 'm4a', 'mp4', 'webm', 'aif', 'aiff', 'wma'];
+
 // File validation options interface with strict typing
 export interface FileValidationOptions {
   maxFileSize?: number;
@@ -222,6 +227,47 @@ export const validateVideoFile = (file: File): ValidationResult => {
   };
 };
 
+/**
+ * Validate audio files
+ */
+export const validateAudioFile = (file: File): ValidationResult => {
+  if (!file) {
+    return { isValid: false, error: 'No file provided' };
+  }
+
+  // Check file type, falling back to the extension
+  if (!SUPPORTED_TYPES.audio.includes(file.type) && !AUDIO_EXTENSIONS.includes(getFileExtension(file.name))) {
+    return {
+      isValid: false,
+      error: `Unsupported audio format. Supported formats: ${AUDIO_EXTENSIONS.join(', ')}`
+    };
+  }
+
+  // Check file size
+  if (file.size > MAX_FILE_SIZES.audio) {
+    const sizeMB = Math.round(bytesToMB(file.size));
+    const maxSizeMB = Math.round(bytesToMB(MAX_FILE_SIZES.audio));
+    return {
+      isValid: false,
+      error: `File too large (${sizeMB}MB). Maximum size is ${maxSizeMB}MB`
+    };
+  }
+
+  if (file.size === 0) {
+    return { isValid: false, error: 'File is empty' };
+  }
+
+  return {
+    isValid: true,
+    fileInfo: {
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      lastModified: file.lastModified
+    }
+  };
+};
+
 // Legacy compatibility function for validation.ts interface
 export const validateVideoFileLegacy = (file: File): string | null => {
   const result = validateVideoFile(file);
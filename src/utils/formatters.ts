@@ -66,6 +66,21 @@ export const formatDurationLong = (seconds: NonNegativeNumber): string => {
   return parts.join(' ');
 };
 
+/**
+ * Formats a playback position with fractional seconds for trim and seek controls
+ * @param seconds - Position in seconds (must be non-negative)
+ * @param decimals - Digits after the decimal point, 1 (tenths) by default
+ * @returns Formatted string (e.g., "1:05.3", "0:00.0", "0:02.033" with 3 decimals)
+ */
+export const formatTimestamp = (seconds: NonNegativeNumber, decimals: number = 1): string => {
+  const scale = 10 ** decimals;
+  const units = Math.round(validateNumericInput(seconds) * scale);
+  const mins = Math.floor(units / (60 * scale));
+  const secs = ((units % (60 * scale)) / scale).toFixed(decimals);
+
+  return `${mins}:${secs.padStart(decimals > 0 ? decimals + 3 : 2, '0')}`;
+};
+
 /**
  * Formats percentage with specified decimal places
  * @param value - Percentage value (0-100)
@@ -1,58 +1,70 @@
-import 'gif.js/dist/gif.js';
 import { bytesToMB } from './formatters';
-
-// GIF.js options interface
-interface GifJsOptions {
-  workers: number;
-  quality: number;
-  width: number;
-  height: number;
-  workerScript: string;
-  dither?: string | boolean | undefined;
-  globalPalette?: boolean | undefined;
-  optimizeTransparency?: boolean | undefined;
-  repeat?: number | undefined;
-  background?: string | undefined;
-  transparent?: string | null | undefined;
-  debug?: boolean | undefined;
-}
-
-interface GifJsInstance {
-  addFrame(canvas: HTMLCanvasElement | CanvasRenderingContext2D | ImageData, options?: { delay?: number | undefined; copy?: boolean | undefined } | undefined): void;
-  render(): void;
-  abort(): void;
-  freeWorkers(): void;
-  on(event: 'finished', callback: (blob: Blob) => void): void;
-  on(event: 'error', callback: (error: Error) => void): void;
-  on(event: 'progress', callback: (progress: number) => void): void;
-  on(event: 'abort', callback: () => void): void;
-  on(event: string, callback: (data: unknown) => void): void;
-}
-
-interface GifJsConstructor {
-  new (options: GifJsOptions): GifJsInstance;
-}
-
-// Type-safe GIF constructor access
-const GIF = (window as Window & { GIF: GifJsConstructor }).GIF;
+import { decodeGif, GifDecodeError } from './gifDecoder';
+import { MAX_LOSSINESS, type GifEncodeFrame } from './gifEncoder';
+import { encodeGifInWorker } from './gifEncoderWorker';
+import { ProcessingCancelledError, throwIfAborted } from './cancellation';
+import {
+  buildPalette,
+  clampPaletteSize,
+  createColorMatcher,
+  MAX_PALETTE_SIZE,
+  type QuantizerMethod
+} from './gifQuantizer';
+import { ditherToPalette, type DitherMethod } from './gifDither';
+import { optimizeFrames, type OptimizableFrame } from './gifOptimizer';
 
 interface GifCompressionOptions {
   quality: number; // 0-100
   maxWidth?: number | undefined;
   maxHeight?: number | undefined;
   frameSkip?: number | undefined; // Skip every N frames
+  quantizer?: QuantizerMethod | undefined;
+  paletteSize?: number | undefined; // 2-256 colors
+  globalPalette?: boolean | undefined; // Share one palette across all frames
+  dithering?: DitherMethod | undefined;
+  optimizeFrames?: boolean | undefined; // Crop frames to changed regions and diff against the previous frame
+  lossy?: number | undefined; // Lossy LZW strength, 0 (lossless) to MAX_LOSSINESS
+}
+
+interface CompressionAttempt {
+  index: number;
+  size: number; // bytes
+  fits: boolean;
+  settings: {
+    lossy: number; // Lossy LZW strength used for this attempt
+    paletteSize: number;
+    scale: number; // Relative to the source dimensions
+    frameSkip: number;
+  };
 }
 
 interface CompressionProgress {
-  stage: 'loading' | 'extracting' | 'compressing' | 'rebuilding' | 'complete';
+  stage: 'loading' | 'extracting' | 'compressing' | 'rebuilding' | 'searching' | 'complete';
   progress: number;
   message: string;
   originalSize?: number | undefined;
   compressedSize?: number | undefined;
+  attempt?: CompressionAttempt | undefined; // Set on 'searching' updates once an attempt finishes
+}
+
+interface TargetSizeResult {
+  blob: Blob;
+  met: boolean; // False when even the smallest attempt exceeded the budget
+  attempts: CompressionAttempt[];
+  explanation?: string | undefined;
 }
 
 type ProgressCallback = (progress: CompressionProgress) => void;
 
+// Decoded frames to compress; produced from a file or by the frame editor
+interface GifFrameSource {
+  frames: ImageData[];
+  delays: number[]; // ms, one per frame
+  width: number;
+  height: number;
+  loopCount: number | null;
+}
+
 class GifCompressionError extends Error {
   constructor(
     message: string,
@@ -64,106 +76,240 @@ class GifCompressionError extends Error {
   }
 }
 
-
-
 const extractGifFrames = async (
   file: File,
   onProgress?: ProgressCallback
-): Promise<{ frames: ImageData[]; delays: number[]; width: number; height: number }> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-
-    if (!ctx) {
-      reject(new GifCompressionError('Failed to create canvas context', 'extracting'));
-      return;
-    }
+): Promise<GifFrameSource> => {
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await file.arrayBuffer();
+  } catch (error) {
+    throw new GifCompressionError('Failed to load image', 'loading', error as Error);
+  }
 
-    img.onload = () => {
-      try {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        
-        onProgress?.({
-          stage: 'extracting',
-          progress: 100,
-          message: 'Frames extracted successfully'
-        });
-
-        resolve({
-          frames: [imageData],
-          delays: [100], // Default delay
-          width: canvas.width,
-          height: canvas.height
-        });
-      } catch (error) {
-        reject(new GifCompressionError('Failed to extract frames', 'extracting', error as Error));
-      }
-    };
+  try {
+    const { width, height, loopCount, frames } = decodeGif(buffer, (decoded, total) => {
+      onProgress?.({
+        stage: 'extracting',
+        progress: 20 + (decoded / total) * 20,
+        message: `Decoding frame ${decoded}/${total}...`
+      });
+    });
 
-    img.onerror = () => {
-      reject(new GifCompressionError('Failed to load image', 'loading'));
+    return {
+      frames: frames.map((frame) => new ImageData(frame.pixels, width, height)),
+      delays: frames.map((frame) => frame.delay),
+      width,
+      height,
+      loopCount
     };
-
-    img.src = URL.createObjectURL(file);
-  });
+  } catch (error) {
+    const message = error instanceof GifDecodeError ? error.message : 'Failed to extract frames';
+    throw new GifCompressionError(message, 'extracting', error as Error);
+  }
 };
 
-const compressFrame = (
+// Scale a frame to the target size, returning its RGBA pixels
+const resizeFrame = (
   imageData: ImageData,
-  quality: number
-): ImageData => {
+  targetWidth: number,
+  targetHeight: number
+): Uint8ClampedArray => {
+  if (imageData.width === targetWidth && imageData.height === targetHeight) {
+    return imageData.data;
+  }
+
+  const sourceCanvas = document.createElement('canvas');
+  const sourceCtx = sourceCanvas.getContext('2d');
   const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  
-  if (!ctx) {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!sourceCtx || !ctx) {
     throw new GifCompressionError('Failed to create canvas context', 'compressing');
   }
 
-  canvas.width = imageData.width;
-  canvas.height = imageData.height;
-  ctx.putImageData(imageData, 0, 0);
+  sourceCanvas.width = imageData.width;
+  sourceCanvas.height = imageData.height;
+  sourceCtx.putImageData(imageData, 0, 0);
 
-  // Simple quality-based compression by reducing colors
-  const compressedImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = compressedImageData.data;
-  
-  // Reduce color depth based on quality
-  const reduction = Math.floor((100 - quality) / 10) + 1;
-  
-  for (let i = 0; i < data.length; i += 4) {
-    data[i] = Math.floor(data[i] / reduction) * reduction;     // Red
-    data[i + 1] = Math.floor(data[i + 1] / reduction) * reduction; // Green
-    data[i + 2] = Math.floor(data[i + 2] / reduction) * reduction; // Blue
-    // Alpha channel remains unchanged
-  }
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(sourceCanvas, 0, 0, targetWidth, targetHeight);
 
-  return compressedImageData;
+  return ctx.getImageData(0, 0, targetWidth, targetHeight).data;
 };
 
+// Yield to the event loop so progress updates can render between frames, then honor cancellation
+const yieldToMainThread = async (signal?: AbortSignal): Promise<void> => {
+  await new Promise<void>((resolve) => setTimeout(resolve, 0));
+  throwIfAborted(signal);
+};
 
-export const compressGif = async (
-  file: File,
+// Decode a file, or pass through frames that were already decoded (and possibly edited)
+const loadFrameSource = (input: File | GifFrameSource, onProgress?: ProgressCallback): Promise<GifFrameSource> =>
+  input instanceof File ? extractGifFrames(input, onProgress) : Promise.resolve(input);
+
+// Resize, quantize, optimize and encode already-decoded frames
+const encodeExtractedGif = async (
+  source: GifFrameSource,
   options: GifCompressionOptions,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<Blob> => {
+  const {
+    quality = 80,
+    maxWidth,
+    maxHeight,
+    frameSkip = 0,
+    quantizer = 'median-cut',
+    paletteSize = MAX_PALETTE_SIZE,
+    globalPalette = true,
+    dithering = 'none',
+    optimizeFrames: frameOptimization = true,
+    lossy = 0
+  } = options;
+  const { frames, delays, width, height, loopCount } = source;
+
+  // Calculate target dimensions
+  let targetWidth = width;
+  let targetHeight = height;
+
+  if (maxWidth && targetWidth > maxWidth) {
+    targetHeight = Math.round((targetHeight * maxWidth) / targetWidth);
+    targetWidth = maxWidth;
+  }
+
+  if (maxHeight && targetHeight > maxHeight) {
+    targetWidth = Math.round((targetWidth * maxHeight) / targetHeight);
+    targetHeight = maxHeight;
+  }
+
+  targetWidth = Math.max(1, targetWidth);
+  targetHeight = Math.max(1, targetHeight);
+
+  // Process frames, folding the delay of skipped frames into the kept ones so timing is preserved
+  const processedFrames: ImageData[] = [];
+  const processedDelays: number[] = [];
+  frames.forEach((frame, index) => {
+    if (frameSkip === 0 || index % (frameSkip + 1) === 0) {
+      processedFrames.push(frame);
+      processedDelays.push(delays[index]);
+    } else {
+      processedDelays[processedDelays.length - 1] += delays[index];
+    }
+  });
+
+  const pixelFrames = processedFrames.map((frame) => resizeFrame(frame, targetWidth, targetHeight));
+  // Frame diffing needs a transparent slot to mark unchanged pixels
+  const quantizerOptions = {
+    method: quantizer,
+    paletteSize: clampPaletteSize(paletteSize),
+    quality,
+    reserveTransparency: frameOptimization && pixelFrames.length > 1
+  };
+
+  onProgress?.({
+    stage: 'compressing',
+    progress: 40,
+    message: globalPalette ? 'Building shared color palette...' : 'Quantizing frames...'
+  });
+  await yieldToMainThread(signal);
+
+  const shared = globalPalette ? buildPalette(pixelFrames, quantizerOptions) : null;
+  const sharedMatcher = shared ? createColorMatcher(shared.palette, shared.transparentIndex) : null;
+  const indexedFrames: OptimizableFrame[] = [];
+
+  for (let index = 0; index < pixelFrames.length; index++) {
+    const pixels = pixelFrames[index];
+
+    if (shared && sharedMatcher) {
+      indexedFrames.push({
+        indices: ditherToPalette(
+          pixels, targetWidth, targetHeight, shared.palette, shared.transparentIndex, dithering, sharedMatcher
+        ),
+        palette: null,
+        transparentIndex: shared.transparentIndex,
+        delay: processedDelays[index] || 100
+      });
+    } else {
+      const local = buildPalette([pixels], quantizerOptions);
+      indexedFrames.push({
+        indices: ditherToPalette(pixels, targetWidth, targetHeight, local.palette, local.transparentIndex, dithering),
+        palette: local.palette,
+        transparentIndex: local.transparentIndex,
+        delay: processedDelays[index] || 100
+      });
+    }
+
+    onProgress?.({
+      stage: 'compressing',
+      progress: 40 + ((index + 1) / pixelFrames.length) * 40,
+      message: `Quantizing frame ${index + 1}/${pixelFrames.length}...`
+    });
+    await yieldToMainThread(signal);
+  }
+
+  let encodeFrames: GifEncodeFrame[] = indexedFrames;
+  if (frameOptimization) {
+    onProgress?.({
+      stage: 'rebuilding',
+      progress: 82,
+      message: 'Optimizing frame differences...'
+    });
+    await yieldToMainThread(signal);
+
+    encodeFrames = optimizeFrames(indexedFrames, {
+      width: targetWidth,
+      height: targetHeight,
+      globalPalette: shared?.palette ?? null
+    }).frames;
+  }
+
+  onProgress?.({
+    stage: 'rebuilding',
+    progress: 85,
+    message: lossy > 0 ? 'Rebuilding GIF with lossy LZW...' : 'Rebuilding GIF...'
+  });
+
+  let bytes: Uint8Array<ArrayBuffer>;
   try {
-    const {
-      quality = 80,
-      maxWidth,
-      maxHeight,
-      frameSkip = 0
-    } = options;
+    bytes = await encodeGifInWorker(encodeFrames, {
+      width: targetWidth,
+      height: targetHeight,
+      globalPalette: shared?.palette ?? null,
+      loopCount, // Keep the source loop behavior
+      lossy
+    }, signal);
+  } catch (error) {
+    if (error instanceof ProcessingCancelledError) throw error;
+    throw new GifCompressionError('Failed to encode GIF', 'rebuilding', error as Error);
+  }
+  return new Blob([bytes], { type: 'image/gif' });
+};
 
+/**
+ * Compress a GIF file, or frames from the frame editor
+ * @param input - Source GIF file or decoded frames
+ * @param options - Quantization, scaling and encoding settings
+ * @param onProgress - Progress callback
+ * @param signal - Cancels compression between frames and terminates the encoder
+ * @returns The compressed GIF
+ */
+export const compressGif = async (
+  input: File | GifFrameSource,
+  options: GifCompressionOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const originalSize = input instanceof File ? input.size : undefined;
+
+  try {
     onProgress?.({
       stage: 'loading',
       progress: 0,
       message: 'Loading GIF...',
-      originalSize: file.size
+      originalSize
     });
 
     onProgress?.({
@@ -173,119 +319,194 @@ export const compressGif = async (
     });
 
     // Extract frames from the original GIF
-    const { frames, delays, width, height } = await extractGifFrames(file, onProgress);
+    const source = await loadFrameSource(input, onProgress);
+    throwIfAborted(signal);
+    const blob = await encodeExtractedGif(source, options, onProgress, signal);
 
     onProgress?.({
-      stage: 'compressing',
-      progress: 40,
-      message: 'Compressing frames...'
+      stage: 'complete',
+      progress: 100,
+      message: 'Compression complete!',
+      originalSize,
+      compressedSize: blob.size
     });
 
-    // Calculate target dimensions
-    let targetWidth = width;
-    let targetHeight = height;
+    return blob;
 
-    if (maxWidth && targetWidth > maxWidth) {
-      targetHeight = Math.round((targetHeight * maxWidth) / targetWidth);
-      targetWidth = maxWidth;
+  } catch (error) {
+    if (error instanceof GifCompressionError || error instanceof ProcessingCancelledError) {
+      throw error;
     }
+    throw new GifCompressionError(
+      'Compression failed',
+      'unknown',
+      error as Error
+    );
+  }
+};
 
-    if (maxHeight && targetHeight > maxHeight) {
-      targetWidth = Math.round((targetWidth * maxHeight) / targetHeight);
-      targetHeight = maxHeight;
-    }
+// Search bounds for target-size mode
+const MAX_TARGET_ATTEMPTS = 12;
+const MIN_TARGET_SCALE = 0.25;
+const MAX_TARGET_FRAME_SKIP = 2;
+const TARGET_PALETTE_STEPS = [256, 128, 64, 32];
+const TARGET_LOSSY_STEP = 40; // Added to the lossy LZW strength with each smaller palette
+const TARGET_SCALE_STEPS = 3; // Bisection steps per frame-skip level
+
+/**
+ * Compress a GIF to fit under a byte budget.
+ * Tries, in order, smaller palettes with stronger lossy LZW, then a bisection over scale for
+ * each frame-skip level, keeping the largest attempt that fits.
+ * @param input - Source GIF file or decoded frames
+ * @param targetBytes - Maximum output size in bytes
+ * @param options - Starting settings; palette size and scale are only ever reduced from these,
+ *   lossy strength and frame skip only ever raised
+ * @param onProgress - Receives a 'searching' update with the outcome of every attempt
+ * @param signal - Cancels the search, including the attempt in progress
+ * @returns The best attempt within budget, or the smallest one with an explanation
+ */
+export const compressGifToTargetSize = async (
+  input: File | GifFrameSource,
+  targetBytes: number,
+  options: GifCompressionOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<TargetSizeResult> => {
+  if (!Number.isFinite(targetBytes) || targetBytes <= 0) {
+    throw new GifCompressionError('Target size must be greater than zero', 'validation');
+  }
 
-    onProgress?.({
-      stage: 'rebuilding',
-      progress: 60,
-      message: 'Rebuilding GIF...'
-    });
+  const originalSize = input instanceof File ? input.size : undefined;
 
-    // Create new GIF with compressed frames
-    const gif = new GIF({
-      workers: 2,
-      quality: Math.floor((100 - quality) / 10),
-      width: targetWidth,
-      height: targetHeight,
-      workerScript: '/workers/gif.worker.js'
+  try {
+    onProgress?.({
+      stage: 'loading',
+      progress: 0,
+      message: 'Loading GIF...',
+      originalSize
     });
 
-    // Process frames
-    const processedFrames = frames.filter((_, index) => 
-      frameSkip === 0 || index % (frameSkip + 1) === 0
+    const source = await loadFrameSource(input, onProgress);
+    throwIfAborted(signal);
+    const baseLossy = Math.max(0, Math.min(MAX_LOSSINESS, options.lossy ?? 0));
+    const basePalette = clampPaletteSize(options.paletteSize ?? MAX_PALETTE_SIZE);
+    const baseSkip = options.frameSkip ?? 0;
+    const baseScale = Math.min(
+      1,
+      options.maxWidth ? options.maxWidth / source.width : 1,
+      options.maxHeight ? options.maxHeight / source.height : 1
     );
 
-    processedFrames.forEach((frame, index) => {
-      const compressedFrame = compressFrame(frame, quality);
-      
-      // Resize frame if needed
-      if (targetWidth !== width || targetHeight !== height) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {
-          canvas.width = targetWidth;
-          canvas.height = targetHeight;
-          
-          const tempCanvas = document.createElement('canvas');
-          const tempCtx = tempCanvas.getContext('2d');
-          
-          if (tempCtx) {
-            tempCanvas.width = width;
-            tempCanvas.height = height;
-            tempCtx.putImageData(compressedFrame, 0, 0);
-            
-            ctx.drawImage(tempCanvas, 0, 0, targetWidth, targetHeight);
-            
-            gif.addFrame(canvas, { delay: delays[index] || 100 });
-          }
-        }
-      } else {
-        // Convert ImageData to canvas before adding to GIF
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {
-          canvas.width = compressedFrame.width;
-          canvas.height = compressedFrame.height;
-          ctx.putImageData(compressedFrame, 0, 0);
-          
-          gif.addFrame(canvas, { delay: delays[index] || 100 });
-        }
-      }
-      
+    const attempts: CompressionAttempt[] = [];
+    const blobs: Blob[] = [];
+
+    const attempt = async (settings: CompressionAttempt['settings']): Promise<CompressionAttempt> => {
+      const index = attempts.length;
+      const label = `Attempt ${index + 1}: ${settings.paletteSize} colors, ${Math.round(settings.scale * 100)}% scale` +
+        (settings.lossy > 0 ? `, lossy ${settings.lossy}` : '') +
+        (settings.frameSkip > 0 ? `, skip ${settings.frameSkip}` : '');
+      const progressBase = 40 + (index / MAX_TARGET_ATTEMPTS) * 55;
+
+      const blob = await encodeExtractedGif(
+        source,
+        {
+          ...options,
+          lossy: settings.lossy,
+          paletteSize: settings.paletteSize,
+          frameSkip: settings.frameSkip,
+          maxWidth: Math.round(source.width * settings.scale),
+          maxHeight: Math.round(source.height * settings.scale)
+        },
+        (inner) => onProgress?.({
+          stage: 'searching',
+          progress: progressBase + (inner.progress / 100) * (55 / MAX_TARGET_ATTEMPTS),
+          message: `${label} - ${inner.message}`
+        }),
+        signal
+      );
+
+      const result: CompressionAttempt = { index, size: blob.size, fits: blob.size <= targetBytes, settings };
+      attempts.push(result);
+      blobs.push(blob);
+
       onProgress?.({
-        stage: 'rebuilding',
-        progress: 60 + (index / processedFrames.length) * 30,
-        message: `Processing frame ${index + 1}/${processedFrames.length}...`
+        stage: 'searching',
+        progress: progressBase + 55 / MAX_TARGET_ATTEMPTS,
+        message: `${label} → ${bytesToMB(blob.size).toFixed(2)} MB ${result.fits ? '(fits)' : '(too large)'}`,
+        attempt: result
       });
-    });
+      return result;
+    };
 
-    return new Promise((resolve, reject) => {
-      gif.on('finished', (blob: Blob) => {
-        onProgress?.({
-          stage: 'complete',
-          progress: 100,
-          message: 'Compression complete!',
-          originalSize: file.size,
-          compressedSize: blob.size
-        });
-        resolve(blob);
-      });
+    let best: CompressionAttempt | null = null;
+    const consider = (result: CompressionAttempt) => {
+      if (result.fits && (!best || result.size > best.size)) best = result;
+    };
 
-      gif.on('error', (error: Error) => {
-        reject(new GifCompressionError('Failed to render GIF', 'rebuilding', error));
-      });
+    // Phase 1: reduce colors and raise lossy LZW at the starting scale
+    const paletteSteps = [basePalette, ...TARGET_PALETTE_STEPS.filter((size) => size < basePalette)];
+    let lastPalette = basePalette;
+    let lastLossy = baseLossy;
+    for (const [step, paletteSize] of paletteSteps.entries()) {
+      lastPalette = paletteSize;
+      lastLossy = Math.min(MAX_LOSSINESS, baseLossy + step * TARGET_LOSSY_STEP);
+      const result = await attempt({ lossy: lastLossy, paletteSize, scale: baseScale, frameSkip: baseSkip });
+      consider(result);
+      if (result.fits) break;
+    }
+
+    // Phase 2: bisect scale at the smallest palette, dropping frames if even the minimum scale is too large
+    for (let frameSkip = baseSkip; !best && frameSkip <= Math.max(baseSkip, MAX_TARGET_FRAME_SKIP); frameSkip++) {
+      let low = MIN_TARGET_SCALE;
+      let high = baseScale;
+      // Size grows roughly with pixel count, so start from the square root of the overshoot
+      const reference = attempts[attempts.length - 1];
+      let scale = Math.max(low, Math.min(high, baseScale * Math.sqrt(targetBytes / reference.size) * 0.95));
+
+      for (let step = 0; step < TARGET_SCALE_STEPS && attempts.length < MAX_TARGET_ATTEMPTS; step++) {
+        const result = await attempt({ lossy: lastLossy, paletteSize: lastPalette, scale, frameSkip });
+        consider(result);
+        if (result.fits) {
+          low = scale;
+        } else {
+          high = scale;
+        }
+        if (!result.fits && scale <= MIN_TARGET_SCALE) break;
+        if (high - low < 0.02) break;
+        scale = (low + high) / 2;
+      }
+
+      if (attempts.length >= MAX_TARGET_ATTEMPTS) break;
+    }
+
+    const chosen: CompressionAttempt = best ?? attempts.reduce((smallest, current) =>
+      current.size < smallest.size ? current : smallest
+    );
+    const blob = blobs[chosen.index];
 
-      gif.render();
+    onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      message: chosen.fits ? 'Compression complete!' : 'Could not reach the target size',
+      originalSize,
+      compressedSize: blob.size
     });
 
+    return {
+      blob,
+      met: chosen.fits,
+      attempts,
+      explanation: chosen.fits
+        ? undefined
+        : `Smallest result was ${bytesToMB(blob.size).toFixed(2)} MB after ${attempts.length} attempts ` +
+          `(${chosen.settings.paletteSize} colors, ${Math.round(chosen.settings.scale * 100)}% scale, ` +
+          `lossy ${chosen.settings.lossy}, frame skip ${chosen.settings.frameSkip}). Try trimming frames or a larger target.`
+    };
   } catch (error) {
-    throw new GifCompressionError(
-      'Compression failed',
-      'unknown',
-      error as Error
-    );
+    if (error instanceof GifCompressionError || error instanceof ProcessingCancelledError) {
+      throw error;
+    }
+    throw new GifCompressionError('Compression failed', 'unknown', error as Error);
   }
 };
 
@@ -318,5 +539,8 @@ export {
   GifCompressionError,
   type GifCompressionOptions,
   type CompressionProgress,
+  type CompressionAttempt,
+  type GifFrameSource,
+  type TargetSizeResult,
   type ProgressCallback
 };
\ No newline at end of file
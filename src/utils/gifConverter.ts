@@ -1,6 +1,17 @@
 
-import { ConversionOptions } from '../types';
+import type { AnimationFormat, ConversionOptions } from '../types';
 import 'gif.js/dist/gif.js';
+import { buildPalette, createColorMatcher, MAX_PALETTE_SIZE } from './gifQuantizer';
+import { ditherToPalette, type DitherMethod } from './gifDither';
+import type { GifEncodeFrame } from './gifEncoder';
+import { encodeGifInWorker } from './gifEncoderWorker';
+import { optimizeFrames, type OptimizableFrame } from './gifOptimizer';
+import { encodeApng } from './apngEncoder';
+import { encodeAnimatedWebp } from './webpEncoder';
+import { onAbort, ProcessingCancelledError, throwIfAborted } from './cancellation';
+import { drawSubtitles, getActiveCues } from './subtitles';
+import { orderFrames } from './playbackTiming';
+import { captureVideoFrames } from './videoFrames';
 
 // Proper TypeScript interfaces for GIF.js library
 interface GifJsOptions {
@@ -103,13 +114,118 @@ const loadGifJs = async (): Promise<GifJsConstructor> => {
 // Export the error class for external use
 export { GifConversionError, type EnhancedProgress, type EnhancedProgressCallback };
 
+// Quantize captured frames to one shared palette and encode them without gif.js,
+// optionally diffing frames and using lossy LZW
+const encodeCapturedFrames = async (
+  frames: ImageData[],
+  width: number,
+  height: number,
+  settings: { fps: number; quality: number; dithering: DitherMethod; optimize: boolean; lossy: number },
+  onProgress: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { fps, quality, dithering, optimize, lossy } = settings;
+  onProgress(80, 'Building color palette...');
+  await new Promise(resolve => setTimeout(resolve, 0));
+  throwIfAborted(signal);
+
+  // gif.js quality is a sampling interval (1 = best); map it onto the quantizer's 1-100 scale
+  const { palette, transparentIndex } = buildPalette(frames.map((frame) => frame.data), {
+    method: 'median-cut',
+    paletteSize: MAX_PALETTE_SIZE,
+    quality: Math.max(1, 100 - (quality - 1) * 4),
+    reserveTransparency: optimize && frames.length > 1
+  });
+  const matcher = createColorMatcher(palette, transparentIndex);
+  const delay = Math.round(1000 / fps);
+
+  const indexedFrames: OptimizableFrame[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    indexedFrames.push({
+      indices: ditherToPalette(frames[i].data, width, height, palette, transparentIndex, dithering, matcher),
+      palette: null,
+      transparentIndex,
+      delay
+    });
+    onProgress(80 + ((i + 1) / frames.length) * 15, `Quantizing frame ${i + 1}/${frames.length}...`);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    throwIfAborted(signal);
+  }
+
+  let encodeFrames: GifEncodeFrame[] = indexedFrames;
+  if (optimize) {
+    onProgress(95, 'Optimizing frame differences...');
+    encodeFrames = optimizeFrames(indexedFrames, { width, height, globalPalette: palette }).frames;
+  }
+
+  onProgress(96, lossy > 0 ? 'Encoding with lossy LZW...' : 'Encoding GIF...');
+  const bytes = await encodeGifInWorker(encodeFrames, { width, height, globalPalette: palette, loopCount: 0, lossy }, signal);
+  return new Blob([bytes], { type: 'image/gif' });
+};
+
+export const ANIMATION_FORMAT_INFO: Record<AnimationFormat, { label: string; extension: string; mimeType: string }> = {
+  gif: { label: 'GIF', extension: 'gif', mimeType: 'image/gif' },
+  webp: { label: 'WebP', extension: 'webp', mimeType: 'image/webp' },
+  apng: { label: 'APNG', extension: 'png', mimeType: 'image/apng' }
+};
+
+// Encode captured frames as a full-color animated WebP or APNG, keeping alpha
+const encodeFullColorFrames = async (
+  frames: ImageData[],
+  width: number,
+  height: number,
+  settings: { fps: number; quality: number; format: Exclude<AnimationFormat, 'gif'> },
+  onProgress: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { fps, quality, format } = settings;
+  const delay = Math.round(1000 / fps);
+  const animationFrames = frames.map((frame) => ({ pixels: frame.data, delay }));
+  const label = ANIMATION_FORMAT_INFO[format].label;
+  const reportFrame = (encoded: number, total: number) =>
+    onProgress(80 + (encoded / total) * 20, `Encoding ${label} frame ${encoded}/${total}...`);
+
+  onProgress(80, `Encoding ${label}...`);
+  if (format === 'apng') {
+    return encodeApng(animationFrames, { width, height, loopCount: 0 }, reportFrame, signal);
+  }
+  // gif.js quality is a sampling interval (1 = best); map it onto WebP's 0-1 scale
+  const webpQuality = Math.min(0.95, Math.max(0.5, 1 - quality / 40));
+  return encodeAnimatedWebp(animationFrames, { width, height, quality: webpQuality, loopCount: 0 }, reportFrame, signal);
+};
+
+/**
+ * Grab a single video frame as ImageData, scaled to fit within maxDimension
+ * @param videoFile - Source video
+ * @param time - Timestamp in seconds (clamped to the video duration)
+ * @param maxDimension - Longest side of the returned frame in pixels
+ */
+export const captureVideoFrame = async (
+  videoFile: File | Blob,
+  time: number,
+  maxDimension: number = 480
+): Promise<ImageData> => {
+  const [{ canvas }] = await captureVideoFrames(videoFile, [time], { maxDimension });
+  return canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Convert a video to an animated GIF, WebP or APNG
+ * @param videoFile - Source video
+ * @param options - Frame rate, quality, trim, crop, subtitles, timing, size and output format
+ * @param onProgress - Legacy 0-1 callback or enhanced progress callback
+ * @param signal - Stops frame capture, aborts encoding and releases the video when aborted
+ * @returns The encoded animation
+ */
 export const convertVideoToGif = async (
   videoFile: File,
   options: Partial<ConversionOptions> = {},
-  onProgress?: ((progress: number) => void) | EnhancedProgressCallback
+  onProgress?: ((progress: number) => void) | EnhancedProgressCallback,
+  signal?: AbortSignal
 ): Promise<Blob> => {
   
   let video: HTMLVideoElement | null = null;
+  let videoUrl: string | null = null;
   let canvas: HTMLCanvasElement | null = null;
   let ctx: CanvasRenderingContext2D | null = null;
   
@@ -134,7 +250,23 @@ export const convertVideoToGif = async (
       startTime = 0,
       duration,
       trimEnabled = false,
+      dithering,
+      optimizeFrames: frameOptimization = false,
+      lossy = 0,
+      outputFormat = 'gif',
+      crop,
+      subtitles,
+      timing,
     } = options;
+    const speed = timing?.speed ?? 1;
+    const direction = timing?.direction ?? 'forward';
+    // Frames are taken this far apart in the source but still shown at the output frame rate
+    const sourceStep = speed / fps;
+    // gif.js can neither diff frames, do lossy LZW, write other formats, reorder frames nor keep
+    // a chosen dither pattern (it requantizes every frame), so those options switch to the built-in encoders
+    const useNativeEncoder = outputFormat !== 'gif' || frameOptimization || lossy > 0 || direction !== 'forward' ||
+      (dithering !== undefined && dithering !== 'none');
+    const formatLabel = ANIMATION_FORMAT_INFO[outputFormat].label;
 
     enhancedProgress('loading', 0, 'Loading GIF library...');
 
@@ -153,9 +285,20 @@ export const convertVideoToGif = async (
       throw new GifConversionError('Failed to load GIF processing library', 'loading', error as Error);
     }
     
+    throwIfAborted(signal);
     enhancedProgress('loading', 20, 'Initializing video processing...');
 
-    return new Promise((resolve, reject) => {
+    // Whatever has been allocated so far registers its cleanup here, so an abort can release it
+    let releaseResources = () => {};
+    let rejectConversion: (error: Error) => void = () => {};
+    const removeAbortListener = onAbort(signal, () => {
+      releaseResources();
+      rejectConversion(new ProcessingCancelledError('Conversion cancelled'));
+    });
+
+    return new Promise<Blob>((resolve, reject) => {
+        rejectConversion = reject;
+
         // Create video element to extract frames
         video = document.createElement('video');
         video.muted = true;
@@ -177,9 +320,22 @@ export const convertVideoToGif = async (
     
         // Add timeout for video loading
         const loadTimeout = setTimeout(() => {
+          releaseResources();
           reject(new GifConversionError('Video load timeout', 'loading'));
         }, 30000);
 
+        releaseResources = () => {
+          clearTimeout(loadTimeout);
+          if (video) {
+            video.removeAttribute('src');
+            video.load();
+          }
+          if (videoUrl) {
+            URL.revokeObjectURL(videoUrl);
+            videoUrl = null;
+          }
+        };
+
         // Setup video metadata loading
         video.onloadedmetadata = () => {
           clearTimeout(loadTimeout);
@@ -198,16 +354,26 @@ export const convertVideoToGif = async (
           
           // Calculate video duration and estimated frames early
           const videoDuration = actualEndTime - actualStartTime;
-          const estimatedFrames = Math.ceil(videoDuration * fps);
+          const estimatedFrames = Math.ceil(videoDuration / sourceStep) * (direction === 'boomerang' ? 2 : 1);
           
+          // Source rectangle in video pixels, the whole frame unless cropping
+          const sourceX = crop ? Math.round(crop.x * video!.videoWidth) : 0;
+          const sourceY = crop ? Math.round(crop.y * video!.videoHeight) : 0;
+          const sourceWidth = crop
+            ? Math.max(2, Math.min(Math.round(crop.width * video!.videoWidth), video!.videoWidth - sourceX))
+            : video!.videoWidth;
+          const sourceHeight = crop
+            ? Math.max(2, Math.min(Math.round(crop.height * video!.videoHeight), video!.videoHeight - sourceY))
+            : video!.videoHeight;
+
           // Calculate optimized dimensions
           const maxDimension = 800; // Limit for performance
-          let targetWidth = width || video!.videoWidth;
-          let targetHeight = height || video!.videoHeight;
+          let targetWidth = width || sourceWidth;
+          let targetHeight = height || sourceHeight;
           
           // Scale down if too large
           if (targetWidth > maxDimension || targetHeight > maxDimension) {
-            const aspectRatio = video!.videoWidth / video!.videoHeight;
+            const aspectRatio = sourceWidth / sourceHeight;
             if (targetWidth > targetHeight) {
               targetWidth = maxDimension;
               targetHeight = Math.round(maxDimension / aspectRatio);
@@ -242,7 +408,8 @@ export const convertVideoToGif = async (
             width: targetWidth,
             height: targetHeight,
             workerScript: '/workers/gif.worker.js',
-            dither: quality > 20 ? 'FloydSteinberg' : false,
+            // Chosen dithering methods go through the built-in encoder; 'none' must stay undithered here
+            dither: dithering === undefined && quality > 20 ? 'FloydSteinberg' : false,
             globalPalette: estimatedFrames > 50, // Use global palette for longer videos
             optimizeTransparency: true,
             repeat: 0, // Loop forever
@@ -282,9 +449,9 @@ export const convertVideoToGif = async (
                 video.pause();
                 video.removeAttribute('src');
                 video.load();
-                const videoSrc = video.src;
-                if (videoSrc && videoSrc.startsWith('blob:')) {
-                  URL.revokeObjectURL(videoSrc);
+                if (videoUrl) {
+                  URL.revokeObjectURL(videoUrl);
+                  videoUrl = null;
                 }
               // eslint-disable-next-line @typescript-eslint/no-unused-vars
               } catch (_error) {
@@ -307,6 +474,8 @@ export const convertVideoToGif = async (
             ctx = null;
           };
 
+          releaseResources = cleanupResources;
+
           // Critical fix: Set worker timeout
           workerTimeout = setTimeout(() => {
             cleanupResources();
@@ -344,9 +513,50 @@ export const convertVideoToGif = async (
             }
           });
           
+          // Frames kept for the built-in encoder; gif.js receives them directly otherwise
+          const capturedFrames: ImageData[] = [];
+
+          const render = () => {
+            if (!useNativeEncoder) {
+              gif.render();
+              return;
+            }
+            const reportEncoding = (progress: number, message: string) => enhancedProgress('encoding', progress, message);
+            const frames = orderFrames(capturedFrames, direction);
+            const encoding = outputFormat === 'gif'
+              ? encodeCapturedFrames(
+                  frames,
+                  targetWidth,
+                  targetHeight,
+                  { fps, quality, dithering: dithering ?? 'none', optimize: frameOptimization, lossy },
+                  reportEncoding,
+                  signal
+                )
+              : encodeFullColorFrames(
+                  frames,
+                  targetWidth,
+                  targetHeight,
+                  { fps, quality, format: outputFormat },
+                  reportEncoding,
+                  signal
+                );
+            encoding
+              .then((blob) => {
+                enhancedProgress('complete', 100, `${formatLabel} conversion complete!`);
+                cleanupResources();
+                resolve(blob);
+              })
+              .catch((error) => {
+                cleanupResources();
+                reject(error instanceof ProcessingCancelledError
+                  ? error
+                  : new GifConversionError(`${formatLabel} encoding failed`, 'encoding', error as Error));
+              });
+          };
+
           // Enhanced frame capture with batching
           let frameCount = 0;
-          const totalFrames = Math.ceil((actualEndTime - actualStartTime) * fps);
+          const totalFrames = Math.ceil((actualEndTime - actualStartTime) / sourceStep);
           const batchSize = Math.min(5, Math.max(1, Math.floor(30 / fps))); // Adaptive batch size
           let processingBatch = false;
           let isRendering = false; // Prevent multiple render calls
@@ -354,12 +564,14 @@ export const convertVideoToGif = async (
           enhancedProgress('processing', 40, 'Capturing video frames...', { frameCount: 0, totalFrames });
           
           const captureFrame = async () => {
+            // Cancellation has already released the video; don't fall through to rendering
+            if (signal?.aborted) return;
             if (processingBatch || !video || !ctx || !canvas || video.currentTime >= actualEndTime) {
               if (!processingBatch && frameCount > 0 && !isRendering) {
                 isRendering = true;
-                enhancedProgress('encoding', 80, 'Encoding GIF...');
+                enhancedProgress('encoding', 80, `Encoding ${formatLabel}...`);
                 try {
-                  gif.render();
+                  render();
                 } catch (error) {
                   cleanupResources();
                   reject(new GifConversionError('Failed to start GIF rendering', 'encoding', error as Error));
@@ -386,13 +598,20 @@ export const convertVideoToGif = async (
                 }
                 
                 try {
-                  ctx.drawImage(video, 0, 0, targetWidth, targetHeight);
-                  gif.addFrame(ctx, { copy: true, delay: Math.round(1000 / fps) });
+                  ctx.drawImage(video, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, targetWidth, targetHeight);
+                  if (subtitles) {
+                    drawSubtitles(ctx, getActiveCues(subtitles.cues, video.currentTime), targetWidth, targetHeight, subtitles.style);
+                  }
+                  if (useNativeEncoder) {
+                    capturedFrames.push(ctx.getImageData(0, 0, targetWidth, targetHeight));
+                  } else {
+                    gif.addFrame(ctx, { copy: true, delay: Math.round(1000 / fps) });
+                  }
                 // eslint-disable-next-line @typescript-eslint/no-unused-vars
                 } catch (_drawError) {
                   // Frame drawing error handled silently
                   // Skip this frame and continue
-                  video.currentTime += 1 / fps;
+                  video.currentTime += sourceStep;
                   continue;
                 }
                 
@@ -404,7 +623,7 @@ export const convertVideoToGif = async (
                 });
                 
                 // Move to next frame with bounds checking
-                const nextTime = video.currentTime + (1 / fps);
+                const nextTime = video.currentTime + sourceStep;
                 if (nextTime <= actualEndTime) {
                   video.currentTime = nextTime;
                 } else {
@@ -435,9 +654,9 @@ export const convertVideoToGif = async (
                 setTimeout(captureFrame, 10);
               } else if (!isRendering && frameCount > 0) {
                 isRendering = true;
-                enhancedProgress('encoding', 80, 'Encoding GIF...');
+                enhancedProgress('encoding', 80, `Encoding ${formatLabel}...`);
                 try {
-                  gif.render();
+                  render();
                 } catch (error) {
                   cleanupResources();
                   reject(new GifConversionError('Failed to start GIF rendering', 'encoding', error as Error));
@@ -464,9 +683,9 @@ export const convertVideoToGif = async (
               } else if (!isRendering && frameCount > 0) {
                 // Finish with what we have
                 isRendering = true;
-                enhancedProgress('encoding', 80, 'Encoding GIF...');
+                enhancedProgress('encoding', 80, `Encoding ${formatLabel}...`);
                 try {
-                  gif.render();
+                  render();
                 } catch (renderError) {
                   cleanupResources();
                   reject(new GifConversionError('Failed to start GIF rendering', 'encoding', renderError as Error));
@@ -509,13 +728,18 @@ export const convertVideoToGif = async (
             canvas.width = 0;
             canvas.height = 0;
           }
+          if (videoUrl) {
+            URL.revokeObjectURL(videoUrl);
+            videoUrl = null;
+          }
           const errorMessage = video?.error?.message || 'Unknown video error';
           reject(new GifConversionError(`Error loading video: ${errorMessage}`, 'loading'));
         };
         
         // Set video source with error handling
         try {
-          video.src = URL.createObjectURL(videoFile);
+          videoUrl = URL.createObjectURL(videoFile);
+          video.src = videoUrl;
         } catch (error) {
           // Cleanup resources directly since cleanupResources is not in scope
           if (video) {
@@ -528,10 +752,10 @@ export const convertVideoToGif = async (
           }
           reject(new GifConversionError('Failed to create video URL', 'loading', error as Error));
         }
-    });
+    }).finally(removeAbortListener);
   } catch (error) {
-    // Re-throw GifConversionError as-is, wrap others
-    if (error instanceof GifConversionError) {
+    // Re-throw GifConversionError and cancellations as-is, wrap others
+    if (error instanceof GifConversionError || error instanceof ProcessingCancelledError) {
       throw error;
     }
     throw new GifConversionError('Unexpected error during GIF conversion', 'unknown', error as Error);
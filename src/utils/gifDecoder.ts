@@ -0,0 +1,489 @@
+/**
+ * GIF87a/GIF89a decoder.
+ * Parses the block structure of a GIF file and composites every frame onto
+ * the logical screen, honoring disposal methods, transparency and interlacing.
+ * Works on plain typed arrays so it can run on the main thread or in a worker.
+ */
+
+// Error raised for malformed or unsupported GIF data
+class GifDecodeError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'GifDecodeError';
+  }
+}
+
+/** How the decoder should treat the frame area before rendering the next frame */
+type GifDisposalMethod = 0 | 1 | 2 | 3;
+
+interface GifFrameInfo {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  delay: number; // ms, normalized the way browsers play it back
+  disposal: GifDisposalMethod;
+  transparentIndex: number | null;
+  interlaced: boolean;
+  localPalette: Uint8Array | null;
+  lzwMinCodeSize: number;
+  imageData: Uint8Array; // Concatenated LZW sub-blocks
+}
+
+interface ParsedGif {
+  version: '87a' | '89a';
+  width: number;
+  height: number;
+  backgroundIndex: number;
+  globalPalette: Uint8Array | null;
+  loopCount: number | null; // null = no NETSCAPE extension (play once), 0 = forever
+  frames: GifFrameInfo[];
+}
+
+interface DecodedGifFrame {
+  pixels: Uint8ClampedArray<ArrayBuffer>; // RGBA, full logical screen size
+  delay: number;
+  disposal: GifDisposalMethod;
+}
+
+interface DecodedGif {
+  width: number;
+  height: number;
+  loopCount: number | null;
+  frames: DecodedGifFrame[];
+}
+
+type DecodeProgressCallback = (decodedFrames: number, totalFrames: number) => void;
+
+// Browsers clamp very short delays (0 or 10ms) to 100ms; mirror that so playback speed matches
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_MS = 100;
+const MAX_LZW_CODES = 4096;
+
+const normalizeDelay = (delayCs: number): number =>
+  delayCs < MIN_DELAY_CS ? DEFAULT_DELAY_MS : delayCs * 10;
+
+// Minimal forward-only reader over the raw bytes
+class ByteReader {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.pos;
+  }
+
+  ensure(count: number, what: string): void {
+    if (this.remaining < count) {
+      throw new GifDecodeError(`Unexpected end of file while reading ${what}`, 'parsing');
+    }
+  }
+
+  u8(): number {
+    this.ensure(1, 'byte');
+    return this.bytes[this.pos++];
+  }
+
+  u16(): number {
+    this.ensure(2, 'word');
+    const value = this.bytes[this.pos] | (this.bytes[this.pos + 1] << 8);
+    this.pos += 2;
+    return value;
+  }
+
+  take(count: number, what: string): Uint8Array {
+    this.ensure(count, what);
+    const slice = this.bytes.subarray(this.pos, this.pos + count);
+    this.pos += count;
+    return slice;
+  }
+
+  string(count: number): string {
+    return String.fromCharCode(...this.take(count, 'string'));
+  }
+
+  // Read a chain of data sub-blocks terminated by a zero-length block
+  subBlocks(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+      if (this.remaining === 0) break; // Tolerate files truncated inside image data
+      const size = this.u8();
+      if (size === 0) break;
+      const chunk = this.take(Math.min(size, this.remaining), 'sub-block');
+      chunks.push(chunk);
+      total += chunk.length;
+    }
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+
+  skipSubBlocks(): void {
+    for (;;) {
+      if (this.remaining === 0) return;
+      const size = this.u8();
+      if (size === 0) return;
+      this.pos += Math.min(size, this.remaining);
+    }
+  }
+}
+
+/**
+ * Parse the block structure of a GIF without decoding pixel data
+ * @param buffer - Raw GIF file contents
+ * @returns Header information and per-frame descriptors
+ */
+export const parseGif = (buffer: ArrayBuffer | Uint8Array): ParsedGif => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const reader = new ByteReader(bytes);
+
+  if (reader.remaining < 13) {
+    throw new GifDecodeError('File is too small to be a GIF', 'header');
+  }
+
+  const signature = reader.string(6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new GifDecodeError('Not a GIF file (missing GIF87a/GIF89a signature)', 'header');
+  }
+
+  // Logical screen descriptor
+  const width = reader.u16();
+  const height = reader.u16();
+  const packed = reader.u8();
+  const backgroundIndex = reader.u8();
+  reader.u8(); // Pixel aspect ratio (ignored)
+
+  if (width === 0 || height === 0) {
+    throw new GifDecodeError('GIF has an empty logical screen', 'header');
+  }
+
+  const globalPalette = packed & 0x80
+    ? reader.take(3 * (2 << (packed & 0x07)), 'global color table')
+    : null;
+
+  const frames: GifFrameInfo[] = [];
+  let loopCount: number | null = null;
+
+  // Graphic control extension state applies to the next image only
+  let pendingDelay = 0;
+  let pendingDisposal: GifDisposalMethod = 0;
+  let pendingTransparent: number | null = null;
+
+  parseLoop: while (reader.remaining > 0) {
+    const blockType = reader.u8();
+
+    switch (blockType) {
+      case 0x21: {
+        const label = reader.u8();
+        if (label === 0xf9) {
+          const blockSize = reader.u8();
+          const block = reader.take(blockSize, 'graphic control extension');
+          if (blockSize >= 4) {
+            const flags = block[0];
+            pendingDisposal = ((flags >> 2) & 0x07) as GifDisposalMethod;
+            if (pendingDisposal > 3) pendingDisposal = 0; // Reserved values behave like "unspecified"
+            pendingDelay = block[1] | (block[2] << 8);
+            pendingTransparent = flags & 0x01 ? block[3] : null;
+          }
+          reader.skipSubBlocks();
+        } else if (label === 0xff) {
+          const blockSize = reader.u8();
+          const identifier = String.fromCharCode(...reader.take(blockSize, 'application extension'));
+          if (identifier === 'NETSCAPE2.0' || identifier === 'ANIMEXTS1.0') {
+            const data = reader.subBlocks();
+            if (data.length >= 3 && data[0] === 0x01) {
+              loopCount = data[1] | (data[2] << 8);
+            }
+          } else {
+            reader.skipSubBlocks();
+          }
+        } else {
+          // Comment, plain text and unknown extensions carry nothing we render
+          reader.skipSubBlocks();
+        }
+        break;
+      }
+
+      case 0x2c: {
+        const left = reader.u16();
+        const top = reader.u16();
+        const frameWidth = reader.u16();
+        const frameHeight = reader.u16();
+        const flags = reader.u8();
+        const localPalette = flags & 0x80
+          ? reader.take(3 * (2 << (flags & 0x07)), 'local color table')
+          : null;
+        const lzwMinCodeSize = reader.u8();
+
+        if (lzwMinCodeSize < 1 || lzwMinCodeSize > 11) {
+          throw new GifDecodeError(`Invalid LZW minimum code size (${lzwMinCodeSize})`, 'parsing');
+        }
+
+        frames.push({
+          left,
+          top,
+          width: frameWidth,
+          height: frameHeight,
+          delay: normalizeDelay(pendingDelay),
+          disposal: pendingDisposal,
+          transparentIndex: pendingTransparent,
+          interlaced: (flags & 0x40) !== 0,
+          localPalette,
+          lzwMinCodeSize,
+          imageData: reader.subBlocks()
+        });
+
+        pendingDelay = 0;
+        pendingDisposal = 0;
+        pendingTransparent = null;
+        break;
+      }
+
+      case 0x3b:
+        break parseLoop;
+
+      default:
+        // Trailing garbage after valid frames is common; only fail if nothing was found
+        if (frames.length > 0) break parseLoop;
+        throw new GifDecodeError(`Unknown block type 0x${blockType.toString(16)}`, 'parsing');
+    }
+  }
+
+  if (frames.length === 0) {
+    throw new GifDecodeError('GIF contains no image frames', 'parsing');
+  }
+
+  return {
+    version: signature === 'GIF87a' ? '87a' : '89a',
+    width,
+    height,
+    backgroundIndex,
+    globalPalette,
+    loopCount,
+    frames
+  };
+};
+
+/**
+ * Decode GIF LZW-compressed image data into palette indices
+ * Truncated streams leave the remaining pixels at index 0 instead of failing.
+ */
+const decodeLzw = (minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array => {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+
+  const prefix = new Uint16Array(MAX_LZW_CODES);
+  const suffix = new Uint8Array(MAX_LZW_CODES);
+  const stack = new Uint8Array(MAX_LZW_CODES + 1);
+
+  for (let code = 0; code < clearCode; code++) {
+    suffix[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let available = clearCode + 2;
+  let oldCode = -1;
+  let first = 0;
+
+  let datum = 0;
+  let bits = 0;
+  let pos = 0;
+  let out = 0;
+
+  while (out < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return output;
+      datum |= data[pos++] << bits;
+      bits += 8;
+    }
+
+    const code = datum & codeMask;
+    datum >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      available = clearCode + 2;
+      oldCode = -1;
+      continue;
+    }
+
+    if (code === endCode) break;
+
+    if (oldCode === -1) {
+      first = suffix[code];
+      output[out++] = first;
+      oldCode = code;
+      continue;
+    }
+
+    let top = 0;
+    let current = code;
+
+    // KwKwK case: the code is not in the table yet
+    if (current >= available) {
+      stack[top++] = first;
+      current = oldCode;
+    }
+
+    while (current >= clearCode && top < MAX_LZW_CODES) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+
+    first = suffix[current];
+    stack[top++] = first;
+
+    if (available < MAX_LZW_CODES) {
+      prefix[available] = oldCode;
+      suffix[available] = first;
+      available++;
+      if ((available & codeMask) === 0 && codeSize < 12) {
+        codeSize++;
+        codeMask += available;
+      }
+    }
+
+    oldCode = code;
+
+    while (top > 0 && out < pixelCount) {
+      output[out++] = stack[--top];
+    }
+  }
+
+  return output;
+};
+
+// Reorder rows of an interlaced image (passes start at rows 0, 4, 2, 1)
+const deinterlace = (indices: Uint8Array, width: number, height: number): Uint8Array => {
+  const result = new Uint8Array(indices.length);
+  const passes = [
+    { start: 0, step: 8 },
+    { start: 4, step: 8 },
+    { start: 2, step: 4 },
+    { start: 1, step: 2 }
+  ];
+
+  let sourceRow = 0;
+  for (const { start, step } of passes) {
+    for (let row = start; row < height; row += step) {
+      result.set(indices.subarray(sourceRow * width, (sourceRow + 1) * width), row * width);
+      sourceRow++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Decode the palette indices of a single frame
+ * @param frame - Frame descriptor from parseGif
+ * @returns Palette indices for the frame rectangle, in row order
+ */
+export const decodeFrameIndices = (frame: GifFrameInfo): Uint8Array => {
+  const indices = decodeLzw(frame.lzwMinCodeSize, frame.imageData, frame.width * frame.height);
+  return frame.interlaced ? deinterlace(indices, frame.width, frame.height) : indices;
+};
+
+/**
+ * Composite every frame of a parsed GIF onto the logical screen
+ * @param gif - Result of parseGif
+ * @param onProgress - Optional callback invoked after each frame
+ * @returns Full-size RGBA frames with their playback delay
+ */
+export const decodeGifFrames = (gif: ParsedGif, onProgress?: DecodeProgressCallback): DecodedGifFrame[] => {
+  const { width, height } = gif;
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const decoded: DecodedGifFrame[] = [];
+
+  gif.frames.forEach((frame, frameIndex) => {
+    const palette = frame.localPalette ?? gif.globalPalette;
+    if (!palette) {
+      throw new GifDecodeError(`Frame ${frameIndex + 1} has no color table`, 'decoding');
+    }
+
+    const previous = frame.disposal === 3 ? canvas.slice() : null;
+    const indices = decodeFrameIndices(frame);
+    const paletteLength = palette.length / 3;
+
+    // Clip the frame rectangle to the logical screen
+    const xEnd = Math.min(frame.left + frame.width, width);
+    const yEnd = Math.min(frame.top + frame.height, height);
+
+    for (let y = frame.top; y < yEnd; y++) {
+      const sourceRow = (y - frame.top) * frame.width;
+      for (let x = frame.left; x < xEnd; x++) {
+        const index = indices[sourceRow + (x - frame.left)];
+        if (index === frame.transparentIndex || index >= paletteLength) continue;
+
+        const target = (y * width + x) * 4;
+        canvas[target] = palette[index * 3];
+        canvas[target + 1] = palette[index * 3 + 1];
+        canvas[target + 2] = palette[index * 3 + 2];
+        canvas[target + 3] = 255;
+      }
+    }
+
+    decoded.push({
+      pixels: canvas.slice(),
+      delay: frame.delay,
+      disposal: frame.disposal
+    });
+
+    // Prepare the canvas for the next frame
+    if (frame.disposal === 2) {
+      // Restore to background: browsers clear to transparent rather than the background color
+      for (let y = frame.top; y < yEnd; y++) {
+        canvas.fill(0, (y * width + frame.left) * 4, (y * width + xEnd) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+
+    onProgress?.(frameIndex + 1, gif.frames.length);
+  });
+
+  return decoded;
+};
+
+/**
+ * Parse and fully decode a GIF file
+ * @param buffer - Raw GIF file contents
+ * @param onProgress - Optional callback invoked after each frame
+ * @returns Composited frames plus screen size and loop count
+ */
+export const decodeGif = (buffer: ArrayBuffer | Uint8Array, onProgress?: DecodeProgressCallback): DecodedGif => {
+  let parsed: ParsedGif;
+  try {
+    parsed = parseGif(buffer);
+  } catch (error) {
+    if (error instanceof GifDecodeError) throw error;
+    throw new GifDecodeError('Failed to parse GIF', 'parsing', error as Error);
+  }
+
+  return {
+    width: parsed.width,
+    height: parsed.height,
+    loopCount: parsed.loopCount,
+    frames: decodeGifFrames(parsed, onProgress)
+  };
+};
+
+// Export types and error class
+export {
+  GifDecodeError,
+  type GifDisposalMethod,
+  type GifFrameInfo,
+  type ParsedGif,
+  type DecodedGifFrame,
+  type DecodedGif,
+  type DecodeProgressCallback
+};
@@ -0,0 +1,67 @@
+/**
+ * Main-thread client for the GIF decoder worker.
+ * Falls back to decoding inline where module workers are unavailable.
+ */
+
+import { decodeGif, type DecodedGif } from './gifDecoder';
+import type { GifDecoderRequest, GifDecoderResponse } from '../workers/gifDecoder.worker';
+import { onAbort, ProcessingCancelledError, throwIfAborted } from './cancellation';
+
+let nextRequestId = 0;
+
+/**
+ * Decode every frame of a GIF in a Web Worker
+ * @param file - GIF file; only a reference is passed to the worker
+ * @param signal - Terminates the worker when aborted
+ * @returns Composited frames plus screen size and loop count
+ */
+export const decodeGifInWorker = (file: Blob, signal?: AbortSignal): Promise<DecodedGif> => {
+  if (typeof Worker === 'undefined') {
+    return file.arrayBuffer().then((buffer) => {
+      throwIfAborted(signal);
+      return decodeGif(buffer);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/gifDecoder.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      // Module workers are unsupported (older browsers); decode on the main thread instead
+      file.arrayBuffer().then((buffer) => decodeGif(buffer)).then(resolve, reject);
+      return;
+    }
+
+    const id = nextRequestId++;
+    const removeAbortListener = onAbort(signal, () => {
+      worker.terminate();
+      reject(new ProcessingCancelledError());
+    });
+
+    worker.onmessage = (event: MessageEvent<GifDecoderResponse>) => {
+      if (event.data.id !== id) return;
+      worker.terminate();
+      removeAbortListener();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.gif);
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      removeAbortListener();
+      reject(new Error(event.message || 'GIF decoder worker failed'));
+    };
+
+    const request: GifDecoderRequest = { id, file };
+    worker.postMessage(request);
+  });
+};
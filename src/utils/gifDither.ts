@@ -0,0 +1,208 @@
+/**
+ * Dithering stage for GIF output.
+ * Maps RGBA pixels onto an already-built palette, spreading quantization error
+ * either with an ordered threshold matrix or by error diffusion.
+ */
+
+import { createColorMatcher, mapToPalette } from './gifQuantizer';
+
+type DitherMethod = 'none' | 'bayer4' | 'bayer8' | 'floyd-steinberg' | 'atkinson' | 'sierra-lite';
+
+export const DITHER_METHODS: { value: DitherMethod; label: string; description: string }[] = [
+  { value: 'none', label: 'None', description: 'Flat colors, smallest files' },
+  { value: 'bayer4', label: 'Bayer 4×4', description: 'Ordered, coarse pattern' },
+  { value: 'bayer8', label: 'Bayer 8×8', description: 'Ordered, finer pattern' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg', description: 'Smooth gradients, more noise' },
+  { value: 'atkinson', label: 'Atkinson', description: 'High contrast, less noise' },
+  { value: 'sierra-lite', label: 'Sierra Lite', description: 'Fast diffusion, soft grain' }
+];
+
+const ALPHA_THRESHOLD = 128;
+
+// Error diffusion kernels as [dx, dy, weight] with a shared divisor
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson' | 'sierra-lite', { divisor: number; taps: [number, number, number][] }> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]]
+  },
+  // Atkinson only diffuses 6/8 of the error, which keeps highlights and shadows clean
+  atkinson: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]]
+  },
+  'sierra-lite': {
+    divisor: 4,
+    taps: [[1, 0, 2], [-1, 1, 1], [0, 1, 1]]
+  }
+};
+
+// Recursively build a normalized Bayer threshold matrix of size 2^n
+const bayerMatrix = (size: number): Float32Array => {
+  let matrix = [[0]];
+  while (matrix.length < size) {
+    const n = matrix.length;
+    const next: number[][] = Array.from({ length: n * 2 }, () => new Array<number>(n * 2));
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const v = matrix[y][x] * 4;
+        next[y][x] = v;
+        next[y][x + n] = v + 2;
+        next[y + n][x] = v + 3;
+        next[y + n][x + n] = v + 1;
+      }
+    }
+    matrix = next;
+  }
+
+  const cells = size * size;
+  return Float32Array.from(matrix.flat(), (v) => (v + 0.5) / cells - 0.5);
+};
+
+const BAYER_4 = bayerMatrix(4);
+const BAYER_8 = bayerMatrix(8);
+
+const clampByte = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+const orderedDither = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  matrix: Float32Array,
+  matrixSize: number,
+  matcher: (r: number, g: number, b: number) => number
+): Uint8Array => {
+  const indices = new Uint8Array(pixels.length / 4);
+  // Spread the threshold by roughly the spacing between palette colors
+  const colorCount = palette.length / 3 - (transparentIndex !== null ? 1 : 0);
+  const spread = Math.min(96, Math.max(8, 256 / Math.cbrt(Math.max(1, colorCount))));
+
+  for (let i = 0, p = 0; p < pixels.length; i++, p += 4) {
+    if (transparentIndex !== null && pixels[p + 3] < ALPHA_THRESHOLD) {
+      indices[i] = transparentIndex;
+      continue;
+    }
+    const x = i % width;
+    const y = (i / width) | 0;
+    const offset = matrix[(y % matrixSize) * matrixSize + (x % matrixSize)] * spread;
+    indices[i] = matcher(clampByte(pixels[p] + offset), clampByte(pixels[p + 1] + offset), clampByte(pixels[p + 2] + offset));
+  }
+
+  return indices;
+};
+
+const diffusionDither = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  kernel: { divisor: number; taps: [number, number, number][] },
+  matcher: (r: number, g: number, b: number) => number
+): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  const working = new Float32Array(width * height * 3);
+  for (let i = 0, p = 0; p < pixels.length; i += 3, p += 4) {
+    working[i] = pixels[p];
+    working[i + 1] = pixels[p + 1];
+    working[i + 2] = pixels[p + 2];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (transparentIndex !== null && pixels[i * 4 + 3] < ALPHA_THRESHOLD) {
+        indices[i] = transparentIndex;
+        continue;
+      }
+
+      const r = clampByte(working[i * 3]);
+      const g = clampByte(working[i * 3 + 1]);
+      const b = clampByte(working[i * 3 + 2]);
+      const index = matcher(r, g, b);
+      indices[i] = index;
+
+      const errR = r - palette[index * 3];
+      const errG = g - palette[index * 3 + 1];
+      const errB = b - palette[index * 3 + 2];
+      if (errR === 0 && errG === 0 && errB === 0) continue;
+
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+        const target = (ny * width + nx) * 3;
+        const factor = weight / kernel.divisor;
+        working[target] += errR * factor;
+        working[target + 1] += errG * factor;
+        working[target + 2] += errB * factor;
+      }
+    }
+  }
+
+  return indices;
+};
+
+/**
+ * Map RGBA pixels to palette indices using the selected dithering method
+ * @param pixels - RGBA buffer
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @param palette - Packed RGB palette
+ * @param transparentIndex - Index written for transparent pixels
+ * @param method - Dithering algorithm
+ * @param matcher - Optional shared matcher so lookups are cached across frames
+ * @returns One palette index per pixel
+ */
+export const ditherToPalette = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  method: DitherMethod,
+  matcher = createColorMatcher(palette, transparentIndex)
+): Uint8Array => {
+  switch (method) {
+    case 'bayer4':
+      return orderedDither(pixels, width, palette, transparentIndex, BAYER_4, 4, matcher);
+    case 'bayer8':
+      return orderedDither(pixels, width, palette, transparentIndex, BAYER_8, 8, matcher);
+    case 'floyd-steinberg':
+    case 'atkinson':
+    case 'sierra-lite':
+      return diffusionDither(pixels, width, height, palette, transparentIndex, DIFFUSION_KERNELS[method], matcher);
+    default:
+      return mapToPalette(pixels, palette, transparentIndex, matcher);
+  }
+};
+
+/**
+ * Expand palette indices back into RGBA pixels
+ * @param indices - Palette indices
+ * @param palette - Packed RGB palette
+ * @param transparentIndex - Index rendered as fully transparent
+ * @param target - Optional buffer to write into
+ */
+export const indicesToRgba = (
+  indices: Uint8Array,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  target = new Uint8ClampedArray(indices.length * 4)
+): Uint8ClampedArray => {
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    const index = indices[i];
+    if (index === transparentIndex) {
+      target[p + 3] = 0;
+      continue;
+    }
+    target[p] = palette[index * 3];
+    target[p + 1] = palette[index * 3 + 1];
+    target[p + 2] = palette[index * 3 + 2];
+    target[p + 3] = 255;
+  }
+  return target;
+};
+
+// Export types
+export { type DitherMethod };
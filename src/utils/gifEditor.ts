@@ -0,0 +1,210 @@
+/**
+ * Whole-GIF edits (crop, resize, speed, text, rotate, reverse, boomerang).
+ * Each edit decodes the GIF, transforms every composited frame on a canvas
+ * and re-encodes through the compressor pipeline, so edits can be chained.
+ */
+
+import type { EditParams } from '../types/common';
+import { decodeGif } from './gifDecoder';
+import { compressGif, type GifFrameSource, type ProgressCallback } from './gifCompressor';
+import { MIN_FRAME_DELAY } from './gifFrameEditor';
+import { ProcessingCancelledError, throwIfAborted } from './cancellation';
+import { orderFrames } from './playbackTiming';
+
+type GifEditType = 'crop' | 'resize' | 'speed' | 'text' | 'rotate' | 'reverse' | 'boomerang';
+
+interface GifEditResult {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+class GifEditError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'GifEditError';
+  }
+}
+
+const GIF_EDIT_TYPES: readonly GifEditType[] = ['crop', 'resize', 'speed', 'text', 'rotate', 'reverse', 'boomerang'];
+
+const isGifEditType = (value: string): value is GifEditType =>
+  (GIF_EDIT_TYPES as readonly string[]).includes(value);
+
+// EditParams values arrive loosely typed from form inputs
+const numberParam = (params: EditParams | undefined, key: string, fallback: number): number => {
+  const value = Number(params?.[key]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const stringParam = (params: EditParams | undefined, key: string, fallback: string): string => {
+  const value = params?.[key];
+  return typeof value === 'string' ? value : fallback;
+};
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new GifEditError('Failed to create canvas context', 'editing');
+  }
+  return ctx;
+};
+
+// Run a canvas drawing operation over every frame, producing frames of a new size
+const mapFrames = (
+  source: GifFrameSource,
+  width: number,
+  height: number,
+  draw: (ctx: CanvasRenderingContext2D, frameCanvas: HTMLCanvasElement) => void
+): GifFrameSource => {
+  const frameCtx = createContext(source.width, source.height);
+  const ctx = createContext(width, height);
+
+  const frames = source.frames.map((frame) => {
+    frameCtx.putImageData(frame, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.save();
+    draw(ctx, frameCtx.canvas);
+    ctx.restore();
+    return ctx.getImageData(0, 0, width, height);
+  });
+
+  return { ...source, frames, width, height };
+};
+
+const applyEdit = (source: GifFrameSource, type: GifEditType, params?: EditParams): GifFrameSource => {
+  switch (type) {
+    case 'crop': {
+      const x = Math.max(0, Math.min(source.width - 1, Math.round(numberParam(params, 'x', 0))));
+      const y = Math.max(0, Math.min(source.height - 1, Math.round(numberParam(params, 'y', 0))));
+      const width = Math.max(1, Math.min(source.width - x, Math.round(numberParam(params, 'width', source.width))));
+      const height = Math.max(1, Math.min(source.height - y, Math.round(numberParam(params, 'height', source.height))));
+      return mapFrames(source, width, height, (ctx, frame) => ctx.drawImage(frame, -x, -y));
+    }
+
+    case 'resize': {
+      const width = Math.max(1, Math.round(numberParam(params, 'width', source.width)));
+      const height = Math.max(1, Math.round(numberParam(params, 'height', source.height)));
+      return mapFrames(source, width, height, (ctx, frame) => {
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(frame, 0, 0, width, height);
+      });
+    }
+
+    case 'speed': {
+      const multiplier = numberParam(params, 'multiplier', 1);
+      if (multiplier <= 0) {
+        throw new GifEditError('Speed multiplier must be greater than zero', 'validation');
+      }
+      return { ...source, delays: source.delays.map((delay) => Math.max(MIN_FRAME_DELAY, Math.round(delay / multiplier))) };
+    }
+
+    case 'text': {
+      const text = stringParam(params, 'text', '').trim();
+      if (!text) {
+        throw new GifEditError('Enter some text to add', 'validation');
+      }
+      const x = numberParam(params, 'x', 0);
+      const y = numberParam(params, 'y', 0);
+      const fontSize = Math.max(6, numberParam(params, 'fontSize', 24));
+      const color = stringParam(params, 'color', '#ffffff');
+      const lines = text.split('\n');
+
+      return mapFrames(source, source.width, source.height, (ctx, frame) => {
+        ctx.drawImage(frame, 0, 0);
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.textBaseline = 'top';
+        ctx.fillStyle = color;
+        // A dark outline keeps the caption readable on any background
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.lineWidth = Math.max(2, fontSize / 8);
+        ctx.lineJoin = 'round';
+        lines.forEach((line, index) => {
+          const lineY = y + index * fontSize * 1.2;
+          ctx.strokeText(line, x, lineY);
+          ctx.fillText(line, x, lineY);
+        });
+      });
+    }
+
+    case 'rotate': {
+      const degrees = ((Math.round(numberParam(params, 'degrees', 90) / 90) * 90) % 360 + 360) % 360;
+      if (degrees === 0) return source;
+      const swap = degrees === 90 || degrees === 270;
+      const width = swap ? source.height : source.width;
+      const height = swap ? source.width : source.height;
+      return mapFrames(source, width, height, (ctx, frame) => {
+        ctx.translate(width / 2, height / 2);
+        ctx.rotate((degrees * Math.PI) / 180);
+        ctx.drawImage(frame, -source.width / 2, -source.height / 2);
+      });
+    }
+
+    case 'reverse':
+      return { ...source, frames: [...source.frames].reverse(), delays: [...source.delays].reverse() };
+
+    case 'boomerang':
+      return { ...source, frames: orderFrames(source.frames, 'boomerang'), delays: orderFrames(source.delays, 'boomerang') };
+  }
+};
+
+/**
+ * Apply a single edit to a GIF and re-encode it
+ * @param gifBlob - GIF to edit (typically the result of a previous edit)
+ * @param editType - One of crop, resize, speed, text, rotate, reverse, boomerang
+ * @param params - Edit parameters as produced by PostConversionOptions
+ * @param onProgress - Progress of the re-encode
+ * @param signal - Cancels the re-encode
+ * @returns The edited GIF with its new dimensions
+ */
+export const editGif = async (
+  gifBlob: Blob,
+  editType: string,
+  params?: EditParams,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<GifEditResult> => {
+  if (!isGifEditType(editType)) {
+    throw new GifEditError(`Unsupported edit: ${editType}`, 'validation');
+  }
+
+  let source: GifFrameSource;
+  try {
+    const decoded = decodeGif(await gifBlob.arrayBuffer());
+    source = {
+      frames: decoded.frames.map((frame) => new ImageData(frame.pixels, decoded.width, decoded.height)),
+      delays: decoded.frames.map((frame) => frame.delay),
+      width: decoded.width,
+      height: decoded.height,
+      loopCount: decoded.loopCount
+    };
+  } catch (error) {
+    throw new GifEditError('Failed to decode GIF', 'decoding', error as Error);
+  }
+
+  throwIfAborted(signal);
+  const edited = applyEdit(source, editType, params);
+
+  try {
+    const blob = await compressGif(
+      edited,
+      { quality: 90, paletteSize: 256, globalPalette: true, optimizeFrames: true },
+      onProgress,
+      signal
+    );
+    return { blob, width: edited.width, height: edited.height };
+  } catch (error) {
+    if (error instanceof ProcessingCancelledError) throw error;
+    throw new GifEditError('Failed to encode edited GIF', 'encoding', error as Error);
+  }
+};
+
+// Export types and error class
+export {
+  GifEditError,
+  type GifEditType,
+  type GifEditResult
+};
@@ -0,0 +1,289 @@
+/**
+ * GIF89a encoder for pre-quantized (indexed) frames.
+ * Unlike gif.js, which always re-quantizes to a 256 color table, this writes
+ * the palettes it is given verbatim, so palette size directly affects output size.
+ */
+
+interface GifEncodeFrame {
+  indices: Uint8Array; // One palette index per pixel of the frame rectangle
+  palette: Uint8Array | null; // Local RGB palette, or null to use the global one
+  delay: number; // ms
+  transparentIndex?: number | null | undefined;
+  disposal?: 0 | 1 | 2 | 3 | undefined;
+  left?: number | undefined;
+  top?: number | undefined;
+  width?: number | undefined; // Defaults to the logical screen size
+  height?: number | undefined;
+}
+
+interface GifEncodeOptions {
+  width: number;
+  height: number;
+  globalPalette?: Uint8Array | null | undefined;
+  loopCount?: number | null | undefined; // 0 = forever, null = play once
+  lossy?: number | undefined; // 0 = lossless, up to MAX_LOSSINESS; gifsicle --lossy style
+}
+
+// Lets the LZW encoder follow an existing dictionary entry when its next color is close enough
+interface LossyLzwOptions {
+  palette: Uint8Array;
+  transparentIndex: number | null;
+  lossiness: number;
+}
+
+const MAX_LZW_CODES = 4096;
+const MAX_SUB_BLOCK = 255;
+export const MAX_LOSSINESS = 200;
+
+// Growable byte buffer
+class ByteWriter {
+  private buffer = new Uint8Array(64 * 1024);
+  length = 0;
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + count) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.reserve(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// Number of bits needed to address a color table of the given entry count (1-8)
+const colorTableBits = (entries: number): number => {
+  let bits = 1;
+  while ((1 << bits) < entries && bits < 8) bits++;
+  return bits;
+};
+
+// Write a palette padded with black up to the power-of-two size the header declares
+const writeColorTable = (writer: ByteWriter, palette: Uint8Array, bits: number): void => {
+  writer.bytes(palette.subarray(0, Math.min(palette.length, 3 << bits)));
+  for (let i = palette.length; i < 3 << bits; i++) writer.byte(0);
+};
+
+// Squared RGB distance between two palette entries
+const paletteDistance = (palette: Uint8Array, a: number, b: number): number => {
+  const dr = palette[a * 3] - palette[b * 3];
+  const dg = palette[a * 3 + 1] - palette[b * 3 + 1];
+  const db = palette[a * 3 + 2] - palette[b * 3 + 2];
+  return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * LZW-compress palette indices using GIF's variable-length code scheme
+ * @param minCodeSize - LZW minimum code size (2-8)
+ * @param indices - Palette indices to encode
+ * @param lossy - When set, runs are extended through entries whose next color is within the lossiness
+ *   distance of the actual pixel, trading exactness for longer codes
+ * @returns Raw code stream (not yet split into sub-blocks)
+ */
+export const lzwEncode = (minCodeSize: number, indices: Uint8Array, lossy?: LossyLzwOptions): Uint8Array => {
+  const writer = new ByteWriter();
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const dictionary = new Map<number, number>();
+  // Symbols that extend each code, only tracked in lossy mode to search near matches
+  const children: number[][] | null = lossy && lossy.lossiness > 0 ? [] : null;
+  const maxDistance = lossy ? lossy.lossiness * lossy.lossiness : 0;
+
+  const findSimilar = (prefix: number, symbol: number): number | undefined => {
+    if (!children || !lossy) return undefined;
+    const candidates = children[prefix];
+    if (!candidates) return undefined;
+
+    let bestCode: number | undefined;
+    let bestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+      // Never trade transparency for a color or the other way around
+      if ((candidate === lossy.transparentIndex) !== (symbol === lossy.transparentIndex)) continue;
+      const distance = paletteDistance(lossy.palette, candidate, symbol);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestCode = dictionary.get((prefix << 8) | candidate);
+      }
+    }
+    return bestCode;
+  };
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let accumulator = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    accumulator |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      writer.byte(accumulator);
+      accumulator >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const reset = () => {
+    dictionary.clear();
+    if (children) children.length = 0;
+    codeSize = minCodeSize + 1;
+    nextCode = endCode + 1;
+  };
+
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+
+    for (let i = 1; i < indices.length; i++) {
+      const symbol = indices[i];
+      const key = (prefix << 8) | symbol;
+      const existing = dictionary.get(key);
+
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      const similar = findSimilar(prefix, symbol);
+      if (similar !== undefined) {
+        prefix = similar;
+        continue;
+      }
+
+      emit(prefix);
+
+      if (nextCode < MAX_LZW_CODES) {
+        // Grow the code width exactly when the decoder will
+        if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+        dictionary.set(key, nextCode++);
+        if (children) (children[prefix] ??= []).push(symbol);
+      } else {
+        emit(clearCode);
+        reset();
+      }
+
+      prefix = symbol;
+    }
+
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) writer.byte(accumulator);
+
+  return writer.result();
+};
+
+// Split a code stream into length-prefixed sub-blocks with a zero terminator
+const writeSubBlocks = (writer: ByteWriter, data: Uint8Array): void => {
+  for (let offset = 0; offset < data.length; offset += MAX_SUB_BLOCK) {
+    const chunk = data.subarray(offset, offset + MAX_SUB_BLOCK);
+    writer.byte(chunk.length);
+    writer.bytes(chunk);
+  }
+  writer.byte(0);
+};
+
+/**
+ * Encode indexed frames into a GIF89a file
+ * @param frames - Indexed frames with their delays and optional local palettes
+ * @param options - Logical screen size, global palette and loop count
+ * @returns Encoded GIF bytes
+ */
+export const encodeGif = (frames: GifEncodeFrame[], options: GifEncodeOptions): Uint8Array<ArrayBuffer> => {
+  const { width, height, globalPalette = null, loopCount = 0, lossy = 0 } = options;
+  const lossiness = Math.max(0, Math.min(MAX_LOSSINESS, lossy));
+  const writer = new ByteWriter();
+
+  writer.string('GIF89a');
+
+  // Logical screen descriptor
+  writer.word(width);
+  writer.word(height);
+  const globalBits = globalPalette ? colorTableBits(globalPalette.length / 3) : 0;
+  writer.byte(globalPalette ? 0x80 | ((globalBits - 1) << 4) | (globalBits - 1) : 0);
+  writer.byte(0); // Background color index
+  writer.byte(0); // Pixel aspect ratio
+  if (globalPalette) writeColorTable(writer, globalPalette, globalBits);
+
+  if (loopCount !== null) {
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.string('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01]);
+    writer.word(loopCount);
+    writer.byte(0);
+  }
+
+  for (const frame of frames) {
+    const palette = frame.palette ?? globalPalette;
+    if (!palette) {
+      throw new Error('GIF frame has no palette and no global palette was provided');
+    }
+
+    const transparentIndex = frame.transparentIndex ?? null;
+    const disposal = frame.disposal ?? 0;
+
+    // Graphic control extension
+    writer.bytes([0x21, 0xf9, 0x04]);
+    writer.byte((disposal << 2) | (transparentIndex !== null ? 1 : 0));
+    writer.word(Math.round(frame.delay / 10));
+    writer.byte(transparentIndex ?? 0);
+    writer.byte(0);
+
+    // Image descriptor
+    writer.byte(0x2c);
+    writer.word(frame.left ?? 0);
+    writer.word(frame.top ?? 0);
+    writer.word(frame.width ?? width);
+    writer.word(frame.height ?? height);
+
+    const tableBits = colorTableBits(palette.length / 3);
+    if (frame.palette) {
+      writer.byte(0x80 | (tableBits - 1));
+      writeColorTable(writer, frame.palette, tableBits);
+    } else {
+      writer.byte(0);
+    }
+
+    const minCodeSize = Math.max(2, tableBits);
+    writer.byte(minCodeSize);
+    writeSubBlocks(
+      writer,
+      lzwEncode(minCodeSize, frame.indices, lossiness > 0 ? { palette, transparentIndex, lossiness } : undefined)
+    );
+  }
+
+  writer.byte(0x3b);
+  return writer.result();
+};
+
+// Export types
+export {
+  type GifEncodeFrame,
+  type GifEncodeOptions,
+  type LossyLzwOptions
+};
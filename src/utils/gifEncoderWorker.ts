@@ -0,0 +1,72 @@
+/**
+ * Main-thread client for the GIF encoder worker.
+ * Falls back to encoding inline where module workers are unavailable.
+ */
+
+import { encodeGif, type GifEncodeFrame, type GifEncodeOptions } from './gifEncoder';
+import type { GifEncoderRequest, GifEncoderResponse } from '../workers/gifEncoder.worker';
+import { onAbort, ProcessingCancelledError, throwIfAborted } from './cancellation';
+
+let nextRequestId = 0;
+
+/**
+ * Encode indexed frames into a GIF89a file in a Web Worker
+ * @param frames - Indexed frames; copied to the worker, so they stay usable afterwards
+ * @param options - Encoder options, including lossiness
+ * @param signal - Terminates the worker when aborted
+ * @returns Encoded GIF bytes
+ */
+export const encodeGifInWorker = (
+  frames: GifEncodeFrame[],
+  options: GifEncodeOptions,
+  signal?: AbortSignal
+): Promise<Uint8Array<ArrayBuffer>> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => {
+      throwIfAborted(signal);
+      return encodeGif(frames, options);
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL('../workers/gifEncoder.worker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      // Module workers are unsupported (older browsers); encode on the main thread instead
+      resolve(encodeGif(frames, options));
+      return;
+    }
+
+    const id = nextRequestId++;
+    const removeAbortListener = onAbort(signal, () => {
+      worker.terminate();
+      reject(new ProcessingCancelledError());
+    });
+
+    worker.onmessage = (event: MessageEvent<GifEncoderResponse>) => {
+      if (event.data.id !== id) return;
+      worker.terminate();
+      removeAbortListener();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.bytes);
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      removeAbortListener();
+      reject(new Error(event.message || 'GIF encoder worker failed'));
+    };
+
+    const request: GifEncoderRequest = { id, frames, options };
+    worker.postMessage(request);
+  });
+};
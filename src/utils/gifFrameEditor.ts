@@ -0,0 +1,96 @@
+/**
+ * Frame list operations for the GIF frame editor.
+ * All functions are pure: they return a new array and never mutate frame pixels,
+ * so duplicated frames share pixel buffers until they are re-encoded.
+ */
+
+import type { DecodedGifFrame } from './gifDecoder';
+
+interface EditableFrame {
+  id: number; // Stable key for selection and drag-and-drop
+  pixels: Uint8ClampedArray<ArrayBuffer>; // RGBA, full logical screen size
+  delay: number; // ms
+}
+
+export const MIN_FRAME_DELAY = 20; // GIF delays below 2cs are played back at 100ms by browsers
+export const MAX_FRAME_DELAY = 655350; // 16-bit centiseconds
+
+let nextFrameId = 1;
+
+const clampDelay = (delay: number): number =>
+  Math.min(MAX_FRAME_DELAY, Math.max(MIN_FRAME_DELAY, Math.round(delay / 10) * 10));
+
+/**
+ * Wrap decoded frames so they can be edited
+ * @param frames - Composited frames from the decoder
+ */
+export const createEditableFrames = (frames: DecodedGifFrame[]): EditableFrame[] =>
+  frames.map((frame) => ({ id: nextFrameId++, pixels: frame.pixels, delay: frame.delay }));
+
+/**
+ * Remove the selected frames; at least one frame is always kept
+ * @param frames - Current frame list
+ * @param selected - Ids of frames to delete
+ */
+export const deleteFrames = (frames: EditableFrame[], selected: ReadonlySet<number>): EditableFrame[] => {
+  const remaining = frames.filter((frame) => !selected.has(frame.id));
+  return remaining.length > 0 ? remaining : frames.slice(0, 1);
+};
+
+/**
+ * Insert a copy of every selected frame directly after the original
+ * @param frames - Current frame list
+ * @param selected - Ids of frames to duplicate
+ */
+export const duplicateFrames = (frames: EditableFrame[], selected: ReadonlySet<number>): EditableFrame[] =>
+  frames.flatMap((frame) => (selected.has(frame.id) ? [frame, { ...frame, id: nextFrameId++ }] : [frame]));
+
+/**
+ * Move one frame to a new position
+ * @param frames - Current frame list
+ * @param from - Index of the frame to move
+ * @param to - Index it should end up at
+ */
+export const moveFrame = (frames: EditableFrame[], from: number, to: number): EditableFrame[] => {
+  if (from === to || from < 0 || from >= frames.length) return frames;
+  const next = [...frames];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, moved);
+  return next;
+};
+
+/**
+ * Set the delay of the selected frames, or of every frame when nothing is selected
+ * @param frames - Current frame list
+ * @param selected - Ids of frames to retime
+ * @param delay - New delay in ms, rounded to GIF's 10ms resolution
+ */
+export const setFrameDelays = (
+  frames: EditableFrame[],
+  selected: ReadonlySet<number>,
+  delay: number
+): EditableFrame[] => {
+  const value = clampDelay(delay);
+  return frames.map((frame) =>
+    selected.size === 0 || selected.has(frame.id) ? { ...frame, delay: value } : frame
+  );
+};
+
+/**
+ * Play the animation backwards
+ * @param frames - Current frame list
+ */
+export const reverseFrames = (frames: EditableFrame[]): EditableFrame[] => [...frames].reverse();
+
+/**
+ * Append the frames in reverse so the animation plays forward then backward.
+ * The first and last frames are not repeated, which would otherwise stall the loop.
+ * @param frames - Current frame list
+ */
+export const boomerangFrames = (frames: EditableFrame[]): EditableFrame[] => {
+  const returning = frames.slice(1, -1).reverse().map((frame) => ({ ...frame, id: nextFrameId++ }));
+  return [...frames, ...returning];
+};
+
+// Export types
+export { type EditableFrame };
@@ -0,0 +1,188 @@
+/**
+ * Inter-frame optimization for indexed GIF frames.
+ * Merges identical consecutive frames, crops each frame to the rectangle that
+ * changed since the previous one, writes unchanged pixels as transparent so
+ * LZW sees long runs, and picks disposal methods that keep the result exact.
+ */
+
+import type { GifEncodeFrame } from './gifEncoder';
+import { emptyBounds, extendBounds, isEmptyBounds } from './animationEncoding';
+
+interface OptimizableFrame {
+  indices: Uint8Array; // Full-screen palette indices
+  palette: Uint8Array | null; // Local RGB palette, or null for the shared one
+  transparentIndex: number | null;
+  delay: number; // ms
+}
+
+interface FrameOptimizationOptions {
+  width: number;
+  height: number;
+  globalPalette?: Uint8Array | null | undefined;
+}
+
+interface FrameOptimizationStats {
+  inputFrames: number;
+  outputFrames: number;
+  mergedFrames: number;
+  pixelsWritten: number; // Sum of the written frame rectangles
+  pixelsTotal: number; // Pixels a naive full-frame encode would write
+}
+
+const DISPOSAL_NONE = 1; // Leave the frame in place
+const DISPOSAL_BACKGROUND = 2; // Clear the frame rectangle afterwards
+
+// Per-frame view that resolves indices to comparable colors regardless of palette
+interface ResolvedFrame {
+  frame: OptimizableFrame;
+  palette: Uint8Array;
+}
+
+// Packed 24-bit color for a pixel, or -1 when it is transparent
+const colorAt = (resolved: ResolvedFrame, pixel: number): number => {
+  const index = resolved.frame.indices[pixel];
+  if (index === resolved.frame.transparentIndex) return -1;
+  const { palette } = resolved;
+  return (palette[index * 3] << 16) | (palette[index * 3 + 1] << 8) | palette[index * 3 + 2];
+};
+
+const isSameFrame = (a: ResolvedFrame, b: ResolvedFrame): boolean => {
+  if (a.palette === b.palette && a.frame.transparentIndex === b.frame.transparentIndex) {
+    const x = a.frame.indices;
+    const y = b.frame.indices;
+    for (let i = 0; i < x.length; i++) {
+      if (x[i] !== y[i]) return false;
+    }
+    return true;
+  }
+  for (let i = 0; i < a.frame.indices.length; i++) {
+    if (colorAt(a, i) !== colorAt(b, i)) return false;
+  }
+  return true;
+};
+
+// A pixel that was visible and becomes transparent cannot be drawn over; the canvas must be cleared first
+const needsClear = (previous: ResolvedFrame, current: ResolvedFrame): boolean => {
+  if (current.frame.transparentIndex === null) return false;
+  for (let i = 0; i < current.frame.indices.length; i++) {
+    if (colorAt(current, i) === -1 && colorAt(previous, i) !== -1) return true;
+  }
+  return false;
+};
+
+/**
+ * Optimize a sequence of full-screen indexed frames for size
+ * @param frames - Full-screen frames in display order
+ * @param options - Logical screen size and the shared palette, if any
+ * @returns Cropped frames ready for encodeGif, plus statistics about the savings
+ */
+export const optimizeFrames = (
+  frames: OptimizableFrame[],
+  options: FrameOptimizationOptions
+): { frames: GifEncodeFrame[]; stats: FrameOptimizationStats } => {
+  const { width, height, globalPalette = null } = options;
+  const pixelCount = width * height;
+
+  const resolve = (frame: OptimizableFrame): ResolvedFrame => {
+    const palette = frame.palette ?? globalPalette;
+    if (!palette) {
+      throw new Error('GIF frame has no palette and no global palette was provided');
+    }
+    return { frame, palette };
+  };
+
+  // Merge identical consecutive frames by summing their delays
+  const merged: ResolvedFrame[] = [];
+  for (const frame of frames) {
+    const resolved = resolve(frame);
+    const last = merged[merged.length - 1];
+    if (last && isSameFrame(last, resolved)) {
+      last.frame = { ...last.frame, delay: last.frame.delay + frame.delay };
+    } else {
+      merged.push(resolved);
+    }
+  }
+
+  const output: GifEncodeFrame[] = [];
+  let pixelsWritten = 0;
+  // The canvas starts out transparent, the same state a background disposal leaves behind
+  let canvasCleared = true;
+
+  for (let i = 0; i < merged.length; i++) {
+    const current = merged[i];
+    const previous = canvasCleared ? null : merged[i - 1];
+    const next = merged[i + 1];
+    const disposal = next && needsClear(current, next) ? DISPOSAL_BACKGROUND : DISPOSAL_NONE;
+    const transparentIndex = current.frame.transparentIndex;
+
+    // Changed pixels relative to what is on screen, plus everything visible if we clear afterwards
+    const rect = emptyBounds();
+    const unchanged = new Uint8Array(pixelCount);
+    for (let pixel = 0; pixel < pixelCount; pixel++) {
+      const color = colorAt(current, pixel);
+      const onScreen = previous ? colorAt(previous, pixel) : -1;
+      if (color === onScreen) {
+        unchanged[pixel] = 1;
+        if (disposal === DISPOSAL_BACKGROUND && color !== -1) {
+          extendBounds(rect, pixel % width, (pixel / width) | 0);
+        }
+      } else {
+        extendBounds(rect, pixel % width, (pixel / width) | 0);
+      }
+    }
+
+    if (isEmptyBounds(rect)) {
+      // Nothing to draw, but the frame still carries a delay; write a single pixel
+      rect.left = 0;
+      rect.top = 0;
+      rect.right = 1;
+      rect.bottom = 1;
+    }
+
+    const rectWidth = rect.right - rect.left;
+    const rectHeight = rect.bottom - rect.top;
+    const indices = new Uint8Array(rectWidth * rectHeight);
+    for (let y = 0; y < rectHeight; y++) {
+      const sourceRow = (rect.top + y) * width + rect.left;
+      for (let x = 0; x < rectWidth; x++) {
+        const pixel = sourceRow + x;
+        // Unchanged pixels become transparent when the palette has a slot for it
+        indices[y * rectWidth + x] = unchanged[pixel] && transparentIndex !== null
+          ? transparentIndex
+          : current.frame.indices[pixel];
+      }
+    }
+
+    output.push({
+      indices,
+      palette: current.frame.palette,
+      delay: current.frame.delay,
+      transparentIndex,
+      disposal,
+      left: rect.left,
+      top: rect.top,
+      width: rectWidth,
+      height: rectHeight
+    });
+    pixelsWritten += indices.length;
+    canvasCleared = disposal === DISPOSAL_BACKGROUND;
+  }
+
+  return {
+    frames: output,
+    stats: {
+      inputFrames: frames.length,
+      outputFrames: output.length,
+      mergedFrames: frames.length - merged.length,
+      pixelsWritten,
+      pixelsTotal: frames.length * pixelCount
+    }
+  };
+};
+
+// Export types
+export {
+  type OptimizableFrame,
+  type FrameOptimizationOptions,
+  type FrameOptimizationStats
+};
@@ -0,0 +1,532 @@
+/**
+ * Palette quantization for GIF output.
+ * Builds a reduced color palette from RGBA pixel data using one of three
+ * algorithms and maps pixels onto it. Pure typed-array code with no DOM access.
+ */
+
+type QuantizerMethod = 'median-cut' | 'octree' | 'neuquant';
+
+interface QuantizerOptions {
+  method: QuantizerMethod;
+  paletteSize: number; // 2-256, including the transparent slot if one is needed
+  quality?: number | undefined; // 1-100, higher samples more pixels
+  reserveTransparency?: boolean | undefined; // Keep a transparent slot even for opaque input (used by frame diffing)
+}
+
+interface QuantizedFrame {
+  indices: Uint8Array;
+  palette: Uint8Array | null; // Local RGB palette, null when the global palette is used
+  transparentIndex: number | null;
+}
+
+export const MIN_PALETTE_SIZE = 2;
+export const MAX_PALETTE_SIZE = 256;
+
+// Pixels with alpha below this are written as the transparent index
+const ALPHA_THRESHOLD = 128;
+// Upper bound on pixels fed to palette construction; larger inputs are sampled
+const MAX_SAMPLE_PIXELS = 500_000;
+
+export const QUANTIZER_METHODS: { value: QuantizerMethod; label: string; description: string }[] = [
+  { value: 'median-cut', label: 'Median Cut', description: 'Fast, good for flat graphics' },
+  { value: 'octree', label: 'Octree', description: 'Balanced, preserves rare colors' },
+  { value: 'neuquant', label: 'NeuQuant', description: 'Slowest, best for photos' }
+];
+
+export const clampPaletteSize = (size: number): number =>
+  Math.min(MAX_PALETTE_SIZE, Math.max(MIN_PALETTE_SIZE, Math.round(size)));
+
+/**
+ * Check whether any pixel in the given RGBA buffers is transparent
+ * @param pixelSets - RGBA buffers
+ * @returns True if at least one pixel falls below the alpha threshold
+ */
+export const hasTransparency = (pixelSets: Uint8ClampedArray[]): boolean =>
+  pixelSets.some((pixels) => {
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] < ALPHA_THRESHOLD) return true;
+    }
+    return false;
+  });
+
+// Collect opaque pixels as packed RGB triplets, sampling evenly when the input is large
+const collectSamples = (pixelSets: Uint8ClampedArray[], quality: number): Uint8Array => {
+  const totalPixels = pixelSets.reduce((sum, pixels) => sum + pixels.length / 4, 0);
+  const qualityStride = Math.max(1, Math.round((100 - quality) / 10));
+  const stride = Math.max(qualityStride, Math.ceil(totalPixels / MAX_SAMPLE_PIXELS));
+
+  const samples = new Uint8Array(Math.ceil(totalPixels / stride) * 3);
+  let count = 0;
+
+  for (const pixels of pixelSets) {
+    for (let i = 0; i < pixels.length; i += 4 * stride) {
+      if (pixels[i + 3] < ALPHA_THRESHOLD) continue;
+      samples[count * 3] = pixels[i];
+      samples[count * 3 + 1] = pixels[i + 1];
+      samples[count * 3 + 2] = pixels[i + 2];
+      count++;
+    }
+  }
+
+  return samples.subarray(0, count * 3);
+};
+
+// Median cut --------------------------------------------------------------
+
+interface ColorBox {
+  buckets: number[];
+  count: number;
+}
+
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+
+const medianCut = (samples: Uint8Array, maxColors: number): Uint8Array => {
+  const bucketCount = 1 << (HISTOGRAM_BITS * 3);
+  const counts = new Uint32Array(bucketCount);
+  const sums = new Float64Array(bucketCount * 3);
+
+  for (let i = 0; i < samples.length; i += 3) {
+    const bucket =
+      ((samples[i] >> HISTOGRAM_SHIFT) << (HISTOGRAM_BITS * 2)) |
+      ((samples[i + 1] >> HISTOGRAM_SHIFT) << HISTOGRAM_BITS) |
+      (samples[i + 2] >> HISTOGRAM_SHIFT);
+    counts[bucket]++;
+    sums[bucket * 3] += samples[i];
+    sums[bucket * 3 + 1] += samples[i + 1];
+    sums[bucket * 3 + 2] += samples[i + 2];
+  }
+
+  const used: number[] = [];
+  let total = 0;
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    if (counts[bucket] > 0) {
+      used.push(bucket);
+      total += counts[bucket];
+    }
+  }
+
+  const channelOf = (bucket: number, channel: number): number =>
+    (bucket >> (HISTOGRAM_BITS * (2 - channel))) & ((1 << HISTOGRAM_BITS) - 1);
+
+  const widestChannel = (box: ColorBox): { channel: number; range: number } => {
+    let best = { channel: 0, range: -1 };
+    for (let channel = 0; channel < 3; channel++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (const bucket of box.buckets) {
+        const value = channelOf(bucket, channel);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > best.range) best = { channel, range: max - min };
+    }
+    return best;
+  };
+
+  const boxes: ColorBox[] = used.length > 0 ? [{ buckets: used, count: total }] : [];
+
+  while (boxes.length < maxColors) {
+    // Split the most populated box that still spans more than one bucket
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.buckets.length < 2) return;
+      const score = box.count * (widestChannel(box).range + 1);
+      if (score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const { channel } = widestChannel(box);
+    box.buckets.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+
+    let running = 0;
+    let split = 1;
+    for (let i = 0; i < box.buckets.length - 1; i++) {
+      running += counts[box.buckets[i]];
+      split = i + 1;
+      if (running >= box.count / 2) break;
+    }
+
+    const lower = box.buckets.slice(0, split);
+    const upper = box.buckets.slice(split);
+    const lowerCount = lower.reduce((sum, bucket) => sum + counts[bucket], 0);
+    boxes.splice(target, 1, { buckets: lower, count: lowerCount }, { buckets: upper, count: box.count - lowerCount });
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const bucket of box.buckets) {
+      r += sums[bucket * 3];
+      g += sums[bucket * 3 + 1];
+      b += sums[bucket * 3 + 2];
+    }
+    palette[index * 3] = Math.round(r / box.count);
+    palette[index * 3 + 1] = Math.round(g / box.count);
+    palette[index * 3 + 2] = Math.round(b / box.count);
+  });
+
+  return palette;
+};
+
+// Octree ------------------------------------------------------------------
+
+interface OctreeNode {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+  leaf: boolean;
+  children: (OctreeNode | null)[];
+}
+
+const OCTREE_DEPTH = 8;
+
+const createOctreeNode = (level: number): OctreeNode => ({
+  r: 0,
+  g: 0,
+  b: 0,
+  count: 0,
+  leaf: level === OCTREE_DEPTH,
+  children: []
+});
+
+const octree = (samples: Uint8Array, maxColors: number): Uint8Array => {
+  const root = createOctreeNode(0);
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  let leafCount = 0;
+
+  for (let i = 0; i < samples.length; i += 3) {
+    const r = samples[i];
+    const g = samples[i + 1];
+    const b = samples[i + 2];
+    let node = root;
+
+    for (let level = 0; !node.leaf; level++) {
+      const shift = 7 - level;
+      const childIndex = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      let child = node.children[childIndex];
+      if (!child) {
+        child = createOctreeNode(level + 1);
+        node.children[childIndex] = child;
+        if (child.leaf) {
+          leafCount++;
+        } else {
+          levels[level + 1].push(child);
+        }
+      }
+      node = child;
+    }
+
+    node.r += r;
+    node.g += g;
+    node.b += b;
+    node.count++;
+  }
+  levels[0].push(root);
+
+  const subtreeCount = (node: OctreeNode): number =>
+    node.leaf ? node.count : node.children.reduce((sum, child) => sum + (child ? subtreeCount(child) : 0), 0);
+
+  // Fold the least populated deepest nodes into their parents until the palette fits
+  for (let level = OCTREE_DEPTH - 1; level >= 0 && leafCount > maxColors; level--) {
+    const candidates = levels[level]
+      .map((node) => ({ node, weight: subtreeCount(node) }))
+      .sort((a, b) => a.weight - b.weight);
+
+    for (const { node } of candidates) {
+      if (leafCount <= maxColors) break;
+      let merged = 0;
+      for (const child of node.children) {
+        if (!child) continue;
+        node.r += child.r;
+        node.g += child.g;
+        node.b += child.b;
+        node.count += child.count;
+        merged++;
+      }
+      node.children = [];
+      node.leaf = true;
+      leafCount -= merged - 1;
+    }
+  }
+
+  const colors: number[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.leaf) {
+      if (node.count > 0) {
+        colors.push(
+          Math.round(node.r / node.count),
+          Math.round(node.g / node.count),
+          Math.round(node.b / node.count)
+        );
+      }
+      return;
+    }
+    node.children.forEach((child) => child && collect(child));
+  };
+  collect(root);
+
+  return Uint8Array.from(colors);
+};
+
+// NeuQuant (Anthony Dekker's Kohonen neural network quantizer) -------------
+
+const NQ_CYCLES = 100;
+const NQ_NET_BIAS_SHIFT = 4;
+const NQ_INT_BIAS_SHIFT = 16;
+const NQ_INT_BIAS = 1 << NQ_INT_BIAS_SHIFT;
+const NQ_GAMMA_SHIFT = 10;
+const NQ_BETA_SHIFT = 10;
+const NQ_BETA = NQ_INT_BIAS >> NQ_BETA_SHIFT;
+const NQ_BETA_GAMMA = NQ_INT_BIAS << (NQ_GAMMA_SHIFT - NQ_BETA_SHIFT);
+const NQ_RADIUS_BIAS_SHIFT = 6;
+const NQ_RADIUS_BIAS = 1 << NQ_RADIUS_BIAS_SHIFT;
+const NQ_RADIUS_DEC = 30;
+const NQ_ALPHA_BIAS_SHIFT = 10;
+const NQ_INIT_ALPHA = 1 << NQ_ALPHA_BIAS_SHIFT;
+const NQ_RAD_BIAS_SHIFT = 8;
+const NQ_RAD_BIAS = 1 << NQ_RAD_BIAS_SHIFT;
+const NQ_ALPHA_RAD_BIAS = 1 << (NQ_ALPHA_BIAS_SHIFT + NQ_RAD_BIAS_SHIFT);
+const NQ_PRIMES = [499, 491, 487, 503];
+
+const neuQuant = (samples: Uint8Array, netSize: number, sampleFactor: number): Uint8Array => {
+  const network = Array.from({ length: netSize }, (_, i) => {
+    const value = (i << (NQ_NET_BIAS_SHIFT + 8)) / netSize;
+    return new Float64Array([value, value, value]);
+  });
+  const freq = new Float64Array(netSize).fill(NQ_INT_BIAS / netSize);
+  const bias = new Float64Array(netSize);
+  const radPower = new Float64Array(Math.max(1, netSize >> 3));
+
+  const contest = (r: number, g: number, b: number): number => {
+    let bestDistance = Infinity;
+    let bestBiasDistance = Infinity;
+    let bestPosition = 0;
+    let bestBiasPosition = 0;
+
+    for (let i = 0; i < netSize; i++) {
+      const n = network[i];
+      const distance = Math.abs(n[0] - r) + Math.abs(n[1] - g) + Math.abs(n[2] - b);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestPosition = i;
+      }
+      const biasDistance = distance - (bias[i] / (1 << (NQ_INT_BIAS_SHIFT - NQ_NET_BIAS_SHIFT)));
+      if (biasDistance < bestBiasDistance) {
+        bestBiasDistance = biasDistance;
+        bestBiasPosition = i;
+      }
+      const betaFreq = freq[i] / (1 << NQ_BETA_SHIFT);
+      freq[i] -= betaFreq;
+      bias[i] += betaFreq * (1 << NQ_GAMMA_SHIFT);
+    }
+
+    freq[bestPosition] += NQ_BETA;
+    bias[bestPosition] -= NQ_BETA_GAMMA;
+    return bestBiasPosition;
+  };
+
+  const alterSingle = (alpha: number, i: number, r: number, g: number, b: number) => {
+    const n = network[i];
+    n[0] -= (alpha * (n[0] - r)) / NQ_INIT_ALPHA;
+    n[1] -= (alpha * (n[1] - g)) / NQ_INIT_ALPHA;
+    n[2] -= (alpha * (n[2] - b)) / NQ_INIT_ALPHA;
+  };
+
+  const alterNeighbours = (radius: number, i: number, r: number, g: number, b: number) => {
+    const lo = Math.abs(i - radius);
+    const hi = Math.min(i + radius, netSize);
+    let j = i + 1;
+    let k = i - 1;
+    let m = 1;
+
+    while (j < hi || k > lo) {
+      const a = radPower[m++];
+      if (j < hi) {
+        const n = network[j++];
+        n[0] -= (a * (n[0] - r)) / NQ_ALPHA_RAD_BIAS;
+        n[1] -= (a * (n[1] - g)) / NQ_ALPHA_RAD_BIAS;
+        n[2] -= (a * (n[2] - b)) / NQ_ALPHA_RAD_BIAS;
+      }
+      if (k > lo) {
+        const n = network[k--];
+        n[0] -= (a * (n[0] - r)) / NQ_ALPHA_RAD_BIAS;
+        n[1] -= (a * (n[1] - g)) / NQ_ALPHA_RAD_BIAS;
+        n[2] -= (a * (n[2] - b)) / NQ_ALPHA_RAD_BIAS;
+      }
+    }
+  };
+
+  const updateRadPower = (rad: number, alpha: number) => {
+    for (let i = 0; i < rad; i++) {
+      radPower[i] = alpha * (((rad * rad - i * i) * NQ_RAD_BIAS) / (rad * rad));
+    }
+  };
+
+  const length = samples.length;
+  const pixelCount = length / 3;
+  if (pixelCount > 0) {
+    const alphaDec = 30 + (sampleFactor - 1) / 3;
+    const samplePixels = Math.max(1, Math.floor(pixelCount / sampleFactor));
+    const delta = Math.max(1, Math.floor(samplePixels / NQ_CYCLES));
+    let alpha = NQ_INIT_ALPHA;
+    let radius = (netSize >> 3) * NQ_RADIUS_BIAS;
+    let rad = radius >> NQ_RADIUS_BIAS_SHIFT;
+    if (rad <= 1) rad = 0;
+    updateRadPower(rad, alpha);
+
+    // Step through the samples by a prime stride so successive picks are decorrelated
+    let step = 3;
+    if (length >= 3 * NQ_PRIMES[3]) {
+      const prime = NQ_PRIMES.find((p) => pixelCount % p !== 0) ?? NQ_PRIMES[3];
+      step = 3 * prime;
+    }
+
+    let position = 0;
+    for (let i = 0; i < samplePixels; ) {
+      const r = samples[position] << NQ_NET_BIAS_SHIFT;
+      const g = samples[position + 1] << NQ_NET_BIAS_SHIFT;
+      const b = samples[position + 2] << NQ_NET_BIAS_SHIFT;
+      const winner = contest(r, g, b);
+
+      alterSingle(alpha, winner, r, g, b);
+      if (rad !== 0) alterNeighbours(rad, winner, r, g, b);
+
+      position += step;
+      if (position >= length) position -= length;
+
+      i++;
+      if (i % delta === 0) {
+        alpha -= alpha / alphaDec;
+        radius -= radius / NQ_RADIUS_DEC;
+        rad = radius >> NQ_RADIUS_BIAS_SHIFT;
+        if (rad <= 1) rad = 0;
+        updateRadPower(rad, alpha);
+      }
+    }
+  }
+
+  const palette = new Uint8Array(netSize * 3);
+  network.forEach((n, i) => {
+    for (let channel = 0; channel < 3; channel++) {
+      palette[i * 3 + channel] = Math.max(0, Math.min(255, Math.round(n[channel] / (1 << NQ_NET_BIAS_SHIFT))));
+    }
+  });
+  return palette;
+};
+
+/**
+ * Build a palette for one or more RGBA buffers
+ * @param pixelSets - RGBA buffers that should share the palette
+ * @param options - Quantizer method, palette size and sampling quality
+ * @returns Packed RGB palette; when any pixel is transparent (or a slot is requested), the last slot is reserved for it
+ */
+export const buildPalette = (
+  pixelSets: Uint8ClampedArray[],
+  options: QuantizerOptions
+): { palette: Uint8Array; transparentIndex: number | null } => {
+  const paletteSize = clampPaletteSize(options.paletteSize);
+  const quality = Math.max(1, Math.min(100, options.quality ?? 80));
+  const transparent = options.reserveTransparency === true || hasTransparency(pixelSets);
+  const maxColors = Math.max(1, transparent ? paletteSize - 1 : paletteSize);
+  const samples = collectSamples(pixelSets, quality);
+
+  let colors: Uint8Array;
+  switch (options.method) {
+    case 'octree':
+      colors = octree(samples, maxColors);
+      break;
+    case 'neuquant': {
+      // Sample factor 1 (every pixel) at quality 100 down to 30 at quality 1
+      const sampleFactor = Math.max(1, Math.min(30, Math.round(30 - (quality / 100) * 29)));
+      colors = neuQuant(samples, maxColors, sampleFactor);
+      break;
+    }
+    default:
+      colors = medianCut(samples, maxColors);
+  }
+
+  if (colors.length === 0) {
+    colors = new Uint8Array(3); // Fully transparent input still needs one color entry
+  }
+
+  if (!transparent) {
+    return { palette: colors, transparentIndex: null };
+  }
+
+  const palette = new Uint8Array(colors.length + 3);
+  palette.set(colors);
+  return { palette, transparentIndex: colors.length / 3 };
+};
+
+/**
+ * Create a nearest-color lookup for a palette, memoized per exact RGB value
+ * @param palette - Packed RGB palette
+ * @param transparentIndex - Palette slot reserved for transparency, excluded from matching
+ */
+export const createColorMatcher = (palette: Uint8Array, transparentIndex: number | null = null) => {
+  const cache = new Map<number, number>();
+  const colorCount = palette.length / 3;
+
+  return (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colorCount; i++) {
+      if (i === transparentIndex) continue;
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+        if (distance === 0) break;
+      }
+    }
+
+    cache.set(key, best);
+    return best;
+  };
+};
+
+/**
+ * Map RGBA pixels to their nearest palette entries
+ * @param pixels - RGBA buffer
+ * @param palette - Packed RGB palette
+ * @param transparentIndex - Index written for transparent pixels
+ * @param matcher - Optional shared matcher so lookups are cached across frames
+ * @returns One palette index per pixel
+ */
+export const mapToPalette = (
+  pixels: Uint8ClampedArray,
+  palette: Uint8Array,
+  transparentIndex: number | null,
+  matcher = createColorMatcher(palette, transparentIndex)
+): Uint8Array => {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0, p = 0; p < pixels.length; i++, p += 4) {
+    indices[i] = transparentIndex !== null && pixels[p + 3] < ALPHA_THRESHOLD
+      ? transparentIndex
+      : matcher(pixels[p], pixels[p + 1], pixels[p + 2]);
+  }
+  return indices;
+};
+
+// Export types
+export {
+  type QuantizerMethod,
+  type QuantizerOptions,
+  type QuantizedFrame
+};
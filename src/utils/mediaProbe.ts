@@ -0,0 +1,286 @@
+/**
+ * ffprobe-style media inspection.
+ * FFmpeg prints a description of every input it opens, so running it with only
+ * an input (no outputs) and parsing that log yields container, duration, bitrate
+ * and per-stream codec details without needing a separate ffprobe build.
+ */
+
+import { runFFmpegJob, type FFmpegJob } from './ffmpegSession';
+import { ProcessingCancelledError } from './cancellation';
+
+interface MediaStreamBase {
+  index: number;
+  codec: string; // e.g. h264, aac
+  profile?: string | undefined; // e.g. High, LC
+  bitrate?: number | undefined; // kbps
+  language?: string | undefined;
+  isDefault: boolean;
+}
+
+interface VideoStreamInfo extends MediaStreamBase {
+  type: 'video';
+  width: number;
+  height: number;
+  pixelFormat?: string | undefined;
+  fps?: number | undefined;
+  rotation: number; // degrees clockwise to apply for display, 0/90/180/270
+}
+
+interface AudioStreamInfo extends MediaStreamBase {
+  type: 'audio';
+  sampleRate?: number | undefined; // Hz
+  channels?: number | undefined;
+  channelLayout?: string | undefined; // e.g. stereo, 5.1
+}
+
+interface OtherStreamInfo extends MediaStreamBase {
+  type: 'subtitle' | 'data' | 'attachment';
+}
+
+type MediaStreamInfo = VideoStreamInfo | AudioStreamInfo | OtherStreamInfo;
+
+interface MediaInfo {
+  container: string; // First demuxer name, e.g. mov, matroska
+  formatNames: string[];
+  duration?: number | undefined; // seconds
+  startTime?: number | undefined; // seconds
+  bitrate?: number | undefined; // kbps
+  metadata: Record<string, string>;
+  streams: MediaStreamInfo[];
+  video?: VideoStreamInfo | undefined; // First video stream
+  audio?: AudioStreamInfo | undefined; // First audio stream
+  displayWidth?: number | undefined; // Video size after rotation
+  displayHeight?: number | undefined;
+}
+
+class MediaProbeError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'MediaProbeError';
+  }
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  '2.1': 3,
+  '3.0': 3,
+  quad: 4,
+  '4.0': 4,
+  '4.1': 5,
+  '5.0': 5,
+  '5.1': 6,
+  '6.1': 7,
+  '7.1': 8
+};
+
+// "00:01:02.50" -> 62.5
+const parseClock = (value: string): number | undefined => {
+  const match = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value.trim());
+  if (!match) return undefined;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// "1205 kb/s" -> 1205
+const parseBitrate = (value: string): number | undefined => {
+  const match = /^(\d+(?:\.\d+)?)\s*(k|M)?b\/s$/.exec(value.trim());
+  if (!match) return undefined;
+  const rate = Number(match[1]);
+  return match[2] === 'M' ? rate * 1000 : match[2] === 'k' ? rate : rate / 1000;
+};
+
+const parseChannels = (layout: string): number | undefined => {
+  const base = layout.replace(/\(.*\)$/, '');
+  if (base in CHANNEL_LAYOUTS) return CHANNEL_LAYOUTS[base];
+  const match = /^(\d+) channels$/.exec(layout);
+  return match ? Number(match[1]) : undefined;
+};
+
+const normalizeRotation = (degrees: number): number => ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+
+// Split a stream description on top-level commas, keeping "yuv420p(tv, bt709)" intact
+const splitFields = (description: string): string[] => {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of description) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) fields.push(current.trim());
+  return fields;
+};
+
+const parseStream = (line: string): MediaStreamInfo | null => {
+  const match = /Stream #\d+:(\d+)(?:\[[^\]]*\])?(?:\((\w+)\))?: (Video|Audio|Subtitle|Data|Attachment): (.*)$/.exec(line);
+  if (!match) return null;
+
+  const [, index, language, kind, description] = match;
+  const isDefault = /\(default\)/.test(description);
+  const fields = splitFields(description.replace(/\s*\((default|forced|attached pic|dub|original|comment)\)/g, ''));
+  const codecMatch = /^(\w+)(?:\s+\(([^)]+)\))?/.exec(fields[0] ?? '');
+  const base: MediaStreamBase = {
+    index: Number(index),
+    codec: codecMatch?.[1] ?? 'unknown',
+    profile: codecMatch?.[2] && !codecMatch[2].includes(' / ') ? codecMatch[2] : undefined,
+    bitrate: fields.map(parseBitrate).find((rate) => rate !== undefined),
+    language: language && language !== 'und' ? language : undefined,
+    isDefault
+  };
+
+  if (kind === 'Video') {
+    const size = fields.map((field) => /^(\d+)x(\d+)/.exec(field)).find(Boolean);
+    const fpsField = fields.find((field) => /^[\d.]+k? fps$/.test(field)) ?? fields.find((field) => / tbr$/.test(field));
+    const fps = fpsField ? parseFloat(fpsField) * (fpsField.includes('k') ? 1000 : 1) : undefined;
+    const pixelFormat = fields[1] && !/^\d+x\d+/.test(fields[1]) ? fields[1].split('(')[0] : undefined;
+    return {
+      ...base,
+      type: 'video',
+      width: size ? Number(size[1]) : 0,
+      height: size ? Number(size[2]) : 0,
+      pixelFormat,
+      fps: fps && Number.isFinite(fps) ? fps : undefined,
+      rotation: 0
+    };
+  }
+
+  if (kind === 'Audio') {
+    const sampleRate = fields.map((field) => /^(\d+) Hz$/.exec(field)).find(Boolean);
+    const channelLayout = fields.find((field) => parseChannels(field) !== undefined);
+    return {
+      ...base,
+      type: 'audio',
+      sampleRate: sampleRate ? Number(sampleRate[1]) : undefined,
+      channels: channelLayout ? parseChannels(channelLayout) : undefined,
+      channelLayout
+    };
+  }
+
+  return { ...base, type: kind.toLowerCase() as OtherStreamInfo['type'] };
+};
+
+/**
+ * Parse the input description FFmpeg logs when opening a file
+ * @param lines - FFmpeg log lines
+ * @returns Media details, or null if no input description was found
+ */
+export const parseMediaInfo = (lines: string[]): MediaInfo | null => {
+  let info: MediaInfo | null = null;
+  let currentStream: MediaStreamInfo | null = null;
+
+  for (const line of lines) {
+    const input = /^Input #0, (.+?), from /.exec(line);
+    if (input) {
+      const formatNames = input[1].split(',');
+      info = { container: formatNames[0], formatNames, metadata: {}, streams: [] };
+      continue;
+    }
+    // Anything after the output section or a second input is not ours
+    if (!info || /^(Input #[1-9]|Output #)/.test(line)) {
+      if (info) break;
+      continue;
+    }
+
+    const duration = /^\s+Duration: ([^,]+)(?:, start: ([-\d.]+))?(?:, bitrate: (.+))?$/.exec(line);
+    if (duration) {
+      info.duration = parseClock(duration[1]);
+      info.startTime = duration[2] !== undefined ? Number(duration[2]) : undefined;
+      info.bitrate = duration[3] ? parseBitrate(duration[3]) : undefined;
+      continue;
+    }
+
+    const stream = parseStream(line);
+    if (stream) {
+      info.streams.push(stream);
+      currentStream = stream;
+      continue;
+    }
+
+    // Rotation appears either as display matrix side data or as legacy "rotate" metadata
+    const displayMatrix = /displaymatrix: rotation of ([-\d.]+) degrees/.exec(line);
+    const rotateTag = /^\s+rotate\s+:\s+([-\d.]+)/.exec(line);
+    if (currentStream?.type === 'video' && (displayMatrix || rotateTag)) {
+      // The display matrix is counter-clockwise, the rotate tag clockwise
+      currentStream.rotation = displayMatrix
+        ? normalizeRotation(-Number(displayMatrix[1]))
+        : normalizeRotation(Number(rotateTag?.[1]));
+      continue;
+    }
+
+    // Container-level metadata sits above the first stream, indented by four spaces
+    const tag = /^ {4}(\w[\w.-]*)\s*: (.*)$/.exec(line);
+    if (tag && !currentStream) {
+      info.metadata[tag[1]] = tag[2];
+    }
+  }
+
+  if (!info) return null;
+
+  info.video = info.streams.find((stream): stream is VideoStreamInfo => stream.type === 'video');
+  info.audio = info.streams.find((stream): stream is AudioStreamInfo => stream.type === 'audio');
+  if (info.video) {
+    const swap = info.video.rotation === 90 || info.video.rotation === 270;
+    info.displayWidth = swap ? info.video.height : info.video.width;
+    info.displayHeight = swap ? info.video.width : info.video.height;
+  }
+  return info;
+};
+
+/**
+ * Probe a file that is already in the job's virtual filesystem
+ * @param job - Running FFmpeg job
+ * @param inputName - File name inside the virtual filesystem
+ * @returns Parsed media details
+ */
+export const probeJobInput = async (job: FFmpegJob, inputName: string): Promise<MediaInfo> => {
+  const firstLine = job.logs.length;
+  // With no output FFmpeg exits non-zero after describing the input, which is expected
+  await job.ffmpeg.exec(['-hide_banner', '-i', inputName]);
+  const info = parseMediaInfo(job.logs.slice(firstLine));
+  if (!info) {
+    throw new MediaProbeError('Could not read media information. The file may be damaged or unsupported.', 'parsing');
+  }
+  return info;
+};
+
+/**
+ * Read container and stream details from a media file using FFmpeg
+ * @param file - Video or audio file
+ * @param signal - Cancels the probe
+ * @returns Parsed media details
+ */
+export const probeMedia = async (file: File | Blob, signal?: AbortSignal): Promise<MediaInfo> => {
+  const extension = file instanceof File ? file.name.split('.').pop()?.toLowerCase() : undefined;
+  const inputName = `probe.${extension || 'bin'}`;
+
+  try {
+    return await runFFmpegJob(async (job) => {
+      await job.writeFile(inputName, new Uint8Array(await file.arrayBuffer()));
+      return probeJobInput(job, inputName);
+    }, { signal });
+  } catch (error) {
+    if (error instanceof MediaProbeError || error instanceof ProcessingCancelledError) {
+      throw error;
+    }
+    throw new MediaProbeError(
+      `Media probing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'probing',
+      error instanceof Error ? error : undefined
+    );
+  }
+};
+
+// Export types and error class
+export {
+  MediaProbeError,
+  type MediaInfo,
+  type MediaStreamInfo,
+  type VideoStreamInfo,
+  type AudioStreamInfo
+};
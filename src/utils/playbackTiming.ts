@@ -0,0 +1,67 @@
+/**
+ * Playback speed and direction for video outputs.
+ * The GIF pipeline applies these while capturing frames and the FFmpeg
+ * pipeline through filters; both use the same ranges and length maths.
+ */
+
+type PlaybackDirection = 'forward' | 'reverse' | 'boomerang';
+
+interface PlaybackTiming {
+  speed: number; // 0.25-4, 1 = unchanged
+  direction: PlaybackDirection; // Boomerang plays forward, then backward
+}
+
+const MIN_PLAYBACK_SPEED = 0.25;
+const MAX_PLAYBACK_SPEED = 4;
+
+const DEFAULT_PLAYBACK_TIMING: PlaybackTiming = {
+  speed: 1,
+  direction: 'forward'
+};
+
+/**
+ * Check whether timing differs from normal forward playback
+ * @param timing - Timing to check; undefined counts as unchanged
+ */
+export const isTimingChanged = (timing: PlaybackTiming | undefined): timing is PlaybackTiming =>
+  timing !== undefined && (timing.speed !== 1 || timing.direction !== 'forward');
+
+/**
+ * Check that a speed is within the supported range
+ * @param timing - Timing to check
+ */
+export const isValidTiming = (timing: PlaybackTiming): boolean =>
+  timing.speed >= MIN_PLAYBACK_SPEED && timing.speed <= MAX_PLAYBACK_SPEED;
+
+/**
+ * Length of a clip once its timing is applied
+ * @param duration - Clip length in seconds
+ * @param timing - Speed and direction
+ * @returns Output length in seconds
+ */
+export const getTimedDuration = (duration: number, timing: PlaybackTiming | undefined): number => {
+  if (!timing) return duration;
+  const length = duration / timing.speed;
+  return timing.direction === 'boomerang' ? length * 2 : length;
+};
+
+/**
+ * Put captured frames in playback order
+ * @param frames - Frames in source order
+ * @param direction - Playback direction
+ * @returns A new array; a boomerang skips repeating the end frames so it loops smoothly
+ */
+export const orderFrames = <T>(frames: T[], direction: PlaybackDirection): T[] => {
+  if (direction === 'reverse') return [...frames].reverse();
+  if (direction === 'boomerang') return [...frames, ...frames.slice(1, -1).reverse()];
+  return [...frames];
+};
+
+// Export types and constants
+export {
+  DEFAULT_PLAYBACK_TIMING,
+  MIN_PLAYBACK_SPEED,
+  MAX_PLAYBACK_SPEED,
+  type PlaybackDirection,
+  type PlaybackTiming
+};
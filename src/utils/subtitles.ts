@@ -0,0 +1,190 @@
+/**
+ * Subtitle parsing and rendering for burned-in captions.
+ * SRT and WebVTT files are parsed into plain cues, and cues are drawn onto a
+ * canvas with one renderer, so GIF frames and FFmpeg overlays look the same.
+ */
+
+class SubtitleParseError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string; // Plain text, lines separated by \n
+}
+
+type SubtitlePosition = 'top' | 'middle' | 'bottom';
+
+interface SubtitleStyle {
+  fontSize: number; // px on a 720px tall frame; scaled with the frame height
+  color: string;
+  outlineColor: string;
+  outlineWidth: number; // px on a 720px tall frame, 0 for none
+  position: SubtitlePosition;
+}
+
+interface SubtitleTrack {
+  cues: SubtitleCue[];
+  style: SubtitleStyle;
+}
+
+const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontSize: 40,
+  color: '#ffffff',
+  outlineColor: '#000000',
+  outlineWidth: 3,
+  position: 'bottom'
+};
+
+const REFERENCE_HEIGHT = 720;
+const MARGIN_RATIO = 0.05; // Distance from the top or bottom edge, as a share of the height
+const LINE_HEIGHT = 1.2;
+const FONT_FAMILY = 'Arial, Helvetica, sans-serif';
+
+// "00:01:02,500 --> 00:01:04.000", hours optional as in WebVTT
+const TIMING_PATTERN = /((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+const parseTimestamp = (value: string): number => {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Formatting tags (<i>, <b>, <c.yellow>, {\an8}) can't be styled on a burned-in line
+const stripTags = (text: string): string =>
+  text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+/**
+ * Parse an SRT or WebVTT file
+ * @param content - File contents
+ * @returns Cues sorted by start time
+ * @throws SubtitleParseError if no cues are found
+ */
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    // Skips the WEBVTT header, NOTE and STYLE blocks, and the SRT cue number
+    const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const match = TIMING_PATTERN.exec(lines[timingIndex])!;
+    const start = parseTimestamp(match[1]);
+    const end = parseTimestamp(match[2]);
+    const text = stripTags(lines.slice(timingIndex + 1).join('\n')).trim();
+    if (text && end > start) {
+      cues.push({ start, end, text });
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError('No subtitles found. Use an SRT or WebVTT file.', 'parsing');
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Cues showing at a point in time
+ * @param cues - All cues
+ * @param time - Seconds
+ */
+export const getActiveCues = (cues: SubtitleCue[], time: number): SubtitleCue[] =>
+  cues.filter((cue) => time >= cue.start && time < cue.end);
+
+/**
+ * Move cues onto a clip that starts later in the source, dropping those outside it
+ * @param cues - Cues timed against the source
+ * @param start - Clip start in the source, seconds
+ * @param end - Clip end in the source, seconds
+ */
+export const shiftCues = (cues: SubtitleCue[], start: number, end: number = Infinity): SubtitleCue[] =>
+  cues
+    .filter((cue) => cue.end > start && cue.start < end)
+    .map((cue) => ({
+      ...cue,
+      start: Math.max(0, cue.start - start),
+      end: Math.min(end, cue.end) - start
+    }));
+
+// Break text into lines that fit the width, keeping the cue's own line breaks
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+  text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return line ? [...lines, line] : lines;
+  });
+
+/**
+ * Draw cues onto a frame; overlapping cues are stacked in start order
+ * @param ctx - Canvas holding the frame
+ * @param cues - Cues to draw, usually from getActiveCues
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @param style - Font, colors and position
+ */
+export const drawSubtitles = (
+  ctx: CanvasRenderingContext2D,
+  cues: SubtitleCue[],
+  width: number,
+  height: number,
+  style: SubtitleStyle
+): void => {
+  if (cues.length === 0) return;
+
+  const scale = height / REFERENCE_HEIGHT;
+  const fontSize = Math.max(8, Math.round(style.fontSize * scale));
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const margin = height * MARGIN_RATIO;
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+
+  const lines = cues.flatMap((cue) => wrapLines(ctx, cue.text, width * 0.9));
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top'
+    ? margin
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+  lines.forEach((line, index) => {
+    const y = top + lineHeight * (index + 0.5);
+    if (style.outlineWidth > 0) {
+      // The stroke is centered on the glyph edge, so double it for the visible width
+      ctx.lineWidth = style.outlineWidth * scale * 2;
+      ctx.strokeStyle = style.outlineColor;
+      ctx.strokeText(line, width / 2, y);
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, width / 2, y);
+  });
+  ctx.restore();
+};
+
+// Export types and error class
+export {
+  SubtitleParseError,
+  DEFAULT_SUBTITLE_STYLE,
+  type SubtitleCue,
+  type SubtitlePosition,
+  type SubtitleStyle,
+  type SubtitleTrack
+};
@@ -0,0 +1,204 @@
+/**
+ * Frame capture from video files using the browser's own decoder.
+ * One hidden video element is seeked through every requested timestamp, which
+ * is much faster than creating an element per frame and needs no FFmpeg load.
+ */
+
+import { onAbort, ProcessingCancelledError, throwIfAborted } from './cancellation';
+
+class VideoFrameError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'VideoFrameError';
+  }
+}
+
+interface CapturedFrame {
+  time: number; // seconds, as actually seeked to
+  canvas: HTMLCanvasElement;
+}
+
+interface SceneDetectionOptions {
+  threshold?: number | undefined; // 0-1 share of the picture that must change, defaults to 0.3
+  maxScenes?: number | undefined; // Keeps the strongest changes when there are more
+  signal?: AbortSignal | undefined;
+  onProgress?: ((ratio: number) => void) | undefined;
+}
+
+interface CaptureFramesOptions {
+  maxDimension?: number | undefined; // Longest side of each frame in pixels
+  signal?: AbortSignal | undefined;
+  onFrame?: ((frame: CapturedFrame, index: number) => void) | undefined; // Called as each frame is ready
+}
+
+const SEEK_TIMEOUT_MS = 15000;
+const SCENE_SAMPLE_INTERVAL = 0.5; // seconds between frames compared for scene changes
+const MAX_SCENE_SAMPLES = 400;
+const SCENE_SAMPLE_SIZE = 64; // Small frames are enough to spot a cut and much faster to seek
+
+// Resolve once the element fires one of the events, reject on error or timeout
+const waitForEvent = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', stage: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeEventListener(event, handleEvent);
+      video.removeEventListener('error', handleError);
+    };
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new VideoFrameError('Error loading video', stage));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new VideoFrameError(`Timed out while ${stage === 'loading' ? 'loading' : 'seeking'} video`, stage));
+    }, SEEK_TIMEOUT_MS);
+
+    video.addEventListener(event, handleEvent);
+    video.addEventListener('error', handleError);
+  });
+
+/**
+ * Capture frames at a list of timestamps
+ * @param videoFile - Source video
+ * @param times - Timestamps in seconds, clamped to the video duration
+ * @param options - Frame size, abort signal and per-frame callback
+ * @returns Frames in the order of times
+ */
+export const captureVideoFrames = async (
+  videoFile: File | Blob,
+  times: number[],
+  options: CaptureFramesOptions = {}
+): Promise<CapturedFrame[]> => {
+  const { maxDimension = 160, signal, onFrame } = options;
+  throwIfAborted(signal);
+
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(videoFile);
+  video.muted = true;
+  video.preload = 'auto';
+  // Interrupt a pending seek immediately; the loop then stops at the next check
+  const removeAbortListener = onAbort(signal, () => video.dispatchEvent(new Event('error')));
+
+  try {
+    const loaded = waitForEvent(video, 'loadedmetadata', 'loading');
+    video.src = url;
+    await loaded;
+
+    const frames: CapturedFrame[] = [];
+    for (const [index, time] of times.entries()) {
+      throwIfAborted(signal);
+      const seeked = waitForEvent(video, 'seeked', 'seeking');
+      video.currentTime = Math.max(0, Math.min(time, video.duration - 0.01));
+      await seeked;
+
+      const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new VideoFrameError('Failed to get canvas context', 'processing');
+      }
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const frame = { time: video.currentTime, canvas };
+      frames.push(frame);
+      onFrame?.(frame, index);
+    }
+    return frames;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('Frame capture cancelled');
+    }
+    throw error instanceof VideoFrameError
+      ? error
+      : new VideoFrameError('Failed to capture video frames', 'processing', error instanceof Error ? error : undefined);
+  } finally {
+    removeAbortListener();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Evenly spaced timestamps across a clip, each in the middle of its slot
+ * @param duration - Clip length in seconds
+ * @param count - Number of timestamps
+ * @param start - Clip start in seconds
+ */
+export const getEvenlySpacedTimes = (duration: number, count: number, start: number = 0): number[] =>
+  Array.from({ length: count }, (_, index) => start + ((index + 0.5) / count) * duration);
+
+/**
+ * Timestamps every interval seconds, starting at the first frame
+ * @param duration - Clip length in seconds
+ * @param interval - Seconds between timestamps
+ * @param limit - Maximum number of timestamps
+ */
+export const getIntervalTimes = (duration: number, interval: number, limit: number = Infinity): number[] => {
+  if (!(interval > 0) || !(duration > 0)) return [];
+  const count = Math.min(Math.ceil(duration / interval), limit);
+  return Array.from({ length: count }, (_, index) => index * interval);
+};
+
+// Mean luma difference between two frames of the same size, 0-1
+const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const lumaA = a[i] * 0.299 + a[i + 1] * 0.587 + a[i + 2] * 0.114;
+    const lumaB = b[i] * 0.299 + b[i + 1] * 0.587 + b[i + 2] * 0.114;
+    total += Math.abs(lumaA - lumaB);
+  }
+  return total / (a.length / 4) / 255;
+};
+
+/**
+ * Find scene changes by comparing small frames sampled across the video
+ * @param videoFile - Source video
+ * @param duration - Video length in seconds
+ * @param options - Sensitivity, scene limit, abort signal and progress callback
+ * @returns Start time of each scene, always including the first frame
+ */
+export const detectSceneChanges = async (
+  videoFile: File | Blob,
+  duration: number,
+  options: SceneDetectionOptions = {}
+): Promise<number[]> => {
+  const { threshold = 0.3, maxScenes = Infinity, signal, onProgress } = options;
+  const interval = Math.max(SCENE_SAMPLE_INTERVAL, duration / MAX_SCENE_SAMPLES);
+  const times = getIntervalTimes(duration, interval);
+
+  // Differences are taken as frames arrive, so only the previous frame is kept
+  let previous: Uint8ClampedArray | null = null;
+  const changes: { time: number; score: number }[] = [];
+  await captureVideoFrames(videoFile, times, {
+    maxDimension: SCENE_SAMPLE_SIZE,
+    signal,
+    onFrame: (frame, index) => {
+      const pixels = frame.canvas.getContext('2d')!.getImageData(0, 0, frame.canvas.width, frame.canvas.height).data;
+      if (previous) {
+        // Scaled to "share of the picture changed"; a full cut moves luma by roughly a third on average
+        const score = Math.min(1, frameDifference(previous, pixels) * 3);
+        if (score >= threshold) changes.push({ time: frame.time, score });
+      }
+      previous = pixels;
+      onProgress?.((index + 1) / times.length);
+    }
+  });
+
+  const strongest = [...changes].sort((a, b) => b.score - a.score).slice(0, Math.max(0, maxScenes - 1));
+  return [0, ...strongest.map((change) => change.time).sort((a, b) => a - b)];
+};
+
+// Export types and error class
+export {
+  VideoFrameError,
+  type CapturedFrame,
+  type CaptureFramesOptions,
+  type SceneDetectionOptions
+};
@@ -1,4 +1,18 @@
 import { bytesToMB } from './formatters';
+import { decodeGif, type DecodedGif } from './gifDecoder';
+import { ProcessingCancelledError, throwIfAborted } from './cancellation';
+import { preloadFFmpeg, runFFmpegJob, type FFmpegJob } from './ffmpegSession';
+import { probeJobInput, type MediaInfo } from './mediaProbe';
+import { drawSubtitles, getActiveCues, shiftCues, type SubtitleTrack } from './subtitles';
+import {
+  getTimedDuration,
+  isTimingChanged,
+  isValidTiming,
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  type PlaybackTiming
+} from './playbackTiming';
+import type { CropRegion } from '../types';
 
 // Enhanced error handling for video processing
 class VideoProcessingError extends Error {
@@ -8,16 +22,35 @@ class VideoProcessingError extends Error {
   }
 }
 
+type VideoCodec = 'h264' | 'h265' | 'vp8' | 'vp9';
+type VideoContainer = 'mp4' | 'webm' | 'avi' | 'mov';
+type EncoderPreset = 'ultrafast' | 'superfast' | 'veryfast' | 'faster' | 'fast' | 'medium' | 'slow';
+type RateControlMode = 'crf' | 'bitrate';
+
 interface VideoCompressionOptions {
   quality: number; // 0-100
   maxWidth: number;
   maxHeight: number;
   maxFileSize?: number; // in MB
-  format: 'mp4' | 'webm' | 'avi' | 'mov';
-  codec: 'h264' | 'h265' | 'vp8' | 'vp9';
+  format: VideoContainer;
+  codec: VideoCodec;
   bitrate?: number; // kbps
   fps?: number;
   maintainAspectRatio: boolean;
+  preset?: EncoderPreset | undefined; // Speed/efficiency trade-off, defaults to ultrafast
+  rateControl?: RateControlMode | undefined; // 'bitrate' encodes at options.bitrate, defaults to 'crf'
+  crf?: number | undefined; // Constant rate factor in the codec's own scale; overrides quality
+  trim?: { start: number; end: number } | undefined; // seconds
+  crop?: CropRegion | undefined; // Output keeps this part of the frame, fitted within maxWidth x maxHeight
+  subtitles?: SubtitleTrack | undefined; // Burned into the picture, timed against the untrimmed source
+  timing?: PlaybackTiming | undefined; // Speed and direction, applied to the trimmed clip with its captions
+}
+
+interface VideoCodecInfo {
+  label: string;
+  encoder: string; // FFmpeg encoder name
+  crfRange: [number, number];
+  defaultCrf: number;
 }
 
 // VideoToGifOptions removed - use gifConverter.ts for GIF conversion
@@ -36,6 +69,30 @@ interface VideoEditOptions {
   };
 }
 
+interface GifToVideoOptions {
+  format: 'mp4' | 'webm';
+  quality: number; // 0-100
+  duration?: number | undefined; // seconds; the GIF loops until this length, defaults to one play-through
+  backgroundColor?: string | undefined; // Fills transparent pixels, since neither codec keeps alpha here
+}
+
+type MergeTransition = 'none' | 'crossfade';
+
+interface VideoMergeOptions {
+  format: 'mp4' | 'webm';
+  quality: number; // 0-100
+  resolution?: number | undefined; // Short side in pixels; defaults to the first clip's size
+  fps?: number | undefined; // Defaults to the first clip's frame rate
+  transition?: MergeTransition | undefined;
+  transitionDuration?: number | undefined; // seconds, defaults to 1
+}
+
+interface VideoMergeResult {
+  blob: Blob;
+  streamCopy: boolean; // Clips were joined without re-encoding
+  duration?: number | undefined; // seconds, when every clip's duration is known
+}
+
 interface ProcessingProgress {
   stage: 'loading' | 'processing' | 'encoding' | 'complete';
   progress: number;
@@ -48,28 +105,152 @@ interface ProcessingProgress {
 
 type ProgressCallback = (progress: ProcessingProgress) => void;
 
-// Helper function to convert File/Blob to Uint8Array
-const fileToUint8Array = async (file: File | Blob): Promise<Uint8Array> => {
-  return new Uint8Array(await file.arrayBuffer());
+interface VideoCompressionAttempt {
+  index: number;
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps
+  size: number; // bytes
+  fits: boolean;
+}
+
+interface VideoTargetSizeResult {
+  blob: Blob;
+  met: boolean; // False when every attempt exceeded the target
+  attempts: VideoCompressionAttempt[];
+  explanation?: string | undefined;
+}
+
+// Internal result of an FFmpeg compression run; attempts are only recorded in target size mode
+interface CompressionOutput {
+  blob: Blob;
+  attempts: VideoCompressionAttempt[];
+}
+
+type EncodeProgressCallback = (progress: { ratio: number; message?: string | undefined }) => void;
+
+// Codecs the bundled core is built with; availability is still checked against the loaded core
+const VIDEO_CODECS: Record<VideoCodec, VideoCodecInfo> = {
+  h264: { label: 'H.264', encoder: 'libx264', crfRange: [0, 51], defaultCrf: 23 },
+  h265: { label: 'H.265 (HEVC)', encoder: 'libx265', crfRange: [0, 51], defaultCrf: 28 },
+  vp8: { label: 'VP8', encoder: 'libvpx', crfRange: [4, 63], defaultCrf: 10 },
+  vp9: { label: 'VP9', encoder: 'libvpx-vp9', crfRange: [0, 63], defaultCrf: 31 }
 };
 
-// Helper function to get public file URL
-const getPublicFileURL = (path: string): string => {
-  const basePath = import.meta.env.BASE_URL || '/sLixTOOLS/';
-  return `${basePath}${path}`;
+// Codecs each container can carry, most compatible first
+const CONTAINER_CODECS: Record<VideoContainer, VideoCodec[]> = {
+  mp4: ['h264', 'h265', 'vp9'],
+  mov: ['h264', 'h265'],
+  avi: ['h264'],
+  webm: ['vp9', 'vp8']
 };
 
-// FFmpeg WASM loader with enhanced error handling
-const loadFFmpeg = async () => {
-  try {
-    const [{ FFmpeg }, { fetchFile, toBlobURL }] = await Promise.all([
-      import('@ffmpeg/ffmpeg'),
-      import('@ffmpeg/util')
-    ]);
-    return { FFmpeg, fetchFile, toBlobURL };
-  } catch (error) {
-    throw new VideoProcessingError('Failed to load FFmpeg library', 'loading', error as Error);
+const ENCODER_PRESETS: EncoderPreset[] = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow'];
+
+// libvpx has no named presets; map them onto its deadline and cpu-used speed controls
+const VPX_SPEED: Record<EncoderPreset, { deadline: 'realtime' | 'good'; cpuUsed: number }> = {
+  ultrafast: { deadline: 'realtime', cpuUsed: 8 },
+  superfast: { deadline: 'realtime', cpuUsed: 6 },
+  veryfast: { deadline: 'good', cpuUsed: 5 },
+  faster: { deadline: 'good', cpuUsed: 4 },
+  fast: { deadline: 'good', cpuUsed: 3 },
+  medium: { deadline: 'good', cpuUsed: 2 },
+  slow: { deadline: 'good', cpuUsed: 1 }
+};
+
+/**
+ * Codecs that can be written to a container
+ * @param format - Output container
+ * @returns Supported codecs, most compatible first
+ */
+export const getSupportedCodecs = (format: VideoContainer): VideoCodec[] => CONTAINER_CODECS[format];
+
+/**
+ * Check that a codec can be written to a container
+ * @param format - Output container
+ * @param codec - Video codec
+ * @throws VideoProcessingError if the combination is not supported
+ */
+export const validateCodec = (format: VideoContainer, codec: VideoCodec): void => {
+  if (!(codec in VIDEO_CODECS)) {
+    throw new VideoProcessingError(`Unknown video codec "${codec}"`, 'validation');
+  }
+  if (!CONTAINER_CODECS[format].includes(codec)) {
+    const supported = CONTAINER_CODECS[format].map((name) => VIDEO_CODECS[name].label).join(', ');
+    throw new VideoProcessingError(
+      `${VIDEO_CODECS[codec].label} cannot be saved as ${format.toUpperCase()}. Supported codecs: ${supported}.`,
+      'validation'
+    );
+  }
+};
+
+// Encoder names compiled into the loaded core, read once from "ffmpeg -encoders"
+let availableEncoders: Set<string> | null = null;
+
+const getAvailableEncoders = async (job: FFmpegJob): Promise<Set<string>> => {
+  if (availableEncoders) return availableEncoders;
+  const firstLine = job.logs.length;
+  await job.ffmpeg.exec(['-hide_banner', '-encoders']);
+  const encoders = new Set<string>();
+  for (const line of job.logs.slice(firstLine)) {
+    // " V....D libx264              libx264 H.264 / AVC ..."
+    const match = /^\s*[VAS][.F][.S][.X][.B][.D]\s+([\w-]+)/.exec(line);
+    if (match) encoders.add(match[1]);
+  }
+  // An empty list means the output could not be read; don't cache it or block encoding
+  if (encoders.size > 0) availableEncoders = encoders;
+  return encoders;
+};
+
+// Encoder, speed and rate control arguments for a codec; rate control is omitted in target size mode
+const buildCodecArgs = (options: VideoCompressionOptions, twoPass: boolean): string[] => {
+  const codec = VIDEO_CODECS[options.codec];
+  const preset = options.preset ?? 'ultrafast';
+  const args = ['-c:v', codec.encoder];
+
+  if (options.codec === 'vp8' || options.codec === 'vp9') {
+    const speed = VPX_SPEED[preset];
+    // The realtime deadline doesn't support two-pass encoding
+    args.push('-deadline', twoPass ? 'good' : speed.deadline, '-cpu-used', String(speed.cpuUsed));
+    if (options.codec === 'vp9') {
+      args.push('-row-mt', '0'); // Disable row-based multithreading (saves memory)
+    }
+  } else {
+    args.push('-preset', preset);
+  }
+
+  if (options.codec === 'h265') {
+    args.push('-tag:v', 'hvc1'); // Lets Apple players recognise HEVC in MP4/MOV
+  }
+
+  if (twoPass) return args;
+
+  if (options.rateControl === 'bitrate') {
+    args.push('-b:v', `${options.bitrate || 2000}k`);
+    return args;
   }
+
+  const [minCrf, maxCrf] = codec.crfRange;
+  const crf = options.crf ?? Math.round(minCrf + ((100 - options.quality) / 100) * (maxCrf - minCrf));
+  args.push('-crf', String(Math.min(Math.max(Math.round(crf), minCrf), maxCrf)));
+  if (options.codec === 'vp9') {
+    args.push('-b:v', '0'); // Constant quality; otherwise libvpx treats the CRF as a floor under its default bitrate
+  } else if (options.codec === 'vp8') {
+    args.push('-b:v', `${options.bitrate || 2000}k`); // VP8 needs a bitrate ceiling in CRF mode
+  }
+  return args;
+};
+
+const PASS_LOG_FILE = 'ffmpeg2pass';
+
+// Arguments for one pass of a two-pass encode; libx265 takes its pass settings through x265-params
+const buildPassArgs = (codec: VideoCodec, pass: 1 | 2): string[] =>
+  codec === 'h265'
+    ? ['-x265-params', `pass=${pass}:stats=${PASS_LOG_FILE}.log`]
+    : ['-pass', String(pass), '-passlogfile', PASS_LOG_FILE];
+
+// Helper function to convert File/Blob to Uint8Array
+const fileToUint8Array = async (file: File | Blob): Promise<Uint8Array> => {
+  return new Uint8Array(await file.arrayBuffer());
 };
 
 // Video element manager for safe video operations (commented out - not currently used)
@@ -237,19 +418,20 @@ const loadFFmpeg = async () => {
 //   }
 // }
 
-// Compress video with enhanced error handling
-export const compressVideo = async (
+// Shared compression flow; passing targetBytes switches to two-pass bitrate encoding
+const runCompression = async (
   videoFile: File,
   options: VideoCompressionOptions,
-  onProgress?: ProgressCallback
-): Promise<Blob> => {
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  targetBytes?: number
+): Promise<CompressionOutput> => {
   try {
+    throwIfAborted(signal);
     onProgress?.({ stage: 'loading', progress: 0, message: 'Loading video processor...' });
     
-    // For client-side video compression, we would typically use FFmpeg WASM
-    // This is a simplified implementation showing the structure
-    
-    await loadFFmpeg();
+    // Load the shared FFmpeg session up front so the steps below report real progress
+    await preloadFFmpeg(signal);
     
     onProgress?.({ stage: 'loading', progress: 20, message: 'Loading video file...' });
     
@@ -262,6 +444,17 @@ export const compressVideo = async (
       );
     }
     
+    validateCodec(options.format, options.codec);
+    if (options.trim && !(options.trim.start >= 0 && options.trim.end > options.trim.start)) {
+      throw new VideoProcessingError('Trim end must be after the start', 'validation');
+    }
+    if (options.crop && !isValidCrop(options.crop)) {
+      throw new VideoProcessingError('Crop region must lie within the frame', 'validation');
+    }
+    if (options.timing && !isValidTiming(options.timing)) {
+      throw new VideoProcessingError(`Playback speed must be between ${MIN_PLAYBACK_SPEED}x and ${MAX_PLAYBACK_SPEED}x`, 'validation');
+    }
+    
     onProgress?.({ stage: 'processing', progress: 30, message: 'Initializing compression...' });
     
     // Calculate optimal settings
@@ -270,22 +463,22 @@ export const compressVideo = async (
     onProgress?.({ stage: 'processing', progress: 50, message: 'Compressing video...' });
     
     // Use FFmpeg WASM for actual compression
-    const compressedBlob = await compressVideoWithFFmpeg(videoFile, optimalSettings, (progressData) => {
+    const output = await compressVideoWithFFmpeg(videoFile, optimalSettings, (progressData) => {
       onProgress?.({
         stage: 'processing',
-        progress: 50 + (progressData.ratio * 0.4), // Scale to 50-90%
-        message: `Compressing... ${Math.round(progressData.ratio * 100)}%`
+        progress: 50 + (progressData.ratio * 40), // Scale to 50-90%
+        message: progressData.message ?? `Compressing... ${Math.round(progressData.ratio * 100)}%`
       });
-    });
+    }, signal, targetBytes);
     
     onProgress?.({ stage: 'complete', progress: 100, message: 'Compression complete!' });
     
-    return compressedBlob;
+    return output;
     
   } catch (error) {
     // Error details are logged to error reporting system
     
-    if (error instanceof VideoProcessingError) {
+    if (error instanceof VideoProcessingError || error instanceof ProcessingCancelledError) {
       throw error;
     }
     
@@ -297,21 +490,74 @@ export const compressVideo = async (
   }
 };
 
+/**
+ * Compress a video so it fits a file size budget, e.g. 25 MB for email.
+ * The bitrate is derived from the probed (or trimmed) duration and encoded in two passes;
+ * if the result overshoots it is re-encoded at a proportionally lower bitrate, and if it lands
+ * under 90% of the target (and below the source bitrate) at a higher one.
+ * @param videoFile - Video to compress
+ * @param targetBytes - Maximum output size in bytes
+ * @param options - Format, dimensions and frame rate (quality is ignored)
+ * @param onProgress - Progress callback
+ * @param signal - Terminates FFmpeg when aborted
+ * @returns The largest result under the target (or the smallest if none fit), whether it met the target and every attempt made
+ */
+export const compressVideoToTargetSize = async (
+  videoFile: File,
+  targetBytes: number,
+  options: VideoCompressionOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<VideoTargetSizeResult> => {
+  if (!Number.isFinite(targetBytes) || targetBytes <= 0) {
+    throw new VideoProcessingError('Target size must be greater than zero', 'validation');
+  }
+
+  const { blob, attempts } = await runCompression(videoFile, options, onProgress, signal, targetBytes);
+  const met = blob.size <= targetBytes;
+  return {
+    blob,
+    met,
+    attempts,
+    ...(!met && {
+      explanation: `The smallest result was ${bytesToMB(blob.size).toFixed(2)} MB after ${attempts.length} attempts. Lower the resolution or frame rate and try again.`
+    })
+  };
+};
+
+// Compress video with enhanced error handling; aborting the signal terminates FFmpeg.
+// Setting maxFileSize (MB) compresses to that size with two-pass encoding and fails if it
+// can't be reached; use compressVideoToTargetSize to get the closest result instead.
+export const compressVideo = async (
+  videoFile: File,
+  options: VideoCompressionOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (options.maxFileSize) {
+    const result = await compressVideoToTargetSize(videoFile, options.maxFileSize * 1024 * 1024, options, onProgress, signal);
+    if (!result.met) {
+      throw new VideoProcessingError(result.explanation ?? 'Target size not reached', 'encoding');
+    }
+    return result.blob;
+  }
+  return (await runCompression(videoFile, options, onProgress, signal)).blob;
+};
+
 // convertVideoToGif function removed - use gifConverter.ts for GIF conversion
 
-// Edit video with enhanced error handling
+// Edit video with enhanced error handling; aborting the signal terminates FFmpeg
 export const editVideo = async (
   videoFile: File,
   options: VideoEditOptions,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
 ): Promise<Blob> => {
   try {
+    throwIfAborted(signal);
     onProgress?.({ stage: 'loading', progress: 0, message: 'Loading video editor...' });
     
-    // For client-side video editing, we would typically use FFmpeg WASM
-    // This is a simplified implementation showing the structure
-    
-    await loadFFmpeg();
+    await preloadFFmpeg(signal);
     
     onProgress?.({ stage: 'loading', progress: 20, message: 'Loading video file...' });
     
@@ -321,13 +567,13 @@ export const editVideo = async (
     onProgress?.({ stage: 'processing', progress: 40, message: 'Applying edits...' });
     
     // Use FFmpeg WASM for actual video editing
-    const editedBlob = await editVideoWithFFmpeg(videoFile, processedOptions, (progress) => {
+    const editedBlob = await editVideoWithFFmpeg(videoFile, processedOptions, (ratio) => {
       onProgress?.({
         stage: 'processing',
-        progress: 40 + (progress * 0.5), // Scale to 40-90%
-        message: `Processing... ${Math.round(progress)}%`
+        progress: 40 + (ratio * 50), // Scale to 40-90%
+        message: `Processing... ${Math.round(ratio * 100)}%`
       });
-    });
+    }, signal);
     
     onProgress?.({ stage: 'complete', progress: 100, message: 'Video editing complete!' });
     
@@ -336,7 +582,7 @@ export const editVideo = async (
   } catch (error) {
     // Video editing error details are logged to error reporting system
     
-    if (error instanceof VideoProcessingError) {
+    if (error instanceof VideoProcessingError || error instanceof ProcessingCancelledError) {
       throw error;
     }
     
@@ -348,6 +594,398 @@ export const editVideo = async (
   }
 };
 
+// Render a canvas to PNG bytes for the FFmpeg virtual filesystem
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new VideoProcessingError('Failed to render frame image', 'processing'));
+        return;
+      }
+      fileToUint8Array(blob).then(resolve, reject);
+    }, 'image/png');
+  });
+
+/**
+ * Convert an animated GIF to MP4 (H.264) or WebM (VP9)
+ * Each frame keeps its own delay through FFmpeg's concat demuxer, and the
+ * animation is repeated to fill the requested duration.
+ * @param gifFile - GIF to convert
+ * @param options - Output format, quality, target duration and background color
+ * @param onProgress - Progress callback
+ * @param signal - Terminates FFmpeg when aborted
+ * @returns The encoded video
+ */
+export const convertGifToVideo = async (
+  gifFile: File | Blob,
+  options: GifToVideoOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { format, quality, duration, backgroundColor = '#000000' } = options;
+
+  onProgress?.({ stage: 'loading', progress: 0, message: 'Decoding GIF...' });
+  let gif: DecodedGif;
+  try {
+    gif = decodeGif(await gifFile.arrayBuffer());
+  } catch (error) {
+    throw new VideoProcessingError('Failed to decode GIF', 'decoding', error instanceof Error ? error : undefined);
+  }
+
+  try {
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'loading', progress: 5, message: 'Loading video processor...' });
+
+    return await runFFmpegJob(async (job) => {
+      // yuv420p needs even dimensions, so odd sizes get a one-pixel background edge
+      const frameCanvas = document.createElement('canvas');
+      frameCanvas.width = gif.width;
+      frameCanvas.height = gif.height;
+      const canvas = document.createElement('canvas');
+      canvas.width = gif.width + (gif.width % 2);
+      canvas.height = gif.height + (gif.height % 2);
+      const frameCtx = frameCanvas.getContext('2d');
+      const ctx = canvas.getContext('2d');
+      if (!frameCtx || !ctx) {
+        throw new VideoProcessingError('Failed to create canvas context', 'processing');
+      }
+
+      const frameNames: string[] = [];
+      for (let i = 0; i < gif.frames.length; i++) {
+        frameCtx.putImageData(new ImageData(gif.frames[i].pixels, gif.width, gif.height), 0, 0);
+        ctx.fillStyle = backgroundColor;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(frameCanvas, 0, 0);
+
+        const name = `frame${String(i).padStart(5, '0')}.png`;
+        await job.writeFile(name, await canvasToPng(canvas));
+        frameNames.push(name);
+        onProgress?.({
+          stage: 'processing',
+          progress: 10 + ((i + 1) / gif.frames.length) * 30,
+          message: `Rendering frame ${i + 1}/${gif.frames.length}...`,
+          currentFrame: i + 1,
+          totalFrames: gif.frames.length
+        });
+      }
+
+      const cycleDuration = gif.frames.reduce((sum, frame) => sum + frame.delay, 0) / 1000;
+      const targetDuration = duration && duration > 0 ? duration : cycleDuration;
+      const loops = Math.max(1, Math.ceil(targetDuration / cycleDuration - 1e-6));
+
+      const list: string[] = [];
+      for (let loop = 0; loop < loops; loop++) {
+        gif.frames.forEach((frame, i) => {
+          list.push(`file '${frameNames[i]}'`, `duration ${(frame.delay / 1000).toFixed(3)}`);
+        });
+      }
+      // The concat demuxer ignores the last entry's duration unless the file is listed once more
+      list.push(`file '${frameNames[frameNames.length - 1]}'`);
+      await job.writeFile('frames.txt', new TextEncoder().encode(list.join('\n')));
+
+      const outputName = `output.${format}`;
+      const args = [
+        '-f', 'concat', '-safe', '0', '-i', 'frames.txt',
+        '-t', targetDuration.toFixed(3),
+        '-vsync', 'vfr',
+        '-pix_fmt', 'yuv420p'
+      ];
+      if (format === 'webm') {
+        args.push('-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', String(Math.round((100 - quality) * 0.63)));
+        args.push('-deadline', 'realtime', '-cpu-used', '8', '-row-mt', '0');
+      } else {
+        args.push('-c:v', 'libx264', '-preset', 'ultrafast', '-crf', String(Math.round((100 - quality) * 0.51)));
+        args.push('-movflags', '+faststart');
+      }
+      args.push(outputName);
+
+      onProgress?.({ stage: 'encoding', progress: 40, message: `Encoding ${format.toUpperCase()}...` });
+      await job.exec(args);
+      const data = await job.readFile(outputName);
+
+      onProgress?.({ stage: 'complete', progress: 100, message: 'Conversion complete!' });
+      return new Blob([data], { type: format === 'mp4' ? 'video/mp4' : 'video/webm' });
+    }, {
+      signal,
+      onProgress: (ratio) => onProgress?.({
+        stage: 'encoding',
+        progress: 40 + ratio * 55,
+        message: `Encoding ${format.toUpperCase()}... ${Math.round(ratio * 100)}%`
+      })
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('GIF to video conversion cancelled');
+    }
+    if (error instanceof VideoProcessingError) {
+      throw error;
+    }
+    throw new VideoProcessingError(
+      `GIF to video conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'processing',
+      error instanceof Error ? error : undefined
+    );
+  }
+};
+
+const MAX_MERGE_INPUT_SIZE = 500 * 1024 * 1024; // All clips together
+const MERGE_AUDIO_RATE = 48000;
+const MAX_MERGE_FPS = 60;
+const FFMPEG_TIME_PATTERN = /time=\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+// Probe codec names mapped onto the codecs a container accepts
+const PROBE_VIDEO_CODECS: Record<string, VideoCodec> = { h264: 'h264', hevc: 'h265', vp8: 'vp8', vp9: 'vp9' };
+const COPY_AUDIO_CODECS: Record<VideoMergeOptions['format'], string[]> = {
+  mp4: ['aac', 'mp3'],
+  webm: ['opus', 'vorbis']
+};
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+// Clips can be joined as-is when every stream matches and the container can carry it
+const canConcatWithoutReencoding = (infos: MediaInfo[], format: VideoMergeOptions['format']): boolean => {
+  const [first] = infos;
+  const videoCodec = first.video ? PROBE_VIDEO_CODECS[first.video.codec] : undefined;
+  if (!first.video || !videoCodec || !CONTAINER_CODECS[format].includes(videoCodec)) return false;
+  if (first.audio && !COPY_AUDIO_CODECS[format].includes(first.audio.codec)) return false;
+
+  return infos.every(({ video, audio }) =>
+    video !== undefined &&
+    video.codec === first.video!.codec &&
+    video.width === first.video!.width &&
+    video.height === first.video!.height &&
+    video.rotation === first.video!.rotation &&
+    Math.abs((video.fps ?? 0) - (first.video!.fps ?? 0)) < 0.01 &&
+    (audio === undefined) === (first.audio === undefined) &&
+    (!audio || (audio.codec === first.audio!.codec &&
+      audio.sampleRate === first.audio!.sampleRate &&
+      audio.channels === first.audio!.channels))
+  );
+};
+
+// Scale, pad and retime every clip to one format, then join them with concat or chained crossfades
+const buildMergeFilterGraph = (
+  infos: MediaInfo[],
+  size: { width: number; height: number },
+  fps: number,
+  withAudio: boolean,
+  crossfade: number
+): string => {
+  const { width, height } = size;
+  const filters: string[] = [];
+
+  infos.forEach((info, i) => {
+    const duration = info.duration;
+    filters.push(
+      `[${i}:v:0]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${fps},format=yuv420p,` +
+      `settb=AVTB,setpts=PTS-STARTPTS[v${i}]`
+    );
+    if (!withAudio) return;
+    // Pad or cut each clip's audio to its video length so later clips stay in sync;
+    // mergeVideos makes sure silent clips always have a duration here
+    const fit = duration ? `,apad,atrim=duration=${duration.toFixed(3)}` : '';
+    const format = `aformat=sample_fmts=fltp:sample_rates=${MERGE_AUDIO_RATE}:channel_layouts=stereo`;
+    filters.push(info.audio
+      ? `[${i}:a:0]aresample=${MERGE_AUDIO_RATE},${format},asetpts=PTS-STARTPTS${fit}[a${i}]`
+      : `anullsrc=r=${MERGE_AUDIO_RATE}:cl=stereo,${format}${fit}[a${i}]`);
+  });
+
+  if (crossfade > 0) {
+    let offset = 0;
+    let video = '[v0]';
+    let audio = '[a0]';
+    for (let i = 1; i < infos.length; i++) {
+      offset += infos[i - 1].duration! - crossfade;
+      const isLast = i === infos.length - 1;
+      const videoOut = isLast ? '[vout]' : `[x${i}]`;
+      const audioOut = isLast ? '[aout]' : `[ax${i}]`;
+      filters.push(`${video}[v${i}]xfade=transition=fade:duration=${crossfade}:offset=${offset.toFixed(3)}${videoOut}`);
+      if (withAudio) {
+        filters.push(`${audio}[a${i}]acrossfade=d=${crossfade}${audioOut}`);
+      }
+      video = videoOut;
+      audio = audioOut;
+    }
+  } else {
+    const segments = infos.map((_, i) => (withAudio ? `[v${i}][a${i}]` : `[v${i}]`)).join('');
+    filters.push(`${segments}concat=n=${infos.length}:v=1:a=${withAudio ? 1 : 0}[vout]${withAudio ? '[aout]' : ''}`);
+  }
+
+  return filters.join(';');
+};
+
+/**
+ * Join several clips into one video.
+ * Clips that share codecs, size and frame rate are joined without re-encoding; otherwise
+ * every clip is scaled and padded to a common size, frame rate and stereo audio first.
+ * @param clips - Videos in playback order
+ * @param options - Output format, quality, size, frame rate and transition
+ * @param onProgress - Progress callback
+ * @param signal - Terminates FFmpeg when aborted
+ * @returns The merged video
+ */
+export const mergeVideos = async (
+  clips: (File | Blob)[],
+  options: VideoMergeOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<VideoMergeResult> => {
+  const { format, quality, resolution, transition = 'none', transitionDuration = 1 } = options;
+
+  if (clips.length < 2) {
+    throw new VideoProcessingError('Add at least two clips to merge', 'validation');
+  }
+  const totalSize = clips.reduce((sum, clip) => sum + clip.size, 0);
+  if (totalSize > MAX_MERGE_INPUT_SIZE) {
+    throw new VideoProcessingError(
+      `Clips total ${Math.round(totalSize / 1024 / 1024)}MB, more than the ${Math.round(MAX_MERGE_INPUT_SIZE / 1024 / 1024)}MB that can be merged at once`,
+      'validation'
+    );
+  }
+
+  const mimeType = format === 'mp4' ? 'video/mp4' : 'video/webm';
+  const outputName = `output.${format}`;
+  // Reported from FFmpeg's log, since its own progress only knows the first input's length
+  let totalDuration: number | undefined;
+  const reportEncoding = (ratio: number) => onProgress?.({
+    stage: 'encoding',
+    progress: 30 + ratio * 65,
+    message: `Merging... ${Math.round(ratio * 100)}%`
+  });
+
+  try {
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'loading', progress: 0, message: 'Loading video processor...' });
+    await preloadFFmpeg(signal);
+
+    return await runFFmpegJob(async (job) => {
+      const inputNames: string[] = [];
+      const infos: MediaInfo[] = [];
+      for (const [i, clip] of clips.entries()) {
+        const extension = clip instanceof File ? clip.name.split('.').pop()?.toLowerCase() || 'mp4' : 'mp4';
+        const name = `clip${i}.${extension}`;
+        await job.writeFile(name, await fileToUint8Array(clip));
+        const info = await probeJobInput(job, name);
+        if (!info.video) {
+          throw new VideoProcessingError(`Clip ${i + 1} has no video track`, 'validation');
+        }
+        inputNames.push(name);
+        infos.push(info);
+        onProgress?.({
+          stage: 'loading',
+          progress: 5 + ((i + 1) / clips.length) * 25,
+          message: `Reading clip ${i + 1}/${clips.length}...`
+        });
+      }
+
+      const durations = infos.map((info) => info.duration);
+      const knownDurations = durations.every((duration): duration is number => duration !== undefined && duration > 0);
+      const crossfade = transition === 'crossfade' ? transitionDuration : 0;
+      if (crossfade > 0) {
+        if (!knownDurations) {
+          throw new VideoProcessingError('Crossfades need every clip\'s duration, which could not be read', 'validation');
+        }
+        const shortest = Math.min(...(durations as number[]));
+        if (crossfade >= shortest) {
+          throw new VideoProcessingError(
+            `The crossfade (${crossfade}s) must be shorter than the shortest clip (${shortest.toFixed(1)}s)`,
+            'validation'
+          );
+        }
+      }
+      if (knownDurations) {
+        totalDuration = (durations as number[]).reduce((sum, duration) => sum + duration, 0) - crossfade * (clips.length - 1);
+      }
+
+      const needsScaling = resolution !== undefined || options.fps !== undefined;
+      if (crossfade === 0 && !needsScaling && canConcatWithoutReencoding(infos, format)) {
+        onProgress?.({ stage: 'processing', progress: 30, message: 'Joining clips without re-encoding...' });
+        const list = inputNames.map((name) => `file '${name}'`).join('\n');
+        await job.writeFile('clips.txt', new TextEncoder().encode(list));
+        try {
+          await job.exec([
+            '-f', 'concat', '-safe', '0', '-i', 'clips.txt',
+            '-c', 'copy',
+            ...(format === 'mp4' ? ['-movflags', '+faststart'] : []),
+            outputName
+          ]);
+          onProgress?.({ stage: 'complete', progress: 100, message: 'Merge complete!' });
+          return { blob: new Blob([await job.readFile(outputName)], { type: mimeType }), streamCopy: true, duration: totalDuration };
+        } catch (copyError) {
+          // Streams that look alike can still differ in ways the muxer rejects; re-encode instead
+          throwIfAborted(signal);
+          console.warn('Joining without re-encoding failed, re-encoding instead:', copyError);
+        }
+      }
+
+      // The first clip sets the shape; a resolution sets its short side
+      const first = infos[0];
+      const sourceWidth = first.displayWidth ?? first.video!.width;
+      const sourceHeight = first.displayHeight ?? first.video!.height;
+      const scale = resolution ? resolution / Math.min(sourceWidth, sourceHeight) : 1;
+      const size = { width: toEven(sourceWidth * scale), height: toEven(sourceHeight * scale) };
+      const fps = Math.min(options.fps ?? Math.round(first.video!.fps ?? 30), MAX_MERGE_FPS);
+      const withAudio = infos.some((info) => info.audio);
+      // Silence for a clip without audio is cut to the clip's length; unbounded, it would never end
+      const silentUnknown = withAudio
+        ? infos.findIndex((info) => !info.audio && !(info.duration && info.duration > 0))
+        : -1;
+      if (silentUnknown !== -1) {
+        throw new VideoProcessingError(
+          `Clip ${silentUnknown + 1} has no audio and its duration could not be read, so it can't be merged with clips that have sound`,
+          'validation'
+        );
+      }
+
+      const args = [
+        ...inputNames.flatMap((name) => ['-i', name]),
+        '-filter_complex', buildMergeFilterGraph(infos, size, fps, withAudio, crossfade),
+        '-map', '[vout]',
+        ...(withAudio ? ['-map', '[aout]'] : []),
+        '-threads', '1'
+      ];
+      if (format === 'webm') {
+        args.push('-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', String(Math.round((100 - quality) * 0.63)));
+        args.push('-deadline', 'realtime', '-cpu-used', '8', '-row-mt', '0');
+        if (withAudio) args.push('-c:a', 'libopus', '-b:a', '128k');
+      } else {
+        args.push('-c:v', 'libx264', '-preset', 'ultrafast', '-crf', String(Math.round((100 - quality) * 0.51)));
+        if (withAudio) args.push('-c:a', 'aac', '-b:a', '128k');
+        args.push('-movflags', '+faststart');
+      }
+      args.push(outputName);
+
+      onProgress?.({ stage: 'encoding', progress: 30, message: `Merging ${clips.length} clips...` });
+      await job.exec(args);
+
+      onProgress?.({ stage: 'complete', progress: 100, message: 'Merge complete!' });
+      return { blob: new Blob([await job.readFile(outputName)], { type: mimeType }), streamCopy: false, duration: totalDuration };
+    }, {
+      signal,
+      onLog: (message) => {
+        const match = FFMPEG_TIME_PATTERN.exec(message);
+        if (match && totalDuration) {
+          const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+          reportEncoding(Math.min(1, seconds / totalDuration));
+        }
+      }
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('Video merge cancelled');
+    }
+    if (error instanceof VideoProcessingError) {
+      throw error;
+    }
+    throw new VideoProcessingError(
+      `Video merge failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'processing',
+      error instanceof Error ? error : undefined
+    );
+  }
+};
+
 // Calculate optimal compression settings
 const calculateOptimalSettings = (
   videoFile: File,
@@ -417,309 +1055,374 @@ const validateEditOptions = (options: VideoEditOptions): VideoEditOptions => {
   return validated;
 };
 
+const isValidCrop = (crop: CropRegion): boolean =>
+  crop.x >= 0 && crop.y >= 0 && crop.width > 0 && crop.height > 0 &&
+  crop.x + crop.width <= 1.0001 && crop.y + crop.height <= 1.0001;
+
+// Crop in fractions of the (auto-rotated) input, rounded down to even sizes for 4:2:0 encoders
+const buildCropFilter = (crop: CropRegion): string => {
+  const fraction = (value: number) => value.toFixed(4);
+  return [
+    `crop=w=trunc(iw*${fraction(crop.width)}/2)*2`,
+    `h=trunc(ih*${fraction(crop.height)}/2)*2`,
+    `x=trunc(iw*${fraction(crop.x)})`,
+    `y=trunc(ih*${fraction(crop.y)})`
+  ].join(':');
+};
+
+// atempo keeps the pitch but older builds only accept 0.5-2, so larger changes are chained
+const buildTempoFilters = (speed: number): string[] => {
+  const steps: number[] = [];
+  let remaining = speed;
+  while (remaining < 0.5) {
+    steps.push(0.5);
+    remaining /= 0.5;
+  }
+  while (remaining > 2) {
+    steps.push(2);
+    remaining /= 2;
+  }
+  return [...steps, remaining].map((step) => `atempo=${Number(step.toFixed(4))}`);
+};
+
+// Speed and direction as a single-input, single-output chain; pad labels are prefixed
+// per stream so the chain can also sit inside a larger filter graph
+const buildTimingFilter = (timing: PlaybackTiming, stream: 'video' | 'audio'): string | null => {
+  const isVideo = stream === 'video';
+  const filters: string[] = [];
+  if (timing.speed !== 1) {
+    filters.push(...(isVideo ? [`setpts=PTS/${Number(timing.speed.toFixed(4))}`] : buildTempoFilters(timing.speed)));
+  }
+  // reverse and areverse buffer the whole clip, which is why trimming happens on the input
+  const reverse = isVideo ? 'reverse' : 'areverse';
+  if (timing.direction === 'reverse') {
+    filters.push(reverse);
+  } else if (timing.direction === 'boomerang') {
+    const label = isVideo ? 'v' : 'a';
+    filters.push(`${isVideo ? 'split' : 'asplit'}[${label}fwd][${label}back]`);
+    return [
+      filters.join(','),
+      `[${label}back]${reverse}[${label}rev]`,
+      `[${label}fwd][${label}rev]concat=n=2:v=${isVideo ? 1 : 0}:a=${isVideo ? 0 : 1}`
+    ].join(';');
+  }
+  return filters.length > 0 ? filters.join(',') : null;
+};
+
+const SUBTITLE_OVERLAY_MAX_HEIGHT = 720; // Cue images are scaled to the output size by FFmpeg
+
+/**
+ * Render cues to transparent PNGs and list them for the concat demuxer, each held for
+ * as long as its cues show, with a blank image for the gaps
+ * @returns Input arguments for the overlay stream
+ */
+const writeSubtitleOverlay = async (job: FFmpegJob, track: SubtitleTrack, width: number, height: number): Promise<string[]> => {
+  const scale = Math.min(1, SUBTITLE_OVERLAY_MAX_HEIGHT / height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(2, Math.round(width * scale));
+  canvas.height = Math.max(2, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new VideoProcessingError('Failed to create canvas context', 'processing');
+  }
+
+  await job.writeFile('subtitle_blank.png', await canvasToPng(canvas));
+  // Every start and end is a point where the visible text can change
+  const boundaries = [...new Set([0, ...track.cues.flatMap((cue) => [cue.start, cue.end])])].sort((a, b) => a - b);
+  const list: string[] = [];
+  for (let i = 0; i < boundaries.length; i++) {
+    const start = boundaries[i];
+    const duration = i + 1 < boundaries.length ? boundaries[i + 1] - start : 1;
+    const active = getActiveCues(track.cues, start);
+    let name = 'subtitle_blank.png';
+    if (active.length > 0) {
+      name = `subtitle${String(i).padStart(5, '0')}.png`;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawSubtitles(ctx, active, canvas.width, canvas.height, track.style);
+      await job.writeFile(name, await canvasToPng(canvas));
+    }
+    list.push(`file '${name}'`, `duration ${duration.toFixed(3)}`);
+  }
+  // The concat demuxer ignores the last entry's duration unless the file is listed once more
+  list.push(`file 'subtitle_blank.png'`);
+  await job.writeFile('subtitles.txt', new TextEncoder().encode(list.join('\n')));
+
+  return ['-f', 'concat', '-safe', '0', '-i', 'subtitles.txt'];
+};
+
+interface TargetSizeEncodeParams {
+  inputArgs: string[]; // -i and any seek/duration options
+  duration?: number | undefined; // Output length in seconds
+  outputName: string;
+  mimeType: string;
+  videoArgs: string[]; // Codec, preset, scaling and frame rate, without rate control
+  codec: VideoCodec;
+  audioCodec: string;
+  containerArgs: string[];
+  targetBytes: number;
+  info?: MediaInfo | undefined;
+  onPassStart?: ((attempt: number, pass: number) => void) | undefined;
+}
+
+const MAX_TARGET_ATTEMPTS = 3;
+const CONTAINER_OVERHEAD = 0.97; // Share of the budget left after muxing overhead
+const MIN_VIDEO_BITRATE = 50; // kbps; below this the result is unwatchable
+const MIN_TARGET_FILL = 0.9; // Results smaller than this share of the target are retried at a higher bitrate
+
+// Two-pass encode at a bitrate derived from the probed duration, retrying lower if the result overshoots
+// and higher if it lands well under the target. Nothing is retried above the source bitrate, so a
+// result capped there may stay small; the largest result that fits is kept.
+const encodeToTargetSize = async (job: FFmpegJob, params: TargetSizeEncodeParams): Promise<CompressionOutput> => {
+  const { inputArgs, duration, outputName, mimeType, videoArgs, codec, audioCodec, containerArgs, targetBytes, info, onPassStart } = params;
+  if (!duration || duration <= 0) {
+    throw new VideoProcessingError('Could not determine the video duration, which target size mode needs', 'validation');
+  }
+
+  // Re-encoding above the source bitrate only adds size
+  const maxBitrate = info?.bitrate ?? Infinity;
+  let totalBitrate = Math.min(((targetBytes * 8) / 1000 / duration) * CONTAINER_OVERHEAD, maxBitrate);
+  const audioBitrate = info?.audio ? (totalBitrate < 400 ? 64 : 128) : 0;
+
+  const attempts: VideoCompressionAttempt[] = [];
+  let best: Blob | null = null; // Largest result that fits
+  let smallest: Blob | null = null;
+
+  for (let attempt = 1; attempt <= MAX_TARGET_ATTEMPTS; attempt++) {
+    const videoBitrate = Math.floor(totalBitrate - audioBitrate);
+    if (videoBitrate < MIN_VIDEO_BITRATE) {
+      if (smallest) break;
+      const minimumMB = (((MIN_VIDEO_BITRATE + audioBitrate) * 1000 * duration) / 8 / CONTAINER_OVERHEAD) / (1024 * 1024);
+      throw new VideoProcessingError(
+        `Target size is too small for a ${Math.round(duration)}s video. Try at least ${minimumMB.toFixed(1)} MB.`,
+        'validation'
+      );
+    }
+
+    const rateArgs = ['-b:v', `${videoBitrate}k`];
+    onPassStart?.(attempt, 1);
+    await job.exec(['-y', ...inputArgs, ...videoArgs, ...rateArgs, ...buildPassArgs(codec, 1), '-an', '-f', 'null', '-']);
+    onPassStart?.(attempt, 2);
+    await job.exec([
+      '-y', ...inputArgs,
+      ...videoArgs, ...rateArgs, ...buildPassArgs(codec, 2),
+      ...(audioBitrate ? ['-c:a', audioCodec, '-b:a', `${audioBitrate}k`] : ['-an']),
+      ...containerArgs,
+      outputName
+    ]);
+
+    const blob = new Blob([await job.readFile(outputName)], { type: mimeType });
+    const fits = blob.size <= targetBytes;
+    attempts.push({ index: attempt, videoBitrate, audioBitrate, size: blob.size, fits });
+    if (fits && (!best || blob.size > best.size)) best = blob;
+    if (!smallest || blob.size < smallest.size) smallest = blob;
+
+    if (fits && (blob.size >= targetBytes * MIN_TARGET_FILL || totalBitrate >= maxBitrate)) break;
+
+    // Scale the bitrate by how far the last attempt missed, with a little headroom
+    totalBitrate = Math.min(totalBitrate * (targetBytes / blob.size) * CONTAINER_OVERHEAD, maxBitrate);
+  }
+
+  const blob = best ?? smallest;
+  if (!blob) {
+    throw new VideoProcessingError('Target size encoding produced no output', 'encoding');
+  }
+  return { blob, attempts };
+};
+
 // Video compression using FFmpeg WASM
 const compressVideoWithFFmpeg = async (
   videoFile: File,
   options: VideoCompressionOptions,
-  onProgress?: (progress: { ratio: number }) => void
-): Promise<Blob> => {
-  const { FFmpeg, fetchFile, toBlobURL } = await loadFFmpeg();
-  const ffmpeg = new FFmpeg();
-  
+  onProgress?: EncodeProgressCallback,
+  signal?: AbortSignal,
+  targetBytes?: number
+): Promise<CompressionOutput> => {
+  // Two-pass encodes swap this out so each pass reports its own share of the progress
+  let reportProgress = (ratio: number) => onProgress?.({ ratio });
+
   try {
-    // Check if SharedArrayBuffer is available (required for FFmpeg WASM)
-    if (typeof SharedArrayBuffer === 'undefined') {
-      throw new VideoProcessingError(
-        'SharedArrayBuffer is not available. This browser may not support FFmpeg WASM, or the required cross-origin isolation headers are missing.',
-        'loading'
-      );
-    }
-    
-    // Load FFmpeg with core and wasm files from local public directory
-    // Use fetchFile and toBlobURL from @ffmpeg/util for proper loading
-    ffmpeg.on('log', ({ message }) => {
-      console.log('FFmpeg log:', message);
-    });
-    
-    const basePath = import.meta.env.BASE_URL || '/sLixTOOLS/';
-    const coreJsURL = `${basePath}workers/ffmpeg-core.js`;
-    const coreWasmURL = `${basePath}workers/ffmpeg-core.wasm`;
-    
-    console.log('Loading FFmpeg core files from:', { coreJsURL, coreWasmURL });
-    
-    // Use absolute URLs with window.location.origin for proper resolution
-    const fullCoreJsURL = new URL(coreJsURL, window.location.origin).href;
-    const fullCoreWasmURL = new URL(coreWasmURL, window.location.origin).href;
+    // Determine input and output file names based on format
+    const inputExt = videoFile.name.split('.').pop()?.toLowerCase() || 'mp4';
+    const inputName = `input.${inputExt}`;
+    const outputName = `output.${options.format}`;
     
-    // Remove any query parameters that might interfere with module imports
-    const cleanCoreJsURL = fullCoreJsURL.split('?')[0];
-    const cleanCoreWasmURL = fullCoreWasmURL.split('?')[0];
+    // Determine MIME type based on format
+    const mimeTypes: Record<string, string> = {
+      'mp4': 'video/mp4',
+      'webm': 'video/webm',
+      'avi': 'video/x-msvideo',
+      'mov': 'video/quicktime'
+    };
     
-    console.log('Using clean URLs for FFmpeg load:', { cleanCoreJsURL, cleanCoreWasmURL });
+    const mimeType = mimeTypes[options.format] || 'video/mp4';
     
-    try {
-      // FFmpeg WASM 0.12.x - The "failed to import" error suggests the core.js file
-      // is trying to do a dynamic import internally. This might be a version issue.
-      // Try loading without specifying URLs first (uses default CDN), then fallback to local
-      console.log('Loading FFmpeg with local core files...');
-      
-      await ffmpeg.load({
-        coreURL: cleanCoreJsURL,
-        wasmURL: cleanCoreWasmURL,
-      });
-      
-      console.log('FFmpeg loaded successfully');
-    } catch (loadError) {
-      console.error('FFmpeg load error:', loadError);
+    return await runFFmpegJob(async (job) => {
+      await job.writeFile(inputName, await fileToUint8Array(videoFile));
       
-      // The "failed to import" error is a known issue with FFmpeg WASM 0.12.x
-      // It happens when the core.js file tries to dynamically import modules
-      // This might be fixed in newer versions or require a different loading approach
-      const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
-      const isSharedArrayBufferError = errorMessage.includes('SharedArrayBuffer') || 
-                                       errorMessage.includes('cross-origin') ||
-                                       errorMessage.includes('COEP') ||
-                                       errorMessage.includes('COOP');
-      const isImportError = errorMessage.includes('import') || errorMessage.includes('Import') || errorMessage.includes('failed to import');
-      
-      let errorDetails = '';
-      if (isSharedArrayBufferError) {
-        errorDetails = 'Make sure cross-origin isolation headers (COOP/COEP) are set correctly.';
-      } else if (isImportError) {
-        errorDetails = 'FFmpeg core.js is trying to dynamically import modules, which is failing. This is a known issue with FFmpeg WASM 0.12.x. The UMD build might have internal ES module imports that are incompatible with COEP. Consider using a different FFmpeg version or loading method.';
-      } else {
-        errorDetails = 'Check that files exist in public/workers/ and are accessible.';
+      // Probe input dimensions (needed to detect upscaling); FFmpeg auto-rotates, so use display size
+      let inputWidth = 0;
+      let inputHeight = 0;
+      let info: MediaInfo | undefined;
+      try {
+        info = await probeJobInput(job, inputName);
+        inputWidth = info.displayWidth ?? 0;
+        inputHeight = info.displayHeight ?? 0;
+      } catch (probeError) {
+        // If we can't get dimensions, assume no upscaling
+        console.warn('Could not probe video dimensions, proceeding with caution:', probeError);
       }
       
-      throw new VideoProcessingError(
-        `Failed to load FFmpeg: ${errorMessage}. ${errorDetails}`,
-        'loading',
-        loadError instanceof Error ? loadError : undefined
-      );
-    }
-    
-    // Determine input and output file names based on format
-    const getFileNames = (format: string) => {
-      const inputExt = videoFile.name.split('.').pop()?.toLowerCase() || 'mp4';
-      const outputExt = format;
-      return {
-        inputName: `input.${inputExt}`,
-        outputName: `output.${outputExt}`
-      };
-    };
-    
-    const { inputName, outputName } = getFileNames(options.format);
-    
-    // Write input file
-    await ffmpeg.writeFile(inputName, await fileToUint8Array(videoFile));
-    
-    // Probe video to get input dimensions (needed to detect upscaling)
-    let inputWidth = 0;
-    let inputHeight = 0;
-    try {
-      // Use FFprobe-like approach: run ffmpeg with -f null to get video info
-      const probeArgs = ['-i', inputName, '-f', 'null', '-'];
-      await ffmpeg.exec(probeArgs);
-    } catch (probeError) {
-      // If probe fails, we'll proceed without dimension info
-      console.warn('Could not probe video dimensions:', probeError);
-    }
-    
-    // Try to get dimensions from video metadata using a video element
-    // This is a fallback if FFmpeg probe doesn't work
-    const video = document.createElement('video');
-    video.preload = 'metadata';
-    video.src = URL.createObjectURL(videoFile);
-    await new Promise<void>((resolve, reject) => {
-      video.onloadedmetadata = () => {
-        inputWidth = video.videoWidth;
-        inputHeight = video.videoHeight;
-        URL.revokeObjectURL(video.src);
-        resolve();
-      };
-      video.onerror = () => {
-        URL.revokeObjectURL(video.src);
-        reject(new Error('Failed to load video metadata'));
-      };
-      // Timeout after 5 seconds
-      setTimeout(() => {
-        URL.revokeObjectURL(video.src);
-        reject(new Error('Video metadata loading timeout'));
-      }, 5000);
-    }).catch(() => {
-      // If we can't get dimensions, assume no upscaling
-      console.warn('Could not get video dimensions, proceeding with caution');
-    });
-    
-    // Calculate upscale factor and adjust output resolution if needed
-    let outputWidth = options.maxWidth;
-    let outputHeight = options.maxHeight;
-    const maxUpscaleFactor = 2.0; // Limit upscaling to 2x to prevent memory issues
-    
-    if (inputWidth > 0 && inputHeight > 0 && outputWidth > 0 && outputHeight > 0) {
-      const widthScale = outputWidth / inputWidth;
-      const heightScale = outputHeight / inputHeight;
-      const maxScale = Math.max(widthScale, heightScale);
+      // Calculate upscale factor and adjust output resolution if needed
+      let outputWidth = options.maxWidth;
+      let outputHeight = options.maxHeight;
+      const maxUpscaleFactor = 2.0; // Limit upscaling to 2x to prevent memory issues
+    
+      if (inputWidth > 0 && inputHeight > 0 && outputWidth > 0 && outputHeight > 0) {
+        const widthScale = outputWidth / inputWidth;
+        const heightScale = outputHeight / inputHeight;
+        const maxScale = Math.max(widthScale, heightScale);
       
-      if (maxScale > maxUpscaleFactor) {
-        console.warn(`Large upscale detected (${maxScale.toFixed(1)}x). Limiting to ${maxUpscaleFactor}x to prevent memory issues.`);
-        // Limit upscale to maxUpscaleFactor
-        const aspectRatio = inputWidth / inputHeight;
-        if (inputWidth > inputHeight) {
-          outputWidth = Math.min(outputWidth, Math.round(inputWidth * maxUpscaleFactor));
-          outputHeight = Math.round(outputWidth / aspectRatio);
-        } else {
-          outputHeight = Math.min(outputHeight, Math.round(inputHeight * maxUpscaleFactor));
-          outputWidth = Math.round(outputHeight * aspectRatio);
+        if (maxScale > maxUpscaleFactor) {
+          console.warn(`Large upscale detected (${maxScale.toFixed(1)}x). Limiting to ${maxUpscaleFactor}x to prevent memory issues.`);
+          // Limit upscale to maxUpscaleFactor
+          const aspectRatio = inputWidth / inputHeight;
+          if (inputWidth > inputHeight) {
+            outputWidth = Math.min(outputWidth, Math.round(inputWidth * maxUpscaleFactor));
+            outputHeight = Math.round(outputWidth / aspectRatio);
+          } else {
+            outputHeight = Math.min(outputHeight, Math.round(inputHeight * maxUpscaleFactor));
+            outputWidth = Math.round(outputHeight * aspectRatio);
+          }
+          // Ensure even dimensions (required for some codecs)
+          outputWidth = outputWidth % 2 === 0 ? outputWidth : outputWidth - 1;
+          outputHeight = outputHeight % 2 === 0 ? outputHeight : outputHeight - 1;
         }
-        // Ensure even dimensions (required for some codecs)
-        outputWidth = outputWidth % 2 === 0 ? outputWidth : outputWidth - 1;
-        outputHeight = outputHeight % 2 === 0 ? outputHeight : outputHeight - 1;
       }
-    }
     
-    // Build FFmpeg command based on output format
-    const args = ['-i', inputName];
-    
-    // Memory management for FFmpeg WASM
-    // Limit threads to reduce memory usage (WASM has limited threading support)
-    args.push('-threads', '1');
-    
-    // Codec selection based on format
-    // Note: For large upscales with WebM, consider using H.264 instead (less memory-intensive)
-    const isLargeUpscale = inputWidth > 0 && inputHeight > 0 && 
-                           (outputWidth / inputWidth > 1.5 || outputHeight / inputHeight > 1.5);
-    
-    if (options.format === 'webm') {
-      // For large upscales, VP9 is very memory-intensive
-      // Consider using VP8 or limiting resolution further
-      if (isLargeUpscale) {
-        console.warn('Large upscale with WebM/VP9 detected. Using VP8 instead for better memory efficiency.');
-        args.push('-c:v', 'libvpx'); // VP8 is less memory-intensive than VP9
-      } else {
-        args.push('-c:v', 'libvpx-vp9');
-        // VP9 memory optimizations for WASM
-        args.push('-deadline', 'realtime'); // Faster encoding, less memory
-        args.push('-cpu-used', '8'); // Maximum speed, minimum memory
-        args.push('-row-mt', '0'); // Disable row-based multithreading (saves memory)
+      // Fail early with a clear message if this core was built without the encoder
+      const encoder = VIDEO_CODECS[options.codec].encoder;
+      const encoders = await getAvailableEncoders(job);
+      if (encoders.size > 0 && !encoders.has(encoder)) {
+        throw new VideoProcessingError(
+          `${VIDEO_CODECS[options.codec].label} encoding is not available in this FFmpeg build (missing ${encoder})`,
+          'validation'
+        );
       }
-      args.push('-c:a', 'libopus');
-    } else if (options.format === 'avi') {
-      // AVI format - use simpler codecs that are more likely available
-      args.push('-c:v', 'libx264'); // H.264 is more widely supported
-      args.push('-c:a', 'aac'); // Use AAC instead of MP3 for better compatibility
-    } else if (options.format === 'mov') {
-      // MOV format (QuickTime)
-      args.push('-c:v', 'libx264');
-      args.push('-c:a', 'aac');
-    } else {
-      // MP4 format (default)
-      args.push('-c:v', 'libx264'); // Always use H.264 for MP4
-      args.push('-c:a', 'aac');
-    }
-    
-    // Use faster preset for WASM (medium might be too slow)
-    args.push('-preset', 'ultrafast'); // Changed from 'medium' for better WASM performance
-    args.push('-crf', String(Math.round((100 - options.quality) * 0.51))); // Convert quality to CRF (0-51)
-    args.push('-movflags', '+faststart'); // Optimize for web playback
     
-    // Add resolution if specified - use memory-efficient scaling
-    if (outputWidth > 0 && outputHeight > 0) {
-      // Use fast_bilinear for memory efficiency, especially for large upscales
-      args.push('-vf', `scale=${outputWidth}:${outputHeight}:flags=fast_bilinear`);
-    }
-    
-    // Add frame rate if specified
-    if (options.fps) {
-      args.push('-r', String(options.fps));
-    }
-    
-    args.push(outputName);
+      // Build FFmpeg encoder arguments
+      // Memory management for FFmpeg WASM
+      // Limit threads to reduce memory usage (WASM has limited threading support)
+      const videoArgs = ['-threads', '1'];
+      // WebM needs Opus; the other containers get AAC (AVI too, for better compatibility than MP3)
+      const audioCodec = options.format === 'webm' ? 'libopus' : 'aac';
+    
+      const isLargeUpscale = inputWidth > 0 && inputHeight > 0 && 
+                             (outputWidth / inputWidth > 1.5 || outputHeight / inputHeight > 1.5);
+      if (isLargeUpscale && options.codec === 'vp9') {
+        console.warn('Large upscale with VP9 detected. This may run out of memory; VP8 or H.264 are lighter.');
+      }
     
-    // Set up progress tracking
-    ffmpeg.on('progress', ({ progress: prog }) => {
-      const ratio = prog / 100;
-      onProgress?.({ ratio });
-    });
+      videoArgs.push(...buildCodecArgs(options, Boolean(targetBytes)));
     
-    // Run FFmpeg
-    console.log('FFmpeg command:', args.join(' '));
-    try {
-      await ffmpeg.exec(args);
-    } catch (execError) {
-      console.error('FFmpeg exec error:', execError);
-      // List files to debug
-      try {
-        const files = await ffmpeg.listDir('/');
-        console.log('Files in FFmpeg FS:', files);
-      } catch (listError) {
-        console.error('Failed to list files:', listError);
+      const filters: string[] = [];
+      if (options.crop) {
+        filters.push(buildCropFilter(options.crop));
       }
-      throw new VideoProcessingError(
-        `FFmpeg execution failed: ${execError instanceof Error ? execError.message : String(execError)}`,
-        'processing',
-        execError instanceof Error ? execError : undefined
-      );
-    }
-    
-    // Read output file
-    let data: Uint8Array | string;
-    try {
-      data = await ffmpeg.readFile(outputName);
-      console.log('Output file read successfully, type:', typeof data, 'size:', data instanceof Uint8Array ? data.length : data.length);
-    } catch (readError) {
-      console.error('FFmpeg readFile error:', readError);
-      // List files to debug
-      try {
-        const files = await ffmpeg.listDir('/');
-        console.log('Files in FFmpeg FS after exec:', files);
-      } catch (listError) {
-        console.error('Failed to list files:', listError);
+      // Add resolution if specified - use memory-efficient scaling
+      if (outputWidth > 0 && outputHeight > 0) {
+        // Use fast_bilinear for memory efficiency, especially for large upscales
+        filters.push(options.crop
+          // A crop has its own aspect ratio; fit it inside the limits without upscaling
+          ? `scale=w='min(${outputWidth},iw)':h='min(${outputHeight},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2:flags=fast_bilinear`
+          : `scale=${outputWidth}:${outputHeight}:flags=fast_bilinear`);
+      }
+
+      const timing = isTimingChanged(options.timing) ? options.timing : undefined;
+      const videoTiming = timing ? buildTimingFilter(timing, 'video') : null;
+      // Audio is retimed to match; if the probe failed there may be none to retime, so it is dropped
+      const audioTiming = timing && info?.audio ? buildTimingFilter(timing, 'audio') : null;
+      if (timing && !info) {
+        videoArgs.push('-an');
+      } else if (audioTiming) {
+        videoArgs.push('-af', audioTiming);
+      }
+
+      // Trimming restarts timestamps at zero, so cues move with the in point
+      const cues = options.subtitles && options.trim
+        ? shiftCues(options.subtitles.cues, options.trim.start, options.trim.end)
+        : options.subtitles?.cues ?? [];
+      let overlayInputArgs: string[] = [];
+      if (options.subtitles && cues.length > 0) {
+        const frameWidth = (inputWidth || 1280) * (options.crop?.width ?? 1);
+        const frameHeight = (inputHeight || 720) * (options.crop?.height ?? 1);
+        overlayInputArgs = await writeSubtitleOverlay(job, { ...options.subtitles, cues }, frameWidth, frameHeight);
+        // The overlay is input 0; it is scaled to whatever size the filters produce before being laid on top.
+        // Timing comes after the overlay so captions stay on the frames they were timed against.
+        videoArgs.push(
+          '-filter_complex',
+          `[1:v]${filters.join(',') || 'null'}[base];[0:v][base]scale2ref[subs][ref];` +
+            `[ref][subs]overlay=format=auto${videoTiming ? `,${videoTiming}` : ''}[vout]`,
+          '-map', '[vout]',
+          '-map', '1:a:0?'
+        );
+      } else if (filters.length > 0 || videoTiming) {
+        videoArgs.push('-vf', [...filters, ...(videoTiming ? [videoTiming] : [])].join(','));
       }
-      throw new VideoProcessingError(
-        `Failed to read output file: ${readError instanceof Error ? readError.message : String(readError)}`,
-        'processing',
-        readError instanceof Error ? readError : undefined
-      );
-    }
-    
-    // Determine MIME type based on format
-    const mimeTypes: Record<string, string> = {
-      'mp4': 'video/mp4',
-      'webm': 'video/webm',
-      'avi': 'video/x-msvideo',
-      'mov': 'video/quicktime'
-    };
-    
-    const mimeType = mimeTypes[options.format] || 'video/mp4';
     
-    // Clean up
-    try {
-      await ffmpeg.deleteFile(inputName);
-      await ffmpeg.deleteFile(outputName);
-    } catch (cleanupError) {
-      console.warn('Failed to cleanup FFmpeg files:', cleanupError);
-    }
+      // Add frame rate if specified
+      if (options.fps) {
+        videoArgs.push('-r', String(options.fps));
+      }
     
-    // Convert FileData to Uint8Array for Blob
-    // FFmpeg returns Uint8Array<ArrayBufferLike>, we need to create a new ArrayBuffer
-    let uint8Array: Uint8Array<ArrayBuffer>;
-    if (data instanceof Uint8Array) {
-      // Create a new ArrayBuffer by copying the data byte by byte
-      const buffer = new ArrayBuffer(data.byteLength);
-      uint8Array = new Uint8Array(buffer);
-      for (let i = 0; i < data.byteLength; i++) {
-        uint8Array[i] = data[i];
+      const containerArgs = ['-movflags', '+faststart']; // Optimize for web playback
+      // Seeking before the input jumps straight to the start instead of decoding up to it, and
+      // limiting the input rather than the output keeps retimed and reversed clips whole
+      const { trim } = options;
+      const inputArgs = [
+        ...overlayInputArgs,
+        ...(trim
+          ? ['-ss', trim.start.toFixed(3), '-t', (trim.end - trim.start).toFixed(3), '-i', inputName]
+          : ['-i', inputName])
+      ];
+    
+      if (targetBytes) {
+        const clipDuration = trim ? trim.end - trim.start : info?.duration;
+        return encodeToTargetSize(job, {
+          inputArgs,
+          duration: clipDuration && getTimedDuration(clipDuration, timing),
+          outputName,
+          mimeType,
+          videoArgs,
+          codec: options.codec,
+          audioCodec,
+          containerArgs,
+          targetBytes,
+          info,
+          onPassStart: (attempt, pass) => {
+            reportProgress = (ratio) => onProgress?.({
+              ratio: (pass - 1 + ratio) / 2,
+              message: `Attempt ${attempt}, pass ${pass}/2... ${Math.round(ratio * 100)}%`
+            });
+          }
+        });
       }
-    } else {
-      // Handle other types (shouldn't happen, but TypeScript requires it)
-      const buffer = new ArrayBuffer(0);
-      uint8Array = new Uint8Array(buffer);
-    }
     
-    return new Blob([uint8Array], { type: mimeType });
+      const args = [
+        ...inputArgs,
+        ...videoArgs,
+        '-c:a', audioCodec,
+        ...containerArgs,
+        outputName
+      ];
+      console.log('FFmpeg command:', args.join(' '));
+      await job.exec(args);
+      return { blob: new Blob([await job.readFile(outputName)], { type: mimeType }), attempts: [] };
+    }, { signal, onProgress: (ratio) => reportProgress(ratio) });
     
   } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('Video compression cancelled');
+    }
     console.error('FFmpeg compression error:', error);
     if (error instanceof VideoProcessingError) {
       throw error;
@@ -729,13 +1432,6 @@ const compressVideoWithFFmpeg = async (
       'processing',
       error instanceof Error ? error : undefined
     );
-  } finally {
-    // Cleanup FFmpeg instance
-    try {
-      ffmpeg.terminate();
-    } catch (cleanupError) {
-      console.warn('FFmpeg cleanup error:', cleanupError);
-    }
   }
 };
 
@@ -743,87 +1439,12 @@ const compressVideoWithFFmpeg = async (
 const editVideoWithFFmpeg = async (
   videoFile: File,
   options: VideoEditOptions,
-  onProgress?: (progress: number) => void
+  onProgress?: (ratio: number) => void,
+  signal?: AbortSignal
 ): Promise<Blob> => {
-  const { FFmpeg, fetchFile, toBlobURL } = await loadFFmpeg();
-  const ffmpeg = new FFmpeg();
-  
   try {
-    // Check if SharedArrayBuffer is available (required for FFmpeg WASM)
-    if (typeof SharedArrayBuffer === 'undefined') {
-      throw new VideoProcessingError(
-        'SharedArrayBuffer is not available. This browser may not support FFmpeg WASM, or the required cross-origin isolation headers are missing.',
-        'loading'
-      );
-    }
-    
-    // Load FFmpeg with core and wasm files from local public directory
-    // Use fetchFile and toBlobURL from @ffmpeg/util for proper loading
-    ffmpeg.on('log', ({ message }) => {
-      console.log('FFmpeg log:', message);
-    });
-    
-    const basePath = import.meta.env.BASE_URL || '/sLixTOOLS/';
-    const coreJsURL = `${basePath}workers/ffmpeg-core.js`;
-    const coreWasmURL = `${basePath}workers/ffmpeg-core.wasm`;
-    
-    console.log('Loading FFmpeg core files from:', { coreJsURL, coreWasmURL });
-    
-    // Use absolute URLs with window.location.origin for proper resolution
-    const fullCoreJsURL = new URL(coreJsURL, window.location.origin).href;
-    const fullCoreWasmURL = new URL(coreWasmURL, window.location.origin).href;
-    
-    // Remove any query parameters that might interfere with module imports
-    const cleanCoreJsURL = fullCoreJsURL.split('?')[0];
-    const cleanCoreWasmURL = fullCoreWasmURL.split('?')[0];
-    
-    console.log('Using clean URLs for FFmpeg load:', { cleanCoreJsURL, cleanCoreWasmURL });
-    
-    try {
-      // FFmpeg WASM 0.12.x - The "failed to import" error suggests the core.js file
-      // is trying to do a dynamic import internally. This might be a version issue.
-      // Try loading without specifying URLs first (uses default CDN), then fallback to local
-      console.log('Loading FFmpeg with local core files...');
-      
-      await ffmpeg.load({
-        coreURL: cleanCoreJsURL,
-        wasmURL: cleanCoreWasmURL,
-      });
-      
-      console.log('FFmpeg loaded successfully');
-    } catch (loadError) {
-      console.error('FFmpeg load error:', loadError);
-      
-      // The "failed to import" error is a known issue with FFmpeg WASM 0.12.x
-      // It happens when the core.js file tries to dynamically import modules
-      // This might be fixed in newer versions or require a different loading approach
-      const errorMessage = loadError instanceof Error ? loadError.message : String(loadError);
-      const isSharedArrayBufferError = errorMessage.includes('SharedArrayBuffer') || 
-                                       errorMessage.includes('cross-origin') ||
-                                       errorMessage.includes('COEP') ||
-                                       errorMessage.includes('COOP');
-      const isImportError = errorMessage.includes('import') || errorMessage.includes('Import') || errorMessage.includes('failed to import');
-      
-      let errorDetails = '';
-      if (isSharedArrayBufferError) {
-        errorDetails = 'Make sure cross-origin isolation headers (COOP/COEP) are set correctly.';
-      } else if (isImportError) {
-        errorDetails = 'FFmpeg core.js is trying to dynamically import modules, which is failing. This is a known issue with FFmpeg WASM 0.12.x. The UMD build might have internal ES module imports that are incompatible with COEP. Consider using a different FFmpeg version or loading method.';
-      } else {
-        errorDetails = 'Check that files exist in public/workers/ and are accessible.';
-      }
-      
-      throw new VideoProcessingError(
-        `Failed to load FFmpeg: ${errorMessage}. ${errorDetails}`,
-        'loading',
-        loadError instanceof Error ? loadError : undefined
-      );
-    }
-    
-    // Write input file
     const inputName = 'input.mp4';
     const outputName = 'output.mp4';
-    await ffmpeg.writeFile(inputName, await fileToUint8Array(videoFile));
     
     // Build FFmpeg command
     const args = ['-i', inputName];
@@ -868,40 +1489,16 @@ const editVideoWithFFmpeg = async (
     
     args.push(outputName);
     
-    // Set up progress tracking
-    ffmpeg.on('progress', ({ progress: prog }) => {
-      onProgress?.(prog);
-    });
-    
-    // Run FFmpeg
-    await ffmpeg.exec(args);
-    
-    // Read output file
-    const data = await ffmpeg.readFile(outputName);
-    
-    // Clean up
-    await ffmpeg.deleteFile(inputName);
-    await ffmpeg.deleteFile(outputName);
-    
-    // Convert FileData to Uint8Array for Blob
-    // FFmpeg returns Uint8Array<ArrayBufferLike>, we need to create a new ArrayBuffer
-    let uint8Array: Uint8Array<ArrayBuffer>;
-    if (data instanceof Uint8Array) {
-      // Create a new ArrayBuffer by copying the data byte by byte
-      const buffer = new ArrayBuffer(data.byteLength);
-      uint8Array = new Uint8Array(buffer);
-      for (let i = 0; i < data.byteLength; i++) {
-        uint8Array[i] = data[i];
-      }
-    } else {
-      // Handle other types (shouldn't happen, but TypeScript requires it)
-      const buffer = new ArrayBuffer(0);
-      uint8Array = new Uint8Array(buffer);
-    }
-    
-    return new Blob([uint8Array], { type: 'video/mp4' });
+    return await runFFmpegJob(async (job) => {
+      await job.writeFile(inputName, await fileToUint8Array(videoFile));
+      await job.exec(args);
+      return new Blob([await job.readFile(outputName)], { type: 'video/mp4' });
+    }, { signal, onProgress });
     
   } catch (error) {
+    if (signal?.aborted) {
+      throw new ProcessingCancelledError('Video editing cancelled');
+    }
     throw new VideoProcessingError(
       `FFmpeg editing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       'processing',
@@ -974,8 +1571,21 @@ export const processLargeFileWithYielding = async <T>(
 // Export types and error class
 export { 
   VideoProcessingError, 
+  VIDEO_CODECS, 
+  ENCODER_PRESETS, 
   type VideoCompressionOptions, 
+  type VideoCodec, 
+  type VideoContainer, 
+  type VideoCodecInfo, 
+  type EncoderPreset, 
+  type RateControlMode, 
   type VideoEditOptions, 
+  type GifToVideoOptions, 
+  type MergeTransition, 
+  type VideoMergeOptions, 
+  type VideoMergeResult, 
+  type VideoCompressionAttempt, 
+  type VideoTargetSizeResult, 
   type ProcessingProgress, 
   type ProgressCallback 
 };
\ No newline at end of file
@@ -0,0 +1,208 @@
+/**
+ * Animated WebP muxer.
+ * Browsers can only encode still WebP images (canvas.toBlob), so each frame is
+ * encoded on its own and the resulting VP8/VP8L bitstreams are wrapped in ANMF
+ * chunks. Frames after the first are cropped to the region that changed.
+ */
+
+import { throwIfAborted } from './cancellation';
+import { changedRect, concat, type PixelRect } from './animationEncoding';
+
+interface WebpFrame {
+  pixels: Uint8ClampedArray<ArrayBuffer>; // RGBA, full canvas size
+  delay: number; // ms
+}
+
+interface WebpEncodeOptions {
+  width: number;
+  height: number;
+  quality: number; // 0-1, passed to canvas.toBlob
+  loopCount?: number | undefined; // 0 = forever
+}
+
+class WebpEncodeError extends Error {
+  constructor(message: string, public stage: string, public originalError?: Error | undefined) {
+    super(message);
+    this.name = 'WebpEncodeError';
+  }
+}
+
+const MAX_DIMENSION = 1 << 24; // 24-bit width/height fields
+const MAX_DURATION = (1 << 24) - 1;
+const VP8X_FLAG_ALPHA = 0x10;
+const VP8X_FLAG_ANIMATION = 0x02;
+const ANMF_FLAG_NO_BLEND = 0x02;
+
+interface StillChunks {
+  chunks: Uint8Array[]; // ALPH (optional) followed by VP8 or VP8L, each with its header
+  hasAlpha: boolean;
+}
+
+const fourCC = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const uint24 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const uint32 = (value: number): number[] => [...uint24(value), (value >>> 24) & 0xff];
+
+// RIFF chunks are padded to an even length
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array([...new TextEncoder().encode(type), ...uint32(data.length)]);
+  return concat(data.length % 2 ? [header, data, new Uint8Array(1)] : [header, data]);
+};
+
+/**
+ * Pull the image bitstream chunks out of a still WebP file.
+ * Metadata chunks (ICCP, EXIF, XMP) are dropped since they are not allowed inside ANMF.
+ */
+const extractStillChunks = (bytes: Uint8Array): StillChunks => {
+  if (bytes.length < 12 || fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') {
+    throw new WebpEncodeError('This browser cannot encode WebP images', 'encoding');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      chunks.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+      // VP8L stores an alpha hint in bit 28 of its header
+      if (type === 'ALPH' || (type === 'VP8L' && (view.getUint32(offset + 9, true) >>> 28) & 1)) {
+        hasAlpha = true;
+      }
+    }
+    offset = end;
+  }
+
+  if (!chunks.some((c) => fourCC(c, 0) !== 'ALPH')) {
+    throw new WebpEncodeError('Encoded WebP frame has no image data', 'encoding');
+  }
+  return { chunks, hasAlpha };
+};
+
+const encodeStill = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      // Browsers without a WebP encoder silently fall back to PNG
+      if (!blob || blob.type !== 'image/webp') {
+        reject(new WebpEncodeError('This browser cannot encode WebP images', 'encoding'));
+        return;
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/webp', quality);
+  });
+
+// ANMF offsets must be even, so left/top are rounded down and the rectangle widened to match
+const changedAnmfRect = (
+  current: Uint8ClampedArray,
+  previous: Uint8ClampedArray,
+  width: number,
+  height: number
+): PixelRect | null => {
+  const rect = changedRect(current, previous, width, height);
+  if (!rect) return null;
+  const left = rect.left & ~1;
+  const top = rect.top & ~1;
+  return { left, top, width: rect.width + rect.left - left, height: rect.height + rect.top - top };
+};
+
+/**
+ * Encode RGBA frames into an animated WebP
+ * @param frames - Full-canvas RGBA frames with delays in ms
+ * @param options - Canvas size, lossy quality (0-1) and loop count
+ * @param onProgress - Called after each frame with (encoded, total)
+ * @param signal - Stops encoding before the next frame
+ * @returns Animated WebP file as a Blob
+ */
+export const encodeAnimatedWebp = async (
+  frames: WebpFrame[],
+  options: WebpEncodeOptions,
+  onProgress?: (encoded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { width, height, quality, loopCount = 0 } = options;
+  if (frames.length === 0) {
+    throw new WebpEncodeError('No frames to encode', 'validation');
+  }
+  if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new WebpEncodeError('Animation is too large for WebP', 'validation');
+  }
+
+  // Identical consecutive frames are merged into the previous frame's delay
+  const merged: WebpFrame[] = [];
+  for (const frame of frames) {
+    const last = merged[merged.length - 1];
+    if (last && !changedRect(frame.pixels, last.pixels, width, height)) {
+      merged[merged.length - 1] = { ...last, delay: last.delay + frame.delay };
+    } else {
+      merged.push(frame);
+    }
+  }
+
+  const fullCanvas = document.createElement('canvas');
+  fullCanvas.width = width;
+  fullCanvas.height = height;
+  const fullCtx = fullCanvas.getContext('2d');
+  const cropCanvas = document.createElement('canvas');
+  const cropCtx = cropCanvas.getContext('2d');
+  if (!fullCtx || !cropCtx) {
+    throw new WebpEncodeError('Failed to create canvas context', 'encoding');
+  }
+
+  const anmfChunks: Uint8Array[] = [];
+  let hasAlpha = false;
+
+  for (let index = 0; index < merged.length; index++) {
+    throwIfAborted(signal);
+    const frame = merged[index];
+    const rect = index === 0
+      ? { left: 0, top: 0, width, height }
+      : changedAnmfRect(frame.pixels, merged[index - 1].pixels, width, height) ?? { left: 0, top: 0, width: 1, height: 1 };
+
+    fullCtx.putImageData(new ImageData(frame.pixels, width, height), 0, 0);
+    cropCanvas.width = rect.width;
+    cropCanvas.height = rect.height;
+    cropCtx.clearRect(0, 0, rect.width, rect.height);
+    cropCtx.drawImage(fullCanvas, rect.left, rect.top, rect.width, rect.height, 0, 0, rect.width, rect.height);
+
+    const still = extractStillChunks(await encodeStill(cropCanvas, quality));
+    hasAlpha ||= still.hasAlpha;
+
+    // Cropped frames replace their rectangle outright, so no blending with what is underneath
+    const header = new Uint8Array([
+      ...uint24(rect.left / 2),
+      ...uint24(rect.top / 2),
+      ...uint24(rect.width - 1),
+      ...uint24(rect.height - 1),
+      ...uint24(Math.min(MAX_DURATION, Math.round(frame.delay))),
+      ANMF_FLAG_NO_BLEND
+    ]);
+    anmfChunks.push(chunk('ANMF', concat([header, ...still.chunks])));
+
+    onProgress?.(index + 1, merged.length);
+  }
+
+  const vp8x = chunk('VP8X', new Uint8Array([
+    VP8X_FLAG_ANIMATION | (hasAlpha ? VP8X_FLAG_ALPHA : 0), 0, 0, 0,
+    ...uint24(width - 1),
+    ...uint24(height - 1)
+  ]));
+  // Background color (BGRA, transparent) followed by the 16-bit loop count
+  const anim = chunk('ANIM', new Uint8Array([0, 0, 0, 0, loopCount & 0xff, (loopCount >> 8) & 0xff]));
+
+  const body = concat([new TextEncoder().encode('WEBP'), vp8x, anim, ...anmfChunks]);
+  const riff = concat([new TextEncoder().encode('RIFF'), new Uint8Array(uint32(body.length)), body]);
+  return new Blob([riff], { type: 'image/webp' });
+};
+
+// Export types and error class
+export {
+  WebpEncodeError,
+  type WebpFrame,
+  type WebpEncodeOptions
+};
@@ -0,0 +1,32 @@
+/**
+ * Web Worker that composites GIF frames off the main thread.
+ * Decoding every frame of a large GIF takes seconds, so it runs here while the
+ * page shows the parsed metadata.
+ */
+
+import { decodeGif, type DecodedGif } from '../utils/gifDecoder';
+
+interface GifDecoderRequest {
+  id: number;
+  file: Blob;
+}
+
+type GifDecoderResponse =
+  | { id: number; gif: DecodedGif }
+  | { id: number; error: string };
+
+self.addEventListener('message', async (event: MessageEvent<GifDecoderRequest>) => {
+  const { id, file } = event.data;
+  try {
+    const gif = decodeGif(await file.arrayBuffer());
+    const response: GifDecoderResponse = { id, gif };
+    // Every frame owns its pixel buffer, so all of them can be handed over without copying
+    self.postMessage(response, { transfer: gif.frames.map((frame) => frame.pixels.buffer) });
+  } catch (error) {
+    const response: GifDecoderResponse = { id, error: error instanceof Error ? error.message : 'GIF decoding failed' };
+    self.postMessage(response);
+  }
+});
+
+// Export types
+export { type GifDecoderRequest, type GifDecoderResponse };
@@ -0,0 +1,32 @@
+/**
+ * Web Worker that runs the GIF encoder off the main thread.
+ * LZW (especially lossy LZW) is the slowest stage of GIF output, so it runs here
+ * to keep the page responsive.
+ */
+
+import { encodeGif, type GifEncodeFrame, type GifEncodeOptions } from '../utils/gifEncoder';
+
+interface GifEncoderRequest {
+  id: number;
+  frames: GifEncodeFrame[];
+  options: GifEncodeOptions;
+}
+
+type GifEncoderResponse =
+  | { id: number; bytes: Uint8Array<ArrayBuffer> }
+  | { id: number; error: string };
+
+self.addEventListener('message', (event: MessageEvent<GifEncoderRequest>) => {
+  const { id, frames, options } = event.data;
+  try {
+    const bytes = encodeGif(frames, options);
+    const response: GifEncoderResponse = { id, bytes };
+    self.postMessage(response, { transfer: [bytes.buffer] });
+  } catch (error) {
+    const response: GifEncoderResponse = { id, error: error instanceof Error ? error.message : 'GIF encoding failed' };
+    self.postMessage(response);
+  }
+});
+
+// Export types
+export { type GifEncoderRequest, type GifEncoderResponse };